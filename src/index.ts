@@ -1,3 +1,5 @@
 export * from './lib/Store';
 export * from './lib/util';
-export * from './lib/mockStoreFactory';
\ No newline at end of file
+export * from './lib/validators';
+export * from './lib/mockStoreFactory';
+export * from './lib/locks';
\ No newline at end of file
@@ -25,12 +25,49 @@ import {
   QueueMapBase,
   getByFieldNameFromIndexedCollection,
   toIndexedCollectionName,
+  getByFieldNameFromMultiIndexedCollection,
+  toMultiIndexedCollectionName,
+  toMultiIndexedCollectionValueSet,
+  toReferencedByCollectionName,
+  toReferenceMember,
+  fromReferenceMember,
+  CollectionItemReference,
   objectKeys,
   CollectionItemWithoutForeignKeys,
   UpdateableCollectionPropsGetter,
+  UnknownRecord,
+  ForeignItemsResolutionOptions,
+  toCollectionItemKey,
+  TolerantForeignItemsResolutionOptions,
+  CollectionDanglingReference,
+  CollectionItemWithDanglingReferences,
+  CollectionItemsWithDanglingReferences,
+  CollectionScanOptions,
+  CollectionScanReply,
+  CollectionOrderedRangeOptions,
+  toInsertionOrderedCollectionName,
+  CollectionRangeOptions,
+  toRangeIndexedCollectionName,
+  getByFieldNameFromRangeIndexedCollection,
+  toIndexedFieldName,
+  getIndexedFieldValue,
+  getValueAtPath,
+  PathsOfType,
+  StoreSchema,
+  CollectionSchema,
+  SchemaForeignKeys,
+  CollectionIdStrategy,
 } from './util';
-import redisLock from 'redis-lock';
-import { promisify } from 'util';
+import { CollectionValidationIssue } from './validators';
+import { generateNanoid, generateUlid, generateUuid } from './ids';
+import {
+  GUARDED_WRITE_SCRIPT,
+  GuardedWriteReply,
+  StoreScript,
+  WriteGuards,
+} from './scripts';
+import { createRedisLockProvider, LockProvider, Unlock } from './locks';
+import { AsyncLocalStorage } from 'async_hooks';
 import { RedisClient } from 'redis';
 
 export type StoreErrors =
@@ -39,18 +76,339 @@ export type StoreErrors =
   | 'CollectionDeletionFailure'
   | 'CollectionUpdateFailure'
   | 'CollectionUpdateFailure:MismatchingForeignKeys'
+  | 'CollectionUniqueIndexViolation'
+  | 'CollectionItemIdCollision'
+  | 'CollectionItemAlreadyExists'
+  // An id given more than once in the same batch, which only gets applied the first time
+  | 'CollectionItemIdDuplicate'
+  | 'CollectionVersionConflict'
+  | CollectionValidationFailureError
+  | CollectionForeignItemsInexistentError
+  | CollectionDeletionRestrictedError
   | 'CollectionOrFieldInexistent'
   | 'QueueItemNotFound'
+  | 'TransactionFailure'
+  | 'LockAcquisitionTimeout'
+  | 'CriticalSectionFailure'
+  // A lock of a withLocks call that couldn't be extended (i.e. it expired while its function
+  //  was blocked), so the function might not have run exclusively
+  | 'CriticalSectionLockExpired'
   | 'GenericRedisFailure';
 
-export type StoreConfig = {
+export type CollectionForeignItemsInexistentError = {
+  type: 'CollectionForeignItemsInexistent';
+  missingForeignItems: {
+    collection: string;
+    ids: string[];
+  }[];
+};
+
+export type CollectionValidationFailureError = {
+  type: 'CollectionValidationFailure';
+  issues: CollectionValidationIssue[];
+};
+
+export type CollectionDeletionRestrictedError = {
+  type: 'CollectionDeletionRestricted';
+  referencedBy: CollectionItemReference[];
+};
+
+type RedisMulti = ReturnType<RedisClient['MULTI']>;
+
+type IndexedValueRecord<V> = {
+  indexedInCollection: string;
+  indexedByField: string;
+  prevValue: V;
+  nextValue: V;
+};
+
+type ForeignItemsCheck<CollectionMap extends CollectionMapBase> = {
+  next: Pick<
+    CollectionItemMetadata<unknown, CollectionMap>,
+    'val' | 'foreignKeys'
+  >;
+  prev?: Pick<
+    CollectionItemMetadata<unknown, CollectionMap>,
+    'val' | 'foreignKeys'
+  >;
+};
+
+type UniqueIndexRecord = {
+  indexedInCollection: string;
+  value: string | number;
+};
+
+type UpdatedIndexRecords = {
+  indexed: IndexedValueRecord<string>[];
+  // The indexed ones that are enforced to be unique
+  uniqueIndexed: IndexedValueRecord<string>[];
+  multiIndexed: IndexedValueRecord<string>[];
+  rangeIndexed: IndexedValueRecord<number>[];
+};
+
+const MAX_ID_GENERATION_ATTEMPTS = 3;
+
+// The addition opts once the given fields got checked against the item type
+type ItemAdditionOpts = {
+  indexBy?: (PropertyKey | PropertyKey[])[];
+  uniqueIndexBy?: (PropertyKey | PropertyKey[])[];
+  multiIndexBy?: (PropertyKey | PropertyKey[])[];
+  rangeIndexBy?: PropertyKey[];
+  foreignKeys?: {};
+  mode?: 'create' | 'replace' | 'upsert';
+};
+
+const MAX_GUARDED_WRITE_ATTEMPTS = 5;
+
+// The same as the redis-lock defaults
+const DEFAULT_LOCK_TTL = 5000;
+const DEFAULT_LOCK_RETRY_DELAY = 50;
+
+// A write computed from what was read, along with the guards that what was read didn't change
+// The locks of a withLocks call, and the ones of the calls it runs in, which stop counting
+//  as held once released, even for the work it started and didn't wait for
+type HeldLocks = {
+  resources: string[];
+  released: boolean;
+  parent?: HeldLocks;
+};
+
+// A lock acquired by the Store, which knows the ttl to extend it by
+type StoreLock = {
+  unlock: Unlock;
+  extend: () => Promise<boolean>;
+  ttl: number;
+};
+
+type GuardedWrite<V> = {
+  guards: WriteGuards;
+  withTransactions: (transactions: RedisMulti) => RedisMulti;
+  onWritten: () => Promise<Result<V, StoreErrors>>;
+};
+
+type CollectionItemMetadataWithCollection<
+  CollectionMap extends CollectionMapBase,
+  CollectionKey extends keyof CollectionMap & string
+> = {
+  collection: CollectionKey;
+  metadata: CollectionItemMetadata<unknown, CollectionMap>;
+};
+
+type RemovalPlan<
+  CollectionMap extends CollectionMapBase,
+  CollectionKey extends keyof CollectionMap & string
+> = {
+  removals: CollectionItemMetadataWithCollection<
+    CollectionMap,
+    CollectionKey
+  >[];
+  modifications: (CollectionItemMetadataWithCollection<
+    CollectionMap,
+    CollectionKey
+  > & {
+    prev: CollectionItemMetadata<unknown, CollectionMap>;
+  })[];
+  restrictedBy: CollectionItemReference[];
+  // The same restrictions, by the given item they end up blocking (keyed as [collection, id])
+  restrictedByPerItem: { [itemKey: string]: CollectionItemReference[] };
+  // The references the plan got walked from, as they were read
+  references: { referencedByCollection: string; members: string[] }[];
+};
+
+type TransactionState<CollectionMap extends CollectionMapBase> = {
+  // The items as they get committed, keyed as [collection, id], with the removed ones as null
+  items: {
+    [itemKey: string]: CollectionItemMetadata<unknown, CollectionMap> | null;
+  };
+  // The unique index values taken (or released as null), keyed as [indexedInCollection, value]
+  uniqueValues: { [key: string]: string | null };
+  writes: ((transactions: RedisMulti) => RedisMulti)[];
+  // The locks the staged writes need, only acquired for the commit, all at once and in the
+  //  same order as every other caller does, so it can't deadlock with them
+  lockTargets: LockTarget[];
+  // What the staged writes got computed from, checked again along with the commit
+  guards: WriteGuards;
+  // The last insertion index looked at per collection, which the sequential ids get taken from
+  indexes: { [nameSpacedCollection: string]: number };
+  // The staged items new to the insertion order, keyed as [collection, id] per collection, in
+  //  the order they got added. Their indexes only get reserved by the commit
+  additions: { [nameSpacedCollection: string]: string[] };
+  // The insertion index of each staged item, keyed as [collection, id], kept when it's replaced
+  insertionIndexes: { [itemKey: string]: number };
+  // The operations run one at a time, since each of them builds on the previous ones
+  pending: Promise<unknown>;
+  failure?: StoreErrors;
+  closed: boolean;
+};
+
+export type StoreConfig<
+  CollectionMap extends CollectionMapBase = any,
+  Schema extends StoreSchema<CollectionMap> = StoreSchema<CollectionMap>
+> = {
   namespace?: string;
   logger?: typeof console;
+  // The foreign keys, indexes and id strategy of each collection, declared once
+  //  instead of at every call. The opts given at a call override them
+  schema?: Schema;
+  // How the additions, updates and removals are kept atomic: "locks" (default) serializes
+  //  them through the locks, while "scripts" takes no lock and does an optimistic
+  //  compare-and-set instead. The reads and checks still run in the process, and a single
+  //  script only applies the writes if nothing they were computed from changed in between,
+  //  or the whole write gets computed again (up to 5 times). The insertion indexes are
+  //  reserved before the script, so a failed or retried addition leaves a gap in them.
+  //  All the writers to the same collections are expected to use the same one
+  atomicity?: 'locks' | 'scripts';
+  // The defaults for all the locks, with the ones given per collection overriding them
+  locking?: LockingOptions & {
+    collections?: { [K in keyof CollectionMap]?: LockingOptions };
+    // How the locks get acquired, on the store's own node by default
+    provider?: LockProvider;
+  };
+};
+
+// All in ms
+export type LockingOptions = {
+  // How long a lock is held at most, so a holder that died doesn't block everyone else for good
+  ttl?: number;
+  // How long to wait before trying to acquire a taken lock again
+  retryDelay?: number;
+  // How long to wait for a lock before failing with "LockAcquisitionTimeout". No limit by default
+  maxWait?: number;
+};
+
+export type LockTarget<CollectionKey extends string = string> = {
+  collection: CollectionKey;
+  // The whole collection gets locked when no id is given
+  id?: string;
+};
+
+// The item locks of a collection come before the collection lock, the same as for the updates
+const compareLockTargets = (a: LockTarget, b: LockTarget) => {
+  if (a.collection !== b.collection) {
+    return a.collection < b.collection ? -1 : 1;
+  }
+
+  if (a.id === b.id) {
+    return 0;
+  }
+
+  if (a.id === undefined || b.id === undefined) {
+    return a.id === undefined ? 1 : -1;
+  }
+
+  return a.id < b.id ? -1 : 1;
+};
+
+// The values a range index can score the items by
+const isRangeIndexableValue = (value: unknown): value is number =>
+  typeof value === 'number' && isFinite(value);
+
+// The sequential ids first, by their number, then the others by id
+const compareByInsertionId = (a: { id: string }, b: { id: string }) => {
+  const aIsSequential = /^[1-9]\d*$/.test(a.id);
+  const bIsSequential = /^[1-9]\d*$/.test(b.id);
+
+  if (aIsSequential !== bIsSequential) {
+    return aIsSequential ? -1 : 1;
+  }
+
+  if (aIsSequential) {
+    return Number(a.id) - Number(b.id);
+  }
+
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+};
+
+// The writes only happen on commit, so the items given back are the raw ones about to be
+//  stored, with the foreign keys left as ids
+export type StoreTransaction<
+  CollectionMap extends CollectionMapBase,
+  QueueMap extends QueueMapBase = {},
+  Schema extends StoreSchema<CollectionMap> = {},
+  CollectionKey extends keyof CollectionMap & string = keyof CollectionMap &
+    string,
+  QueueKey extends keyof QueueMap & string = keyof QueueMap & string
+> = {
+  addItemToCollection<
+    K extends CollectionKey,
+    T extends CollectionMap[K],
+    IndexBy extends PathsOfType<string | number, UnidentifiableModel<T>>,
+    UniqueIndexBy extends PathsOfType<string | number, UnidentifiableModel<T>>,
+    MultiIndexBy extends PathsOfType<string | number, UnidentifiableModel<T>>,
+    RangeIndexBy extends PathsOfType<number, UnidentifiableModel<T>>,
+    FKs extends ForeignKeys<T, CollectionMap> = Extract<
+      SchemaForeignKeys<Schema, K>,
+      ForeignKeys<T, CollectionMap>
+    >
+  >(
+    collection: K,
+    val: Partial<CollectionItem<UnidentifiableModel<T>, CollectionMap, FKs>>,
+    id: string,
+    opts: {
+      indexBy?: (IndexBy | IndexBy[])[];
+      uniqueIndexBy?: (UniqueIndexBy | UniqueIndexBy[])[];
+      multiIndexBy?: (MultiIndexBy | MultiIndexBy[])[];
+      rangeIndexBy?: RangeIndexBy[];
+      foreignKeys?: FKs;
+      mode: 'upsert';
+    }
+  ): AsyncResult<CollectionItemMetadata<T, CollectionMap>, StoreErrors>;
+  addItemToCollection<
+    K extends CollectionKey,
+    T extends CollectionMap[K],
+    IndexBy extends PathsOfType<string | number, UnidentifiableModel<T>>,
+    UniqueIndexBy extends PathsOfType<string | number, UnidentifiableModel<T>>,
+    MultiIndexBy extends PathsOfType<string | number, UnidentifiableModel<T>>,
+    RangeIndexBy extends PathsOfType<number, UnidentifiableModel<T>>,
+    FKs extends ForeignKeys<T, CollectionMap> = Extract<
+      SchemaForeignKeys<Schema, K>,
+      ForeignKeys<T, CollectionMap>
+    >
+  >(
+    collection: K,
+    val: CollectionItem<UnidentifiableModel<T>, CollectionMap, FKs>,
+    id?: string,
+    opts?: {
+      indexBy?: (IndexBy | IndexBy[])[];
+      uniqueIndexBy?: (UniqueIndexBy | UniqueIndexBy[])[];
+      multiIndexBy?: (MultiIndexBy | MultiIndexBy[])[];
+      rangeIndexBy?: RangeIndexBy[];
+      foreignKeys?: FKs;
+      mode?: 'create' | 'replace' | 'upsert';
+    }
+  ): AsyncResult<CollectionItemMetadata<T, CollectionMap>, StoreErrors>;
+  updateItemInCollection<
+    K extends CollectionKey,
+    T extends CollectionMap[K],
+    FKs extends ForeignKeys<T, CollectionMap>
+  >(
+    collection: K,
+    id: string,
+    itemModelGetter: UpdateableCollectionPropsGetter<T>,
+    opts?: {
+      foreignKeys?: FKs;
+      migrateForeignKeys?: boolean;
+    }
+  ): AsyncResult<CollectionItemMetadata<T, CollectionMap>, StoreErrors>;
+  removeItemInCollection<K extends CollectionKey>(
+    collection: K,
+    id: string
+  ): AsyncResult<void, StoreErrors>;
+  // Sees the writes staged so far in the transaction
+  getRawItemInCollection<K extends CollectionKey, T extends CollectionMap[K]>(
+    collection: K,
+    id: string
+  ): AsyncResult<CollectionItemMetadata<T, CollectionMap>, StoreErrors>;
+  enqueue<Q extends QueueKey, T extends QueueMap[Q]>(
+    q: Q,
+    item: UnidentifiableModel<T>
+  ): AsyncResult<void, StoreErrors>;
 };
 
 export class Store<
   CollectionMap extends CollectionMapBase,
   QueueMap extends QueueMapBase = {},
+  Schema extends StoreSchema<CollectionMap> = {},
   CollectionKey extends keyof CollectionMap & string = keyof CollectionMap &
     string,
   QueueKey extends keyof QueueMap & string = keyof QueueMap & string
@@ -59,12 +417,29 @@ export class Store<
 
   public redisClient: IHandyRedis;
 
-  private redisLock: (resource: string) => Promise<(done?: () => void) => void>;
+  private lockProvider: LockProvider;
+
+  // The locks held by the withLocks call an operation runs in, which it doesn't take again
+  private heldLocks = new AsyncLocalStorage<HeldLocks>();
 
   private logger: typeof console;
 
-  constructor(private redis: IHandyRedis, config?: StoreConfig) {
+  private schema: StoreSchema<CollectionMap>;
+
+  private atomicity: NonNullable<StoreConfig['atomicity']>;
+
+  private locking: NonNullable<StoreConfig<CollectionMap>['locking']>;
+
+  constructor(
+    private redis: IHandyRedis,
+    config?: StoreConfig<CollectionMap, Schema>
+  ) {
     this.logger = config?.logger || console;
+    this.schema = config?.schema || {};
+    this.atomicity = config?.atomicity || 'locks';
+    this.locking = config?.locking || {};
+    this.lockProvider =
+      this.locking.provider || createRedisLockProvider(redis.redis);
     this.redisClient = this.redis;
 
     this.redis.redis.on('connect', () => {
@@ -80,1010 +455,5012 @@ export class Store<
       });
     });
 
-    this.redisLock = promisify(redisLock(redis.redis));
-
     this.namespace = config?.namespace ? `${config?.namespace}::` : '';
   }
 
-  lockCollection<K extends CollectionKey>(collection: K) {
-    const nameSpacedCollection = this.toNamespacedCollection(collection);
-    return this.redisLock(`locked:${nameSpacedCollection}`);
+  private getCollectionSchema<K extends CollectionKey>(
+    collection: K
+  ): CollectionSchema<CollectionMap[K], CollectionMap> {
+    return this.schema[collection] || {};
   }
 
-  lockCollectionItem<K extends CollectionKey>(collection: K, id: string) {
+  // Regenerates the ids colliding with an existent item or with each other, up to a few attempts
+  private async generateCollectionItemIds<K extends CollectionKey>(
+    collection: K,
+    idStrategy: Exclude<CollectionIdStrategy<CollectionMap[K]>, 'sequential'>,
+    vals: unknown[]
+  ) {
     const nameSpacedCollection = this.toNamespacedCollection(collection);
-    return this.redisLock(`locked:${nameSpacedCollection}:${id}`);
-  }
 
-  private toNamespacedCollection = <K extends CollectionKey>(collection: K) =>
-    `${this.namespace}${collection}` as K;
+    const generate = (val: unknown) =>
+      idStrategy === 'uuid'
+        ? generateUuid()
+        : idStrategy === 'ulid'
+        ? generateUlid()
+        : idStrategy === 'nanoid'
+        ? generateNanoid()
+        : idStrategy(val as UnidentifiableModel<CollectionMap[K]>);
 
-  addItemToCollection<
-    K extends CollectionKey,
-    T extends CollectionMap[K],
-    IndexBy extends OnlyKeysOfType<string | number, UnidentifiableModel<T>>,
-    FKs extends ForeignKeys<T, CollectionMap>
-  >(
-    collection: K,
-    val: CollectionItem<UnidentifiableModel<T>, CollectionMap, FKs>,
-    id?: string,
-    opts: {
-      indexBy?: IndexBy[];
-      foreignKeys: FKs;
-    } = {
-      foreignKeys: {} as FKs,
+    const ids: (string | undefined)[] = vals.map(() => undefined);
+
+    for (let attempt = 0; attempt < MAX_ID_GENERATION_ATTEMPTS; attempt++) {
+      const pending = vals.map((_, i) => i).filter((i) => ids[i] === undefined);
+
+      if (pending.length === 0) {
+        break;
+      }
+
+      const candidates = pending.map((i) => generate(vals[i]));
+      const replies = await this.redis.hmget(
+        nameSpacedCollection,
+        ...candidates.map((candidate) =>
+          toCollectionId(nameSpacedCollection, candidate)
+        )
+      );
+
+      candidates.forEach((candidate, j) => {
+        const taken =
+          (replies[j] !== null && replies[j] !== undefined) ||
+          ids.indexOf(candidate) > -1;
+
+        if (!taken) {
+          ids[pending[j]] = candidate;
+        }
+      });
     }
-  ): AsyncResult<CollectionItemOrReply<T>, StoreErrors> {
-    const nameSpacedCollection = this.toNamespacedCollection(collection);
 
-    return new AsyncResultWrapper<CollectionItemOrReply<T>, StoreErrors>(
-      async () => {
-        // Lock the resource so only one addition happens at a time
-        const unlock = await this.lockCollection(collection);
+    return ids;
+  }
 
-        const resolvedId = id
-          ? id
-          : await this.redis
-              .hget(nameSpacedCollection, '_index')
-              .then((v) => (v !== null ? String(Number(v) + 1) : '1'));
+  // The sequential ids skip the ones already taken by explicitly given ids
+  private async getNextCollectionIndex(
+    nameSpacedCollection: string,
+    isSequentialId: boolean
+  ) {
+    let nextIndex = await this.redis.hincrby(nameSpacedCollection, '_index', 1);
 
-        const field = toCollectionId(nameSpacedCollection, resolvedId);
+    while (
+      isSequentialId &&
+      (await this.redis.hexists(
+        nameSpacedCollection,
+        toCollectionId(nameSpacedCollection, String(nextIndex))
+      ))
+    ) {
+      nextIndex = await this.redis.hincrby(nameSpacedCollection, '_index', 1);
+    }
 
-        let item: CollectionItemMetadata<T, CollectionMap> = {
-          val: val as unknown as CollectionItemMetadata<
-            T,
-            CollectionMap
-          >['val'],
-          id: resolvedId,
-          // Store only if any foreign keys present
-          ...(opts.foreignKeys &&
-            Object.keys(opts.foreignKeys).length > 0 && {
-              foreignKeys: opts.foreignKeys as CollectionItemMetadata<
-                T,
-                CollectionMap
-              >['foreignKeys'],
-            }),
-          ...(opts.indexBy &&
-            opts.indexBy.length > 0 && {
-              indexedIn: opts.indexBy.reduce(
-                (prev, byField) => ({
-                  ...prev,
-                  [toIndexedCollectionName(
-                    nameSpacedCollection,
-                    String(byField)
-                  )]: (val as any)[byField],
-                }),
-                {}
-              ),
-            }),
-        };
+    return nextIndex;
+  }
 
-        let transactions = this.redis
-          .multi()
-          .hset(nameSpacedCollection, [field, JSON.stringify(item)])
-          .hincrby(nameSpacedCollection, '_index', 1)
-          .hlen(nameSpacedCollection)
-          .hget(nameSpacedCollection, field);
-
-        // If there is an indexBy, create the indexBy hashMaps
-        opts.indexBy?.forEach((key) => {
-          transactions = transactions.hset(
-            toIndexedCollectionName(nameSpacedCollection, String(key)),
-            `${(val as any)[key]}`,
-            resolvedId
-          );
-        });
+  // Reserves a whole range at once, only going one by one for the sequential ids already taken
+  private async reserveCollectionIndexes(
+    nameSpacedCollection: string,
+    isSequentialIdPerItem: boolean[]
+  ) {
+    if (isSequentialIdPerItem.length === 0) {
+      return [];
+    }
 
-        const res = await this.redis.execMulti(transactions);
+    const lastIndex = await this.redis.hincrby(
+      nameSpacedCollection,
+      '_index',
+      isSequentialIdPerItem.length
+    );
+    const indexes = isSequentialIdPerItem.map(
+      (_, i) => lastIndex - isSequentialIdPerItem.length + 1 + i
+    );
 
-        if (res === null) {
-          unlock();
-          return new Err('CollectionFieldInexistent');
-        }
+    const sequentialPositions = isSequentialIdPerItem
+      .map((isSequentialId, i) => (isSequentialId ? i : -1))
+      .filter((i) => i > -1);
 
-        // TODO: Add an optimization to only run another query if there are foreign keys
-        //  or if the foregin keys have been updated not if there are no modification to that
-        //  since this could be pretty expensive
-        // But on the other hand it could also be ok since data will be always fresh!
-        // if (nextItemWithMetadata.foreignKeys && ) {}
-        const parsedResItem = JSON.parse(res[3] as string);
-
-        return await this.getItemInCollection(collection, parsedResItem.id)
-          .map((item) => ({
-            index: Number(res[1]),
-            length: Number(res[2]) - 1, // remove the index key
-            item: item as T,
-          }))
-          .resolve()
-          .finally(() => unlock());
+    if (sequentialPositions.length === 0) {
+      return indexes;
+    }
+
+    const replies = await this.redis.hmget(
+      nameSpacedCollection,
+      ...sequentialPositions.map((i) =>
+        toCollectionId(nameSpacedCollection, String(indexes[i]))
+      )
+    );
+
+    for (let j = 0; j < sequentialPositions.length; j++) {
+      if (replies[j] !== null && replies[j] !== undefined) {
+        indexes[sequentialPositions[j]] = await this.getNextCollectionIndex(
+          nameSpacedCollection,
+          true
+        );
       }
-    ).map(
-      AsyncResult.passThrough((next) => {
-        this.logger.info('[Store] Item Added', {
-          collection,
-          id: next.item.id,
-          length: next.index,
-        });
-      })
+    }
+
+    return indexes;
+  }
+
+  // The items as stored, in a single round trip, with the inexistent ones as undefined
+  private async getStoredItemsMetadata(
+    collection: CollectionKey,
+    ids: string[]
+  ) {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const nameSpacedCollection = this.toNamespacedCollection(collection);
+    const replies = await this.redis.hmget(
+      nameSpacedCollection,
+      ...ids.map((id) => toCollectionId(nameSpacedCollection, id))
+    );
+
+    return replies.map((reply) =>
+      reply !== null && reply !== undefined
+        ? (JSON.parse(reply) as CollectionItemMetadata<unknown, CollectionMap>)
+        : undefined
     );
   }
 
-  getCollectionIndex<K extends CollectionKey>(
+  // Rejects if the lock isn't acquired within the maxWait (when given)
+  lockCollection<K extends CollectionKey>(collection: K) {
+    return this.toUnlockPromise(this.acquireCollectionLock(collection));
+  }
+
+  lockCollectionItem<K extends CollectionKey>(collection: K, id: string) {
+    return this.toUnlockPromise(this.acquireCollectionItemLock(collection, id));
+  }
+
+  acquireCollectionLock<K extends CollectionKey>(
     collection: K
-  ): AsyncResult<number, StoreErrors> {
-    const nameSpacedCollection = this.toNamespacedCollection(collection);
+  ): AsyncResult<Unlock, StoreErrors> {
+    return new AsyncResultWrapper(async () =>
+      (await this.acquireLock(collection, this.toLockResource(collection))).map(
+        ({ unlock }) => unlock
+      )
+    );
+  }
 
-    return new AsyncResultWrapper(async () => {
-      const v = await this.redis.hget(nameSpacedCollection, '_index');
+  acquireCollectionItemLock<K extends CollectionKey>(
+    collection: K,
+    id: string
+  ): AsyncResult<Unlock, StoreErrors> {
+    return new AsyncResultWrapper(async () =>
+      (
+        await this.acquireLock(collection, this.toLockResource(collection, id))
+      ).map(({ unlock }) => unlock)
+    );
+  }
 
-      if (v === null) {
-        // If the index to a collection doesnt exist it means it's not instantiated yet
-        return new Ok(0);
+  private toUnlockPromise(lock: AsyncResult<Unlock, StoreErrors>) {
+    return lock.resolve().then((lockResult) => {
+      if (!lockResult.ok) {
+        throw new Error(String(lockResult.val));
       }
 
-      return new Ok(Number(v));
+      return lockResult.val;
     });
   }
 
-  getCollectionLength<K extends CollectionKey>(
-    collection: K
-  ): AsyncResult<number, StoreErrors> {
-    const nameSpacedCollection = this.toNamespacedCollection(collection);
+  /**
+   * Runs the given function while holding all the given item and collection locks, which
+   *  every call acquires in the same order, so overlapping calls can't deadlock each other.
+   *  The operations run inside it don't wait for the locks it already holds, and the locks
+   *  get released at the end, after which the work it started and didn't wait for has to wait
+   *  for them like any other. An error thrown in the function fails with "CriticalSectionFailure".
+   *  The locks get extended while the function runs, and a lock that couldn't be (i.e. it
+   *  expired in between) fails with "CriticalSectionLockExpired" once the function is done.
+   */
+  withLocks<R>(
+    targets: LockTarget<CollectionKey>[],
+    fn: () => Promise<R>
+  ): AsyncResult<R, StoreErrors> {
+    return new AsyncResultWrapper<R, StoreErrors>(async () => {
+      const locksResult = await this.acquireLocks(targets);
+
+      if (!locksResult.ok) {
+        return locksResult;
+      }
+
+      const { unlock, extend, ttl, resources } = locksResult.val;
+      const held: HeldLocks = {
+        resources,
+        released: false,
+        parent: this.heldLocks.getStore(),
+      };
+
+      // Once one got lost there's no point in extending the others
+      let extension = Promise.resolve(true);
+      const extendOnce = () => {
+        extension = extension
+          .then((extended) => extended && extend())
+          .catch(() => false);
+      };
+
+      // The locks get extended halfway through their ttl, for as long as the function runs
+      const extensionTimer = isFinite(ttl)
+        ? setInterval(extendOnce, ttl / 2)
+        : undefined;
 
-    return new AsyncResultWrapper(async () => {
       try {
-        const v = await this.redis.hlen(nameSpacedCollection);
+        const result = await this.heldLocks.run(held, fn);
 
-        return new Ok(Number(v));
+        clearInterval(extensionTimer);
+
+        // Extended once more, as the function might have blocked the timer until the locks expired
+        if (extensionTimer) {
+          extendOnce();
+        }
+
+        if (!(await extension)) {
+          this.logger.error('[Store] Critical Section Lock Expired', {
+            resources,
+          });
+
+          return new Err('CriticalSectionLockExpired');
+        }
+
+        return new Ok(result);
       } catch (error) {
-        this.logger.error('[Store] Get Collection Length', {
-          collection,
-          error,
-        });
-        return new Err('GenericRedisFailure');
+        this.logger.error('[Store] Critical Section Error', { error });
+
+        return new Err('CriticalSectionFailure');
+      } finally {
+        clearInterval(extensionTimer);
+        held.released = true;
+        unlock();
       }
     });
   }
 
-  private compactAllForeignKeys(
-    itemsMetadata: CollectionItemMetadata<unknown, {}>[]
-  ) {
-    const allFKsToFIdsMap = itemsMetadata.reduce((prev, itemMetadata) => {
-      const foreignKeysList = Object.keys(itemMetadata.foreignKeys || {});
+  // Acquires all the given locks in the same order as every other caller does, so they can't
+  //  deadlock each other, and gives back a single unlock (and extend) for all of them, with
+  //  the shortest of their ttls
+  private async acquireLocks(
+    targets: LockTarget<CollectionKey>[]
+  ): Promise<Result<StoreLock & { resources: string[] }, StoreErrors>> {
+    const orderedTargets = [...targets]
+      .sort(compareLockTargets)
+      .filter(
+        (target, i, all) =>
+          i === 0 || compareLockTargets(all[i - 1], target) !== 0
+      );
 
-      const valuesMap = foreignKeysList.reduce((p, k) => {
-        const foreignKeyObject = (
-          itemMetadata.foreignKeys as ForeignKeys<{ [k: string]: any }, {}>
-        )[k];
+    const resources: string[] = [];
+    const locks: StoreLock[] = [];
+    const unlock = () => locks.forEach((lock) => lock.unlock());
+    const extend = () =>
+      Promise.all(locks.map((lock) => lock.extend())).then((extended) =>
+        extended.every(Boolean)
+      );
 
-        return {
-          ...p,
-          [foreignKeyObject.collection]: {
-            ...p[k],
-            ...(foreignKeyObject.type === 'oneToMany'
-              ? (itemMetadata.val as any)[k]
-              : { [itemMetadata.val[k]]: null }),
-          },
-        };
-      }, {} as { [fCollection: string]: { [fid: string]: null } });
+    for (const { collection, id } of orderedTargets) {
+      const resource = this.toLockResource(collection, id);
+      const lockResult = await this.acquireLock(collection, resource);
 
-      return deepmerge(prev, valuesMap);
-    }, {} as { [fk: string]: { [fid: string]: null } });
+      if (!lockResult.ok) {
+        unlock();
 
-    const orderedAllFKs = Object.keys(allFKsToFIdsMap);
+        return lockResult;
+      }
 
-    return orderedAllFKs.reduce(
-      (prev, next) => ({
-        ...prev,
+      resources.push(resource);
+      locks.push(lockResult.val);
+    }
+
+    return new Ok({
+      unlock,
+      extend,
+      ttl: Math.min(...locks.map((lock) => lock.ttl)),
+      resources,
+    });
+  }
+
+  private toLockResource(collection: CollectionKey, id?: string) {
+    const nameSpacedCollection = this.toNamespacedCollection(collection);
+
+    return id === undefined
+      ? `locked:${nameSpacedCollection}`
+      : `locked:${nameSpacedCollection}:${id}`;
+  }
+
+  private async acquireLock(
+    collection: CollectionKey,
+    resource: string
+  ): Promise<Result<StoreLock, StoreErrors>> {
+    // Released and extended by the withLocks call holding it
+    if (this.isLockHeld(resource)) {
+      return new Ok({
+        unlock: (done?: () => void) => done?.(),
+        extend: async () => true,
+        ttl: Infinity,
+      });
+    }
+
+    const { collections, provider, ...defaultOpts } = this.locking;
+    const {
+      ttl = DEFAULT_LOCK_TTL,
+      retryDelay = DEFAULT_LOCK_RETRY_DELAY,
+      maxWait,
+    } = { ...defaultOpts, ...collections?.[collection] };
+
+    const startedAt = Date.now();
+    const lock = await this.lockProvider.acquire(resource, {
+      ttl,
+      retryDelay,
+      maxWait,
+    });
+
+    const acquiredAt = Date.now();
+
+    if (!lock) {
+      this.logger.error('[Store] Lock Acquisition Timeout Error', {
+        resource,
+        waited: acquiredAt - startedAt,
+      });
+
+      return new Err('LockAcquisitionTimeout');
+    }
+
+    this.logger.debug('[Store] Lock Acquired', {
+      resource,
+      waited: acquiredAt - startedAt,
+    });
+
+    return new Ok({
+      unlock: (done?: () => void) => {
+        this.logger.debug('[Store] Lock Released', {
+          resource,
+          held: Date.now() - acquiredAt,
+        });
+
+        lock(done);
+      },
+      extend: () => lock.extend(ttl),
+      ttl,
+    });
+  }
+
+  private isLockHeld(resource: string) {
+    for (let held = this.heldLocks.getStore(); held; held = held.parent) {
+      if (!held.released && held.resources.indexOf(resource) > -1) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  private toNamespacedCollection = <K extends CollectionKey>(collection: K) =>
+    `${this.namespace}${collection}` as K;
+
+  // An upsert merges the val into the existent item, keeping its indexes and foreign keys,
+  //  so it only needs the fields that change
+  addItemToCollection<
+    K extends CollectionKey,
+    T extends CollectionMap[K],
+    IndexBy extends PathsOfType<string | number, UnidentifiableModel<T>>,
+    UniqueIndexBy extends PathsOfType<string | number, UnidentifiableModel<T>>,
+    MultiIndexBy extends PathsOfType<string | number, UnidentifiableModel<T>>,
+    RangeIndexBy extends PathsOfType<number, UnidentifiableModel<T>>,
+    FKs extends ForeignKeys<T, CollectionMap> = Extract<
+      SchemaForeignKeys<Schema, K>,
+      ForeignKeys<T, CollectionMap>
+    >
+  >(
+    collection: K,
+    val: Partial<CollectionItem<UnidentifiableModel<T>, CollectionMap, FKs>>,
+    id: string,
+    opts: {
+      indexBy?: (IndexBy | IndexBy[])[];
+      uniqueIndexBy?: (UniqueIndexBy | UniqueIndexBy[])[];
+      multiIndexBy?: (MultiIndexBy | MultiIndexBy[])[];
+      rangeIndexBy?: RangeIndexBy[];
+      foreignKeys?: FKs;
+      mode: 'upsert';
+    }
+  ): AsyncResult<CollectionItemOrReply<T>, StoreErrors>;
+  addItemToCollection<
+    K extends CollectionKey,
+    T extends CollectionMap[K],
+    IndexBy extends PathsOfType<string | number, UnidentifiableModel<T>>,
+    UniqueIndexBy extends PathsOfType<string | number, UnidentifiableModel<T>>,
+    MultiIndexBy extends PathsOfType<string | number, UnidentifiableModel<T>>,
+    RangeIndexBy extends PathsOfType<number, UnidentifiableModel<T>>,
+    FKs extends ForeignKeys<T, CollectionMap> = Extract<
+      SchemaForeignKeys<Schema, K>,
+      ForeignKeys<T, CollectionMap>
+    >
+  >(
+    collection: K,
+    val: CollectionItem<UnidentifiableModel<T>, CollectionMap, FKs>,
+    id?: string,
+    opts?: {
+      // A list of fields instead of a single one makes a compound index
+      indexBy?: (IndexBy | IndexBy[])[];
+      // Same as the indexBy but an Item colliding with another one on any of these fails
+      uniqueIndexBy?: (UniqueIndexBy | UniqueIndexBy[])[];
+      // Non unique indexes, where each value points to a Set of ids
+      multiIndexBy?: (MultiIndexBy | MultiIndexBy[])[];
+      // Numeric indexes, where the ids are scored by the field value for range queries
+      rangeIndexBy?: RangeIndexBy[];
+      foreignKeys?: FKs;
+      // What happens when an Item with the given id already exists:
+      //  "create" fails, "replace" (default) overwrites it and "upsert" merges the val into it
+      mode?: 'create' | 'replace' | 'upsert';
+    }
+  ): AsyncResult<CollectionItemOrReply<T>, StoreErrors>;
+  addItemToCollection<
+    K extends CollectionKey,
+    T extends CollectionMap[K],
+    IndexBy extends PathsOfType<string | number, UnidentifiableModel<T>>,
+    UniqueIndexBy extends PathsOfType<string | number, UnidentifiableModel<T>>,
+    MultiIndexBy extends PathsOfType<string | number, UnidentifiableModel<T>>,
+    RangeIndexBy extends PathsOfType<number, UnidentifiableModel<T>>,
+    FKs extends ForeignKeys<T, CollectionMap> = Extract<
+      SchemaForeignKeys<Schema, K>,
+      ForeignKeys<T, CollectionMap>
+    >
+  >(
+    collection: K,
+    val: Partial<CollectionItem<UnidentifiableModel<T>, CollectionMap, FKs>>,
+    id?: string,
+    opts: {
+      indexBy?: (IndexBy | IndexBy[])[];
+      uniqueIndexBy?: (UniqueIndexBy | UniqueIndexBy[])[];
+      multiIndexBy?: (MultiIndexBy | MultiIndexBy[])[];
+      rangeIndexBy?: RangeIndexBy[];
+      foreignKeys?: FKs;
+      mode?: 'create' | 'replace' | 'upsert';
+    } = {}
+  ): AsyncResult<CollectionItemOrReply<T>, StoreErrors> {
+    const nameSpacedCollection = this.toNamespacedCollection(collection);
+
+    return new AsyncResultWrapper<CollectionItemOrReply<T>, StoreErrors>(
+      async () => {
+        if (this.atomicity === 'scripts') {
+          return this.addItemWithScript<T>(collection, val, id, opts);
+        }
+
+        // Lock the resource so only one addition happens at a time
+        const lockResult = await this.acquireCollectionLock(
+          collection
+        ).resolve();
+
+        if (!lockResult.ok) {
+          return lockResult;
+        }
+
+        const unlock = lockResult.val;
+
+        try {
+          const preparedResult = await this.prepareItemAddition<T>(
+            collection,
+            val,
+            id,
+            opts
+          );
+
+          if (!preparedResult.ok) {
+            return preparedResult;
+          }
+
+          const { prev, item, index: nextIndex } = preparedResult.val;
+          const field = toCollectionId(nameSpacedCollection, item.id);
+
+          const transactions = this.withItemAdditionTransactions(
+            this.redis.multi(),
+            collection,
+            item,
+            nextIndex,
+            prev
+          );
+
+          const res = await this.redis.execMulti(
+            transactions
+              .hlen(nameSpacedCollection)
+              .hget(nameSpacedCollection, field)
+          );
+
+          if (res === null) {
+            return new Err('CollectionFieldInexistent');
+          }
+
+          // TODO: Add an optimization to only run another query if there are foreign keys
+          //  or if the foregin keys have been updated not if there are no modification to that
+          //  since this could be pretty expensive
+          // But on the other hand it could also be ok since data will be always fresh!
+          // if (nextItemWithMetadata.foreignKeys && ) {}
+          const parsedResItem = JSON.parse(res[res.length - 1] as string);
+
+          return await this.getItemInCollection(collection, parsedResItem.id)
+            .map((item) => ({
+              index: nextIndex,
+              length: Number(res[res.length - 2]) - 1, // remove the index key
+              item: item as T,
+            }))
+            .resolve();
+        } finally {
+          unlock();
+        }
+      }
+    ).map(
+      AsyncResult.passThrough((next) => {
+        this.logger.info('[Store] Item Added', {
+          collection,
+          id: next.item.id,
+          length: next.index,
+        });
+      })
+    );
+  }
+
+  // Runs the checks of an addition and gives back the item about to be written, along with
+  //  the existent one it replaces and its insertion index
+  private async prepareItemAddition<T>(
+    collection: CollectionKey,
+    val: {},
+    id: string | undefined,
+    opts: ItemAdditionOpts
+  ): Promise<
+    Result<
+      {
+        prev?: CollectionItemMetadata<unknown, CollectionMap>;
+        item: CollectionItemMetadata<T, CollectionMap>;
+        index: number;
+      },
+      StoreErrors
+    >
+  > {
+    const nameSpacedCollection = this.toNamespacedCollection(collection);
+    const {
+      idStrategy = 'sequential',
+      validator,
+      ...schemaOpts
+    } = this.getCollectionSchema(collection);
+    const mode = opts.mode || 'replace';
+
+    // Only an explicitly given id can point to an existent item, since the generated ones get checked
+    const prev = id
+      ? await this.redis
+          .hget(nameSpacedCollection, toCollectionId(nameSpacedCollection, id))
+          .then((raw) =>
+            raw !== null
+              ? (JSON.parse(raw) as CollectionItemMetadata<
+                  unknown,
+                  CollectionMap
+                >)
+              : undefined
+          )
+      : undefined;
+
+    if (prev && mode === 'create') {
+      this.logger.error(
+        '[Store] AddItemToCollection Item Already Exists Error',
+        {
+          forCollection: collection,
+          itemId: id,
+        }
+      );
+      return new Err('CollectionItemAlreadyExists');
+    }
+
+    const resolvedOpts = this.toResolvedAdditionOpts(
+      { ...schemaOpts, ...opts } as ItemAdditionOpts,
+      prev
+    );
+    const nextVal =
+      prev && mode === 'upsert' ? { ...(prev.val as {}), ...val } : val;
+
+    const validationIssues = validator ? validator.validate(nextVal) : [];
+
+    if (validationIssues.length > 0) {
+      this.logger.error('[Store] AddItemToCollection Validation Error', {
+        forCollection: collection,
+        itemId: id,
+        issues: validationIssues,
+      });
+      return new Err({
+        type: 'CollectionValidationFailure',
+        issues: validationIssues,
+      });
+    }
+
+    // The sequential ids are only known once the index gets incremented, after the checks
+    let presetId = id;
+
+    if (!presetId && idStrategy !== 'sequential') {
+      [presetId] = await this.generateCollectionItemIds(
+        collection,
+        idStrategy,
+        [val]
+      );
+
+      if (!presetId) {
+        this.logger.error('[Store] AddItemToCollection Id Collision Error', {
+          forCollection: collection,
+        });
+        return new Err('CollectionItemIdCollision');
+      }
+    }
+
+    const uniqueIndexViolations = await this.getUniqueIndexViolations(
+      (resolvedOpts.uniqueIndexBy || []).map((byField) => ({
+        indexedInCollection: toIndexedCollectionName(
+          nameSpacedCollection,
+          toIndexedFieldName(byField)
+        ),
+        value: getIndexedFieldValue(nextVal, toIndexedFieldName(byField)),
+      })),
+      presetId
+    );
+
+    if (uniqueIndexViolations.length > 0) {
+      this.logger.error(
+        '[Store] AddItemToCollection Unique Index Violation Error',
+        {
+          forCollection: collection,
+          itemId: presetId,
+          violations: uniqueIndexViolations,
+        }
+      );
+      return new Err('CollectionUniqueIndexViolation');
+    }
+
+    // Only the newly referenced foreign items get checked when replacing or upserting
+    const missingForeignItems = await this.getMissingForeignItems(
+      {
+        val: nextVal as CollectionItemMetadata<unknown, CollectionMap>['val'],
+        foreignKeys: resolvedOpts.foreignKeys as ForeignKeys<{}, CollectionMap>,
+      },
+      prev
+    );
+
+    if (missingForeignItems.length > 0) {
+      this.logger.error(
+        '[Store] AddItemToCollection Foreign Items Inexistent Error',
+        {
+          forCollection: collection,
+          itemId: presetId,
+          missingForeignItems,
+        }
+      );
+      return new Err({
+        type: 'CollectionForeignItemsInexistent',
+        missingForeignItems,
+      });
+    }
+
+    // A replaced item keeps its place in the insertion order, while the next index for the
+    //  others gets incremented atomically, so it stays correct even without the lock
+    const [prevIndex] = prev
+      ? await this.getInsertionIndexes(nameSpacedCollection, [prev.id])
+      : [];
+    const index =
+      prevIndex ??
+      (await this.getNextCollectionIndex(nameSpacedCollection, !presetId));
+
+    const item = this.toAddedItemMetadata<T>(
+      nameSpacedCollection,
+      presetId || String(index),
+      nextVal,
+      resolvedOpts,
+      prev
+    );
+
+    return new Ok({ prev, item, index });
+  }
+
+  private addItemWithScript<T>(
+    collection: CollectionKey,
+    val: {},
+    id: string | undefined,
+    opts: ItemAdditionOpts
+  ): Promise<Result<CollectionItemOrReply<T>, StoreErrors>> {
+    const nameSpacedCollection = this.toNamespacedCollection(collection);
+
+    return this.runGuardedWrite<CollectionItemOrReply<T>>(async () => {
+      const preparedResult = await this.prepareItemAddition<T>(
+        collection,
+        val,
+        id,
+        opts
+      );
+
+      if (!preparedResult.ok) {
+        return preparedResult;
+      }
+
+      const { prev, item, index } = preparedResult.val;
+
+      return new Ok({
+        guards: {
+          items: [
+            [
+              nameSpacedCollection,
+              toCollectionId(nameSpacedCollection, item.id),
+              prev ? prev.version || 0 : null,
+            ],
+          ],
+          uniqueValues: (item.uniqueIndexedIn || []).map(
+            (indexedInCollection): [string, string, string] => [
+              indexedInCollection,
+              String(item.indexedIn?.[indexedInCollection]),
+              item.id,
+            ]
+          ),
+          existentItems: this.toExistentItemsGuards(
+            item as CollectionItemMetadata<unknown, CollectionMap>,
+            prev
+          ),
+          references: [],
+          lengths: [],
+        },
+        withTransactions: (transactions) =>
+          this.withItemAdditionTransactions(
+            transactions,
+            collection,
+            item,
+            index,
+            prev
+          ),
+        // Run another query so all the foreign references get resolved
+        onWritten: async () => {
+          const length = await this.redis.hlen(nameSpacedCollection);
+
+          return this.getItemInCollection(collection, item.id)
+            .map((addedItem) => ({
+              index,
+              length: Number(length) - 1, // remove the index key
+              item: addedItem as unknown as T,
+            }))
+            .resolve();
+        },
+      });
+    });
+  }
+
+  /**
+   * Adds all the items under a single collection lock, with the checks, the writes and the
+   *  reads of the added items each batched into a few round trips. Every item gets its own
+   *  Result, so the failing ones don't prevent the rest from being added.
+   */
+  addItemsToCollection<
+    K extends CollectionKey,
+    T extends CollectionMap[K],
+    IndexBy extends PathsOfType<string | number, UnidentifiableModel<T>>,
+    UniqueIndexBy extends PathsOfType<string | number, UnidentifiableModel<T>>,
+    MultiIndexBy extends PathsOfType<string | number, UnidentifiableModel<T>>,
+    RangeIndexBy extends PathsOfType<number, UnidentifiableModel<T>>,
+    FKs extends ForeignKeys<T, CollectionMap> = Extract<
+      SchemaForeignKeys<Schema, K>,
+      ForeignKeys<T, CollectionMap>
+    >
+  >(
+    collection: K,
+    items: {
+      val: CollectionItem<UnidentifiableModel<T>, CollectionMap, FKs>;
+      id?: string;
+    }[],
+    opts: {
+      indexBy?: (IndexBy | IndexBy[])[];
+      uniqueIndexBy?: (UniqueIndexBy | UniqueIndexBy[])[];
+      multiIndexBy?: (MultiIndexBy | MultiIndexBy[])[];
+      rangeIndexBy?: RangeIndexBy[];
+      foreignKeys?: FKs;
+      // Same as for the addItemToCollection
+      mode?: 'create' | 'replace' | 'upsert';
+    } = {}
+  ): AsyncResult<Result<CollectionItemOrReply<T>, StoreErrors>[], StoreErrors> {
+    const nameSpacedCollection = this.toNamespacedCollection(collection);
+    const {
+      idStrategy = 'sequential',
+      validator,
+      ...schemaOpts
+    } = this.getCollectionSchema(collection);
+    const resolvedOpts = { ...schemaOpts, ...opts } as typeof opts;
+    const mode = opts.mode || 'replace';
+
+    return new AsyncResultWrapper<
+      Result<CollectionItemOrReply<T>, StoreErrors>[],
+      StoreErrors
+    >(async () => {
+      const errors: (StoreErrors | undefined)[] = items.map(() => undefined);
+      const getPending = () =>
+        items.map((_, i) => i).filter((i) => errors[i] === undefined);
+
+      // The items get read and checked again for each attempt
+      const prepareAddition = async (): Promise<
+        Result<
+          GuardedWrite<Result<CollectionItemOrReply<T>, StoreErrors>[]>,
+          StoreErrors
+        >
+      > => {
+        // An id given more than once fails all but the first, whatever the mode
+        items.forEach(({ id }, i) => {
+          errors[i] =
+            id && items.slice(0, i).some((prevItem) => prevItem.id === id)
+              ? 'CollectionItemIdDuplicate'
+              : undefined;
+        });
+
+        const givenIdPositions = getPending().filter((i) => items[i].id);
+        const storedItems = await this.getStoredItemsMetadata(
+          collection,
+          givenIdPositions.map((i) => items[i].id as string)
+        );
+        const prevs: (
+          | CollectionItemMetadata<unknown, CollectionMap>
+          | undefined
+        )[] = items.map(() => undefined);
+
+        givenIdPositions.forEach((i, j) => {
+          prevs[i] = storedItems[j];
+
+          if (prevs[i] && mode === 'create') {
+            errors[i] = 'CollectionItemAlreadyExists';
+          }
+        });
+
+        const presetIds = items.map(({ id }) => id);
+        const toGeneratePositions = getPending().filter(
+          (i) => !presetIds[i] && idStrategy !== 'sequential'
+        );
+
+        if (idStrategy !== 'sequential' && toGeneratePositions.length > 0) {
+          const generatedIds = await this.generateCollectionItemIds(
+            collection,
+            idStrategy,
+            toGeneratePositions.map((i) => items[i].val)
+          );
+
+          toGeneratePositions.forEach((i, j) => {
+            presetIds[i] = generatedIds[j];
+
+            if (!generatedIds[j]) {
+              errors[i] = 'CollectionItemIdCollision';
+            }
+          });
+        }
+
+        const itemOpts = prevs.map((prev) =>
+          this.toResolvedAdditionOpts(resolvedOpts as ItemAdditionOpts, prev)
+        );
+        const nextVals = items.map(({ val }, i) => {
+          const prev = prevs[i];
+
+          return (
+            prev && mode === 'upsert'
+              ? { ...(prev.val as {}), ...(val as {}) }
+              : val
+          ) as typeof val;
+        });
+
+        getPending().forEach((i) => {
+          const issues = validator ? validator.validate(nextVals[i]) : [];
+
+          if (issues.length > 0) {
+            errors[i] = { type: 'CollectionValidationFailure', issues };
+          }
+        });
+
+        const toForeignCheckPositions = getPending();
+        const missingForeignItemsPerItem =
+          await this.getMissingForeignItemsOfMany(
+            toForeignCheckPositions.map((i) => ({
+              next: {
+                val: nextVals[i] as CollectionItemMetadata<
+                  unknown,
+                  CollectionMap
+                >['val'],
+                foreignKeys: itemOpts[i].foreignKeys as ForeignKeys<
+                  {},
+                  CollectionMap
+                >,
+              },
+              prev: prevs[i],
+            }))
+          );
+
+        toForeignCheckPositions.forEach((i, j) => {
+          if (missingForeignItemsPerItem[j].length > 0) {
+            errors[i] = {
+              type: 'CollectionForeignItemsInexistent',
+              missingForeignItems: missingForeignItemsPerItem[j],
+            };
+          }
+        });
+
+        const toUniqueCheckPositions = getPending();
+        const uniqueIndexViolationsPerItem =
+          await this.getUniqueIndexViolationsOfMany(
+            toUniqueCheckPositions.map((i) => ({
+              records: (itemOpts[i].uniqueIndexBy || []).map((byField) => ({
+                indexedInCollection: toIndexedCollectionName(
+                  nameSpacedCollection,
+                  toIndexedFieldName(byField)
+                ),
+                value: getIndexedFieldValue(
+                  nextVals[i],
+                  toIndexedFieldName(byField)
+                ),
+              })),
+              id: presetIds[i],
+            }))
+          );
+
+        toUniqueCheckPositions.forEach((i, j) => {
+          if (uniqueIndexViolationsPerItem[j].length > 0) {
+            errors[i] = 'CollectionUniqueIndexViolation';
+          }
+        });
+
+        const failedPositions = items
+          .map((_, i) => i)
+          .filter((i) => errors[i] !== undefined);
+
+        if (failedPositions.length > 0) {
+          this.logger.error('[Store] AddItemsToCollection Items Failed', {
+            forCollection: collection,
+            failed: failedPositions.map((i) => ({
+              itemId: presetIds[i],
+              error: errors[i],
+            })),
+          });
+        }
+
+        const toAddPositions = getPending();
+        // The replaced items keep their places in the insertion order
+        const indexes = await this.getInsertionIndexes(
+          nameSpacedCollection,
+          toAddPositions.map((i) => prevs[i]?.id || '')
+        );
+        const toReservePositions = toAddPositions
+          .map((_, j) => j)
+          .filter((j) => indexes[j] === undefined);
+        const reservedIndexes = await this.reserveCollectionIndexes(
+          nameSpacedCollection,
+          toReservePositions.map((j) => !presetIds[toAddPositions[j]])
+        );
+
+        toReservePositions.forEach((j, k) => {
+          indexes[j] = reservedIndexes[k];
+        });
+        const resolvedIds = toAddPositions.map(
+          (i, j) => presetIds[i] || String(indexes[j])
+        );
+
+        const addedItems = toAddPositions.map((i, j) =>
+          this.toAddedItemMetadata(
+            nameSpacedCollection,
+            resolvedIds[j],
+            nextVals[i],
+            itemOpts[i],
+            prevs[i]
+          )
+        );
+
+        return new Ok({
+          // Same as for a single addition, for each of the items
+          guards: {
+            items: addedItems.map(
+              (item, j): [string, string, number | null] => {
+                const prev = prevs[toAddPositions[j]];
+
+                return [
+                  nameSpacedCollection,
+                  toCollectionId(nameSpacedCollection, item.id),
+                  prev ? prev.version || 0 : null,
+                ];
+              }
+            ),
+            uniqueValues: flatten(
+              addedItems.map((item) =>
+                (item.uniqueIndexedIn || []).map(
+                  (indexedInCollection): [string, string, string] => [
+                    indexedInCollection,
+                    String(item.indexedIn?.[indexedInCollection]),
+                    item.id,
+                  ]
+                )
+              ),
+              1
+            ) as [string, string, string][],
+            existentItems: flatten(
+              addedItems.map((item, j) =>
+                this.toExistentItemsGuards(
+                  item as CollectionItemMetadata<unknown, CollectionMap>,
+                  prevs[toAddPositions[j]]
+                )
+              ),
+              1
+            ) as [string, string][],
+            references: [],
+            lengths: [],
+          },
+          withTransactions: (transactions) =>
+            addedItems.reduce(
+              (prev, item, j) =>
+                this.withItemAdditionTransactions(
+                  prev,
+                  collection,
+                  item as CollectionItemMetadata<unknown, CollectionMap>,
+                  indexes[j] as number,
+                  prevs[toAddPositions[j]]
+                ),
+              transactions
+            ),
+          // Run another query so all the foreign references get resolved
+          onWritten: async () => {
+            const length = Number(await this.redis.hlen(nameSpacedCollection));
+
+            return this.getItemsInCollection<K, T>(collection, resolvedIds)
+              .map((addedItems) =>
+                items.map(
+                  (_, i): Result<CollectionItemOrReply<T>, StoreErrors> => {
+                    const error = errors[i];
+
+                    if (error !== undefined) {
+                      return new Err(error);
+                    }
+
+                    const j = toAddPositions.indexOf(i);
+
+                    return new Ok({
+                      index: indexes[j] as number,
+                      length: length - 1, // remove the index key
+                      item: addedItems[j],
+                    });
+                  }
+                )
+              )
+              .resolve();
+          },
+        });
+      };
+
+      if (this.atomicity === 'scripts') {
+        return this.runGuardedWrite(prepareAddition);
+      }
+
+      // Lock the resource once for the whole batch
+      const lockResult = await this.acquireCollectionLock(collection).resolve();
+
+      if (!lockResult.ok) {
+        return lockResult;
+      }
+
+      const unlock = lockResult.val;
+
+      try {
+        const writeResult = await prepareAddition();
+
+        if (!writeResult.ok) {
+          return writeResult;
+        }
+
+        const res = await this.redis.execMulti(
+          writeResult.val.withTransactions(this.redis.multi())
+        );
+
+        if (res === null) {
+          return new Err('CollectionAdditionFailure');
+        }
+
+        return await writeResult.val.onWritten();
+      } finally {
+        unlock();
+      }
+    }).map(
+      AsyncResult.passThrough((results) => {
+        this.logger.info('[Store] Items Added', {
+          collection,
+          added: results.filter((result) => result.ok).length,
+          failed: results.filter((result) => !result.ok).length,
+        });
+      })
+    );
+  }
+
+  // An upsert keeps the indexes and the foreign keys of the item it merges into, along with
+  //  the given ones
+  private toResolvedAdditionOpts(
+    opts: ItemAdditionOpts,
+    prev?: CollectionItemMetadata<unknown, CollectionMap>
+  ): ItemAdditionOpts {
+    if (!prev || opts.mode !== 'upsert') {
+      return opts;
+    }
+
+    const withPrevFields = <F extends PropertyKey | PropertyKey[]>(
+      fields: F[] = [],
+      prevFields: string[]
+    ) => [
+      ...fields,
+      ...prevFields.filter(
+        (prevField) =>
+          !fields.some((field) => toIndexedFieldName(field) === prevField)
+      ),
+    ];
+    const uniqueIndexedIn = prev.uniqueIndexedIn || [];
+
+    return {
+      ...opts,
+      indexBy: withPrevFields(
+        opts.indexBy,
+        Object.keys(prev.indexedIn || {})
+          .filter(
+            (indexedInCollection) =>
+              uniqueIndexedIn.indexOf(indexedInCollection) === -1
+          )
+          .map(getByFieldNameFromIndexedCollection)
+      ),
+      uniqueIndexBy: withPrevFields(
+        opts.uniqueIndexBy,
+        uniqueIndexedIn.map(getByFieldNameFromIndexedCollection)
+      ),
+      multiIndexBy: withPrevFields(
+        opts.multiIndexBy,
+        Object.keys(prev.multiIndexedIn || {}).map(
+          getByFieldNameFromMultiIndexedCollection
+        )
+      ),
+      rangeIndexBy: withPrevFields(
+        opts.rangeIndexBy,
+        Object.keys(prev.rangeIndexedIn || {}).map(
+          getByFieldNameFromRangeIndexedCollection
+        )
+      ),
+      foreignKeys: { ...prev.foreignKeys, ...opts.foreignKeys },
+    };
+  }
+
+  // The places in the insertion order the given items already have (if any)
+  private async getInsertionIndexes(
+    nameSpacedCollection: string,
+    ids: string[]
+  ): Promise<(number | undefined)[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const scores = await this.redis.execMulti<string | null>(
+      ids.reduce(
+        (prev, id) =>
+          prev.zscore(
+            toInsertionOrderedCollectionName(nameSpacedCollection),
+            id
+          ),
+        this.redis.multi()
+      )
+    );
+
+    return ids.map((_, i) =>
+      scores && scores[i] !== null && scores[i] !== undefined
+        ? Number(scores[i])
+        : undefined
+    );
+  }
+
+  private toAddedItemMetadata<T>(
+    nameSpacedCollection: string,
+    id: string,
+    val: {},
+    opts: {
+      indexBy?: (PropertyKey | PropertyKey[])[];
+      uniqueIndexBy?: (PropertyKey | PropertyKey[])[];
+      multiIndexBy?: (PropertyKey | PropertyKey[])[];
+      rangeIndexBy?: PropertyKey[];
+      foreignKeys?: {};
+    },
+    // The existent item being replaced, whose version keeps going up
+    prev?: CollectionItemMetadata<unknown, CollectionMap>
+  ): CollectionItemMetadata<T, CollectionMap> {
+    const indexBy = [...(opts.indexBy || []), ...(opts.uniqueIndexBy || [])];
+
+    return {
+      val: val as unknown as CollectionItemMetadata<T, CollectionMap>['val'],
+      id,
+      version: (prev?.version || 0) + 1,
+      // Store only if any foreign keys present
+      ...(opts.foreignKeys &&
+        Object.keys(opts.foreignKeys).length > 0 && {
+          foreignKeys: opts.foreignKeys as CollectionItemMetadata<
+            T,
+            CollectionMap
+          >['foreignKeys'],
+        }),
+      ...(indexBy.length > 0 && {
+        indexedIn: indexBy.reduce(
+          (prev, byField) => ({
+            ...prev,
+            [toIndexedCollectionName(
+              nameSpacedCollection,
+              toIndexedFieldName(byField)
+            )]: getIndexedFieldValue(val, toIndexedFieldName(byField)),
+          }),
+          {}
+        ),
+      }),
+      ...(opts.uniqueIndexBy &&
+        opts.uniqueIndexBy.length > 0 && {
+          uniqueIndexedIn: opts.uniqueIndexBy.map((byField) =>
+            toIndexedCollectionName(
+              nameSpacedCollection,
+              toIndexedFieldName(byField)
+            )
+          ),
+        }),
+      ...(opts.multiIndexBy &&
+        opts.multiIndexBy.length > 0 && {
+          multiIndexedIn: opts.multiIndexBy.reduce(
+            (prev, byField) => ({
+              ...prev,
+              [toMultiIndexedCollectionName(
+                nameSpacedCollection,
+                toIndexedFieldName(byField)
+              )]: getIndexedFieldValue(val, toIndexedFieldName(byField)),
+            }),
+            {}
+          ),
+        }),
+      ...(opts.rangeIndexBy &&
+        opts.rangeIndexBy.length > 0 && {
+          rangeIndexedIn: opts.rangeIndexBy.reduce(
+            (prev, byField) => ({
+              ...prev,
+              [toRangeIndexedCollectionName(
+                nameSpacedCollection,
+                String(byField)
+              )]: getValueAtPath(val, String(byField)),
+            }),
+            {}
+          ),
+        }),
+    };
+  }
+
+  // Writes the item along with all its index entries and references, as given in its metadata.
+  //  The ones of the existent item being replaced get cleaned up first
+  private withItemAdditionTransactions(
+    transactions: RedisMulti,
+    collection: CollectionKey,
+    item: CollectionItemMetadata<unknown, CollectionMap>,
+    index: number,
+    prev?: CollectionItemMetadata<unknown, CollectionMap>
+  ) {
+    const nameSpacedCollection = this.toNamespacedCollection(collection);
+
+    const transactionsWithItem = (
+      prev
+        ? this.withItemIndexesRemovalTransactions(
+            transactions,
+            collection,
+            prev
+          )
+        : transactions
+    )
+      .hset(nameSpacedCollection, [
+        toCollectionId(nameSpacedCollection, item.id),
+        JSON.stringify(item),
+      ])
+      // Keep the ids ordered by their insertion
+      .zadd(
+        toInsertionOrderedCollectionName(nameSpacedCollection),
+        index,
+        item.id
+      );
+
+    const transactionsWithIndexes = Object.keys(item.indexedIn || {}).reduce(
+      (prev, indexedInCollection) =>
+        prev.hset(
+          indexedInCollection,
+          `${item.indexedIn?.[indexedInCollection]}`,
+          item.id
+        ),
+      transactionsWithItem
+    );
+
+    const transactionsWithMultiIndexes = Object.keys(
+      item.multiIndexedIn || {}
+    ).reduce(
+      (prev, multiIndexedInCollection) =>
+        prev.sadd(
+          toMultiIndexedCollectionValueSet(
+            multiIndexedInCollection,
+            `${item.multiIndexedIn?.[multiIndexedInCollection]}`
+          ),
+          item.id
+        ),
+      transactionsWithIndexes
+    );
+
+    // Only the finite numbers can be scored, so the items without one are left out of the range
+    const transactionsWithRangeIndexes = Object.keys(
+      item.rangeIndexedIn || {}
+    ).reduce((prev, rangeIndexedInCollection) => {
+      const value = item.rangeIndexedIn?.[rangeIndexedInCollection];
+
+      return isRangeIndexableValue(value)
+        ? prev.zadd(rangeIndexedInCollection, value, item.id)
+        : prev;
+    }, transactionsWithMultiIndexes);
+
+    // Keep track of who references each foreign item
+    return this.getOutgoingReferences(collection, item).reduce(
+      (prev, reference) =>
+        prev.sadd(reference.referencedByCollection, reference.member),
+      transactionsWithRangeIndexes
+    );
+  }
+
+  getCollectionIndex<K extends CollectionKey>(
+    collection: K
+  ): AsyncResult<number, StoreErrors> {
+    const nameSpacedCollection = this.toNamespacedCollection(collection);
+
+    return new AsyncResultWrapper(async () => {
+      const v = await this.redis.hget(nameSpacedCollection, '_index');
+
+      if (v === null) {
+        // If the index to a collection doesnt exist it means it's not instantiated yet
+        return new Ok(0);
+      }
+
+      return new Ok(Number(v));
+    });
+  }
+
+  getCollectionLength<K extends CollectionKey>(
+    collection: K
+  ): AsyncResult<number, StoreErrors> {
+    const nameSpacedCollection = this.toNamespacedCollection(collection);
+
+    return new AsyncResultWrapper(async () => {
+      try {
+        const v = await this.redis.hlen(nameSpacedCollection);
+
+        return new Ok(Number(v));
+      } catch (error) {
+        this.logger.error('[Store] Get Collection Length', {
+          collection,
+          error,
+        });
+        return new Err('GenericRedisFailure');
+      }
+    });
+  }
+
+  private compactAllForeignKeys(
+    itemsMetadata: CollectionItemMetadata<unknown, {}>[]
+  ) {
+    const allFKsToFIdsMap = itemsMetadata.reduce((prev, itemMetadata) => {
+      const foreignKeysList = Object.keys(itemMetadata.foreignKeys || {});
+
+      const valuesMap = foreignKeysList.reduce((p, k) => {
+        const foreignKeyObject = (
+          itemMetadata.foreignKeys as ForeignKeys<{ [k: string]: any }, {}>
+        )[k];
+
+        return {
+          ...p,
+          [foreignKeyObject.collection]: {
+            ...p[foreignKeyObject.collection],
+            ...(foreignKeyObject.type === 'oneToMany'
+              ? (itemMetadata.val as any)[k]
+              : // A nulled "oneToOne" doesn't reference anything
+              itemMetadata.val[k] === null || itemMetadata.val[k] === undefined
+              ? {}
+              : { [itemMetadata.val[k]]: null }),
+          },
+        };
+      }, {} as { [fCollection: string]: { [fid: string]: null } });
+
+      return deepmerge(prev, valuesMap);
+    }, {} as { [fk: string]: { [fid: string]: null } });
+
+    const orderedAllFKs = Object.keys(allFKsToFIdsMap);
+
+    return orderedAllFKs.reduce(
+      (prev, next) => ({
+        ...prev,
         [next]: Object.keys(allFKsToFIdsMap[next]),
       }),
-      {} as { [k: string]: string[] }
+      {} as { [k: string]: string[] }
+    );
+  }
+
+  private async getMissingForeignItems(
+    next: ForeignItemsCheck<CollectionMap>['next'],
+    prev?: ForeignItemsCheck<CollectionMap>['prev']
+  ): Promise<CollectionForeignItemsInexistentError['missingForeignItems']> {
+    const [missingForeignItems] = await this.getMissingForeignItemsOfMany([
+      { next, prev },
+    ]);
+
+    return missingForeignItems;
+  }
+
+  // The foreign ids referenced by the next item but not by the prev one, by their collection
+  private getNewForeignIds(
+    next: ForeignItemsCheck<CollectionMap>['next'],
+    prev?: ForeignItemsCheck<CollectionMap>['prev']
+  ) {
+    const toFIdsByCollection = (
+      item: ForeignItemsCheck<CollectionMap>['next']
+    ) =>
+      this.compactAllForeignKeys([
+        {
+          id: '',
+          val: item.val,
+          foreignKeys: item.foreignKeys as ForeignKeys<{}, {}>,
+        },
+      ]);
+
+    const nextFIdsByCollection = toFIdsByCollection(next);
+    const prevFIdsByCollection = prev ? toFIdsByCollection(prev) : {};
+
+    return Object.keys(nextFIdsByCollection)
+      .map(
+        (foreignCollection) =>
+          [
+            foreignCollection,
+            nextFIdsByCollection[foreignCollection].filter(
+              (fid) =>
+                (prevFIdsByCollection[foreignCollection] || []).indexOf(fid) ===
+                -1
+            ),
+          ] as [string, string[]]
+      )
+      .filter(([, fids]) => fids.length > 0);
+  }
+
+  // Checks all the items in a single round trip
+  private async getMissingForeignItemsOfMany(
+    items: ForeignItemsCheck<CollectionMap>[]
+  ): Promise<CollectionForeignItemsInexistentError['missingForeignItems'][]> {
+    const fIdsToCheckZipPerItem = items.map(({ next, prev }) =>
+      this.getNewForeignIds(next, prev)
+    );
+
+    const fIdsToCheckZip = flatten(fIdsToCheckZipPerItem, 1) as [
+      string,
+      string[]
+    ][];
+
+    if (fIdsToCheckZip.length === 0) {
+      return items.map(() => []);
+    }
+
+    const redisReply = await this.redis.execMulti<(string | null)[]>(
+      fIdsToCheckZip.reduce(
+        (prev, [foreignCollection, fids]) =>
+          prev.hmget(
+            this.toNamespacedCollection(foreignCollection as CollectionKey),
+            ...fids.map((fid) => toCollectionId(foreignCollection, fid))
+          ),
+        this.redis.multi()
+      )
+    );
+
+    let offset = 0;
+
+    return fIdsToCheckZipPerItem.map((fIdsToCheckZipOfItem) => {
+      const missingForeignItems = fIdsToCheckZipOfItem
+        .map(([foreignCollection, fids], i) => ({
+          collection: foreignCollection,
+          ids: fids.filter(
+            (_, j) =>
+              redisReply[offset + i][j] === null ||
+              redisReply[offset + i][j] === undefined
+          ),
+        }))
+        .filter(({ ids }) => ids.length > 0);
+
+      offset += fIdsToCheckZipOfItem.length;
+
+      return missingForeignItems;
+    });
+  }
+
+  private resolveForeignItems(
+    itemsMetadata: CollectionItemMetadata<unknown, CollectionMap>[],
+    opts: ForeignItemsResolutionOptions<any> & {
+      // The keys of the items above each given one, including itself
+      paths?: string[][];
+      // The missing foreign items get left out instead of failing the whole batch
+      tolerateDanglingReferences?: boolean;
+    } = {}
+  ): AsyncResultWrapper<
+    CollectionItemMetadataReply<any, CollectionMap>[],
+    any
+  > {
+    return new AsyncResultWrapper(async () => {
+      const depth = opts.depth === undefined ? Infinity : opts.depth;
+      const paths = opts.paths || itemsMetadata.map(() => []);
+
+      const itemsToResolve = itemsMetadata.map(
+        (itemMetadata, i): CollectionItemMetadata<unknown, CollectionMap> =>
+          depth < 1
+            ? { ...itemMetadata, foreignKeys: undefined }
+            : this.toResolvableItemMetadata(
+                itemMetadata,
+                opts.include,
+                paths[i]
+              )
+      );
+
+      const allForeignKeysByCollection =
+        this.compactAllForeignKeys(itemsToResolve);
+      const foreignCollectionsList = Object.keys(allForeignKeysByCollection);
+
+      const foreignKeysWithValuesZip = foreignCollectionsList.reduce(
+        (prev, foreignCollection) => {
+          const fids = allForeignKeysByCollection[foreignCollection].map(
+            (fid) => toCollectionId(foreignCollection, fid)
+          );
+
+          return [...prev, [foreignCollection, fids]] as [string, string[]][];
+        },
+        [] as [string, string[]][]
+      );
+
+      const redisCollectionAndTransactionsGetteriZip =
+        foreignKeysWithValuesZip.reduce((prev, [foreignCollection, fids]) => {
+          if (fids.length === 0) {
+            return prev;
+          }
+
+          return [
+            ...prev,
+            {
+              collection: foreignCollection,
+              getTransaction: (redis: RedisMulti) =>
+                redis.hmget(
+                  this.toNamespacedCollection(foreignCollection as any),
+                  ...fids
+                ),
+            },
+          ];
+        }, [] as { collection: string; getTransaction: (r: RedisMulti) => RedisMulti }[]);
+
+      // Return Early if no Foreign Keys or no Foreign Values
+      if (redisCollectionAndTransactionsGetteriZip.length === 0) {
+        return new Ok(
+          itemsMetadata.map((md) => ({
+            ...md,
+            foreignItems: {},
+          }))
+        );
+      }
+
+      const redisTransactions = redisCollectionAndTransactionsGetteriZip.reduce(
+        (prev, { getTransaction }) => getTransaction(prev),
+        this.redis.multi()
+      );
+
+      const redisReply = await this.redis.execMulti(redisTransactions);
+
+      const allResults = redisReply.map(
+        (resultArrayPerForeignCollection, collectionIndex) => {
+          const results = (resultArrayPerForeignCollection as string[]).map(
+            (v) => {
+              if (v === null || v === undefined) {
+                return opts.tolerateDanglingReferences
+                  ? new AsyncOk(undefined)
+                  : new AsyncErr('CollectionFieldInexistent');
+              }
+
+              return new AsyncOk({
+                collection:
+                  redisCollectionAndTransactionsGetteriZip[collectionIndex]
+                    .collection,
+                itemMetadata: JSON.parse(v),
+              });
+            }
+          );
+
+          return AsyncResult.all(...results);
+        }
+      );
+
+      return await AsyncResult.all(...allResults)
+        .flatMap((resultsNestedArrayPerForeignCollection) => {
+          const fetchedByFCollectionAndFId = (
+            flatten(resultsNestedArrayPerForeignCollection) as (
+              | {
+                  collection: string;
+                  itemMetadata: CollectionItemMetadata<unknown, CollectionMap>;
+                }
+              | undefined
+            )[]
+          ).reduce(
+            (prev, next) => {
+              if (!next) {
+                return prev;
+              }
+
+              return {
+                ...prev,
+                [next.collection]: {
+                  ...prev[next.collection],
+                  [next.itemMetadata.id]: next.itemMetadata,
+                },
+              };
+            },
+            {} as {
+              [fCollection: string]: {
+                [fid: string]: CollectionItemMetadata<unknown, CollectionMap>;
+              };
+            }
+          );
+
+          // Each item gets its own copy of the foreign items resolved further,
+          //  so the cycles are detected along its path and not across siblings
+          const foreignItemsToResolve = flatten(
+            itemsToResolve.map((itemToResolve, i) => {
+              const fidsByCollection = this.compactAllForeignKeys([
+                itemToResolve,
+              ]);
+
+              return Object.keys(fidsByCollection).map((fCollection) =>
+                fidsByCollection[fCollection]
+                  .filter(
+                    (fid) =>
+                      !!(fetchedByFCollectionAndFId[fCollection] || {})[fid]
+                  )
+                  .map((fid) => ({
+                    itemIndex: i,
+                    collection: fCollection,
+                    itemMetadata: fetchedByFCollectionAndFId[fCollection][fid],
+                    path: [...paths[i], toCollectionItemKey(fCollection, fid)],
+                  }))
+              );
+            })
+          ) as {
+            itemIndex: number;
+            collection: string;
+            itemMetadata: CollectionItemMetadata<unknown, CollectionMap>;
+            path: string[];
+          }[];
+
+          return this.resolveForeignItems(
+            foreignItemsToResolve.map((f) => f.itemMetadata),
+            {
+              depth: depth - 1,
+              paths: foreignItemsToResolve.map((f) => f.path),
+              tolerateDanglingReferences: opts.tolerateDanglingReferences,
+            }
+          ).map((resolvedResults) =>
+            resolvedResults.map((resolvedMetadata, i) => ({
+              ...foreignItemsToResolve[i],
+              itemMetadata: resolvedMetadata,
+            }))
+          );
+        })
+        .map((resolvedForeignItems) => {
+          const foreignItemsMetadataByItemAndFCollectionAndFId =
+            resolvedForeignItems.reduce(
+              (prev, next) => ({
+                ...prev,
+                [next.itemIndex]: {
+                  ...prev[next.itemIndex],
+                  [next.collection]: {
+                    ...(prev[next.itemIndex] || {})[next.collection],
+                    [next.itemMetadata.id]: next.itemMetadata,
+                  },
+                },
+              }),
+              {} as {
+                [itemIndex: number]: {
+                  [fCollection: string]: {
+                    [fid: string]: CollectionItemMetadataReply<{}, {}>;
+                  };
+                };
+              }
+            );
+
+          return itemsToResolve.map((itemToResolve, i) => {
+            const foreignItemsMetadataByFCollectionAndFId =
+              foreignItemsMetadataByItemAndFCollectionAndFId[i] || {};
+            const itemForeignKeys = Object.keys(
+              itemToResolve.foreignKeys || {}
+            );
+
+            const foreignItems = itemForeignKeys.reduce((prev, nextFk) => {
+              const foreignKeyObj = (
+                itemToResolve.foreignKeys as ForeignKeys<
+                  { [k: string]: any },
+                  {}
+                >
+              )[nextFk];
+
+              if (foreignKeyObj.type === 'oneToMany') {
+                const fids = Object.keys((itemToResolve.val as any)[nextFk]);
+
+                // The missing ones are left as null
+                const foreignItemsByIdInCollection = fids.reduce((p, fid) => {
+                  return {
+                    ...p,
+                    [fid]:
+                      (foreignItemsMetadataByFCollectionAndFId[
+                        foreignKeyObj.collection
+                      ] || {})[fid] || null,
+                  };
+                }, {} as CollectionItemMetadataReply<any, any>['foreignItems']);
+
+                return {
+                  ...prev,
+                  oneToMany: {
+                    ...prev.oneToMany,
+                    [nextFk]: foreignItemsByIdInCollection,
+                  },
+                };
+              }
+
+              const fid = (itemToResolve.val as any)[nextFk];
+
+              return {
+                ...prev,
+                oneToOne: {
+                  ...prev.oneToOne,
+                  [nextFk]:
+                    (foreignItemsMetadataByFCollectionAndFId[
+                      foreignKeyObj.collection
+                    ] || {})[fid] || null,
+                },
+              };
+            }, {} as CollectionItemMetadataReply<{}, {}>['foreignItems']);
+
+            return {
+              ...itemsMetadata[i],
+              foreignItems,
+            } as unknown as CollectionItemMetadataReply<{}, {}>;
+          });
+        })
+        .resolve();
+    });
+  }
+
+  // Narrows the item down to only the foreign keys and ids that need resolving:
+  //  the included ones which don't point back to an item above it in the path
+  private toResolvableItemMetadata(
+    itemMetadata: CollectionItemMetadata<unknown, CollectionMap>,
+    include: string[] | undefined,
+    path: string[]
+  ): CollectionItemMetadata<unknown, CollectionMap> {
+    const foreignKeys = (itemMetadata.foreignKeys || {}) as ForeignKeys<
+      { [k: string]: any },
+      CollectionMap
+    >;
+    const val = itemMetadata.val as { [k: string]: any };
+
+    return Object.keys(foreignKeys)
+      .filter((fk) => !include || include.indexOf(fk) > -1)
+      .reduce(
+        (prev, fk): CollectionItemMetadata<unknown, CollectionMap> => {
+          const foreignKeyObj = foreignKeys[fk];
+          const isInPath = (fid: string) =>
+            path.indexOf(
+              toCollectionItemKey(String(foreignKeyObj.collection), fid)
+            ) > -1;
+
+          if (foreignKeyObj.type === 'oneToMany') {
+            const fids = Object.keys(val[fk] || {}).filter(
+              (fid) => !isInPath(fid)
+            );
+
+            return {
+              ...prev,
+              val: {
+                ...prev.val,
+                [fk]: fids.reduce((p, fid) => ({ ...p, [fid]: null }), {}),
+              } as CollectionItem<{}>,
+              foreignKeys: { ...prev.foreignKeys, [fk]: foreignKeyObj },
+            };
+          }
+
+          // A nulled "oneToOne" doesn't reference anything
+          if (
+            val[fk] === null ||
+            val[fk] === undefined ||
+            isInPath(String(val[fk]))
+          ) {
+            return prev;
+          }
+
+          return {
+            ...prev,
+            val: { ...prev.val, [fk]: val[fk] } as CollectionItem<{}>,
+            foreignKeys: { ...prev.foreignKeys, [fk]: foreignKeyObj },
+          };
+        },
+        {
+          ...itemMetadata,
+          val: {},
+          foreignKeys: {},
+        } as CollectionItemMetadata<unknown, CollectionMap>
+      );
+  }
+
+  private getItemsInCollectionWithMetadata<
+    K extends CollectionKey,
+    T extends CollectionMap[K]
+  >(
+    collection: K,
+    ids: string[],
+    opts: ForeignItemsResolutionOptions<T, SchemaForeignKeys<Schema, K>> & {
+      tolerateDanglingReferences?: boolean;
+    } = {}
+  ): AsyncResult<CollectionItemMetadataReply<T, CollectionMap>[], StoreErrors> {
+    return this.getShallowItemsInCollectionWithMetadata(collection, ids)
+      .flatMap(
+        (itemsMetadata) =>
+          this.resolveForeignItems(itemsMetadata, {
+            ...opts,
+            paths: itemsMetadata.map((m) => [
+              toCollectionItemKey(collection, m.id),
+            ]),
+          }) as AsyncResult<
+            CollectionItemMetadataReply<T, CollectionMap>[],
+            StoreErrors
+          >
+      )
+      .mapErr(
+        AsyncResult.passThrough((error) => {
+          this.logger.error(`[Store] getItemsInCollectionWithMetadata`, {
+            collection,
+            error,
+          });
+        })
+      );
+  }
+
+  private getShallowItemsInCollectionWithMetadata<
+    K extends CollectionKey,
+    T extends CollectionMap[K]
+  >(
+    collection: K,
+    ids: string[]
+  ): AsyncResult<CollectionItemMetadata<T, CollectionMap>[], StoreErrors> {
+    if (ids.length === 0) {
+      return new AsyncOk([]);
+    }
+
+    const nameSpacedCollection = this.toNamespacedCollection(collection);
+
+    return new AsyncResultWrapper(async () => {
+      const redisReplies = await this.redis.hmget(
+        nameSpacedCollection,
+        ...ids.map((id) => toCollectionId(nameSpacedCollection, id))
+      );
+
+      const itemsMetadataResults = redisReplies.map((reply) => {
+        if (reply === null || reply === undefined) {
+          return new AsyncErr('CollectionFieldInexistent');
+        }
+
+        const metadata = JSON.parse(reply) as CollectionItemMetadata<
+          T,
+          CollectionMap
+        >;
+
+        return new AsyncOk(metadata);
+      });
+
+      return (await AsyncResult.all(
+        ...itemsMetadataResults
+      ).resolve()) as Result<
+        CollectionItemMetadata<T, CollectionMap>[],
+        StoreErrors
+      >;
+    }).mapErr(
+      AsyncResult.passThrough((error) => {
+        this.logger.error(
+          '[Store] getShallowItemsInCollectionWithMetadata Collection:',
+          {
+            collection,
+            ids,
+            error,
+          }
+        );
+      })
+    );
+  }
+
+  getItemInCollection<K extends CollectionKey, T extends CollectionMap[K]>(
+    collection: K,
+    id: string,
+    opts: TolerantForeignItemsResolutionOptions<T, SchemaForeignKeys<Schema, K>>
+  ): AsyncResult<CollectionItemWithDanglingReferences<T>, StoreErrors>;
+  getItemInCollection<K extends CollectionKey, T extends CollectionMap[K]>(
+    collection: K,
+    id: string,
+    opts?: ForeignItemsResolutionOptions<T, SchemaForeignKeys<Schema, K>>
+  ): AsyncResult<T, StoreErrors>;
+  getItemInCollection<K extends CollectionKey, T extends CollectionMap[K]>(
+    collection: K,
+    id: string,
+    opts: ForeignItemsResolutionOptions<T, SchemaForeignKeys<Schema, K>> & {
+      tolerateDanglingReferences?: boolean;
+    } = {}
+  ): AsyncResult<T | CollectionItemWithDanglingReferences<T>, StoreErrors> {
+    return this.getItemsInCollectionWithMetadata<K, T>(
+      collection,
+      [id],
+      opts
+    ).map(([m]) => {
+      const item = this.metadataReplyToCollectionItem(m);
+
+      if (!opts.tolerateDanglingReferences) {
+        return item;
+      }
+
+      return {
+        item,
+        danglingReferences: this.getDanglingReferences(collection, [m]),
+      };
+    });
+  }
+
+  // Looks up a compound index by the values of all its fields
+  getItemInCollectionBy<
+    K extends CollectionKey,
+    T extends CollectionMap[K],
+    F extends PathsOfType<string | number, UnidentifiableModel<T>>
+  >(
+    collection: K,
+    byKeys: { [P in F]: string | number }
+  ): AsyncResult<T, StoreErrors>;
+  getItemInCollectionBy<
+    K extends CollectionKey,
+    T extends CollectionMap[K],
+    F extends PathsOfType<string | number, UnidentifiableModel<T>>
+  >(
+    collection: K,
+    byKey: F,
+    keyVal: string | number
+  ): AsyncResult<T, StoreErrors>;
+  getItemInCollectionBy<
+    K extends CollectionKey,
+    T extends CollectionMap[K],
+    F extends PathsOfType<string | number, UnidentifiableModel<T>>
+  >(
+    collection: K,
+    byKeyOrKeys: F | { [P in F]: string | number },
+    keyVal?: string | number
+  ): AsyncResult<T, StoreErrors> {
+    const nameSpacedCollection = this.toNamespacedCollection(collection);
+    const { byFieldName, value } = this.toIndexLookup(byKeyOrKeys, keyVal);
+
+    return new AsyncResultWrapper(async () => {
+      const referencedId = await this.redis.hget(
+        toIndexedCollectionName(nameSpacedCollection, byFieldName),
+        value
+      );
+
+      if (referencedId === null) {
+        return new Err('CollectionFieldInexistent');
+      }
+
+      return (await this.getItemInCollection(
+        collection,
+        referencedId
+      ).resolve()) as Result<T, StoreErrors>;
+    });
+  }
+
+  // Turns a single field lookup or a compound one (i.e. { createdBy, type }) into
+  //  the indexed field name and value
+  private toIndexLookup(
+    byKeyOrKeys: string | number | symbol | object,
+    keyVal?: string | number
+  ) {
+    if (typeof byKeyOrKeys === 'object') {
+      const byFieldName = toIndexedFieldName(Object.keys(byKeyOrKeys));
+
+      return {
+        byFieldName,
+        value: String(
+          getIndexedFieldValue(
+            byKeyOrKeys,
+            byFieldName,
+            (values, field) => (values as UnknownRecord)[field]
+          )
+        ),
+      };
+    }
+
+    return { byFieldName: String(byKeyOrKeys), value: String(keyVal) };
+  }
+
+  private getIndexedItemReference<
+    K extends CollectionKey,
+    T extends CollectionMap[K],
+    F extends PathsOfType<string | number, UnidentifiableModel<T>>
+  >(
+    collection: K,
+    byKey: F,
+    keyVal: string | number
+  ): AsyncResult<string, void> {
+    const nameSpacedCollection = this.toNamespacedCollection(collection);
+
+    return new AsyncResultWrapper(async () => {
+      const referencedId = await this.redis.hget(
+        toIndexedCollectionName(nameSpacedCollection, String(byKey)),
+        String(keyVal)
+      );
+
+      if (referencedId === null) {
+        return Err.EMPTY;
+      }
+
+      return new Ok(referencedId);
+    });
+  }
+
+  getItemsInCollection<K extends CollectionKey, T extends CollectionMap[K]>(
+    collection: K,
+    ids: string[],
+    opts: TolerantForeignItemsResolutionOptions<T, SchemaForeignKeys<Schema, K>>
+  ): AsyncResult<CollectionItemsWithDanglingReferences<T>, StoreErrors>;
+  getItemsInCollection<K extends CollectionKey, T extends CollectionMap[K]>(
+    collection: K,
+    ids: string[],
+    opts?: ForeignItemsResolutionOptions<T, SchemaForeignKeys<Schema, K>>
+  ): AsyncResult<T[], StoreErrors>;
+  getItemsInCollection<K extends CollectionKey, T extends CollectionMap[K]>(
+    collection: K,
+    ids: string[],
+    opts: ForeignItemsResolutionOptions<T, SchemaForeignKeys<Schema, K>> & {
+      tolerateDanglingReferences?: boolean;
+    } = {}
+  ): AsyncResult<T[] | CollectionItemsWithDanglingReferences<T>, StoreErrors> {
+    return this.getItemsInCollectionWithMetadata<K, T>(
+      collection,
+      ids,
+      opts
+    ).map((metadatas) => this.toItemsReply(collection, metadatas, opts));
+  }
+
+  // The items as stored, with the foreign keys left as ids, along with their metadata
+  getRawItemInCollection<K extends CollectionKey, T extends CollectionMap[K]>(
+    collection: K,
+    id: string
+  ): AsyncResult<CollectionItemMetadata<T, CollectionMap>, StoreErrors> {
+    return this.getShallowItemsInCollectionWithMetadata<K, T>(collection, [
+      id,
+    ]).map(([m]) => m);
+  }
+
+  getRawItemsInCollection<K extends CollectionKey, T extends CollectionMap[K]>(
+    collection: K,
+    ids: string[]
+  ): AsyncResult<CollectionItemMetadata<T, CollectionMap>[], StoreErrors> {
+    return this.getShallowItemsInCollectionWithMetadata<K, T>(collection, ids);
+  }
+
+  private metadataReplyToCollectionItem<T>(
+    metadata: CollectionItemMetadataReply<T, CollectionMap>
+  ): T {
+    return {
+      ...metadata.val,
+      ...Object.keys(metadata.foreignItems.oneToMany || {}).reduce(
+        (prev, fk) => {
+          const foreignItemsById = (metadata.foreignItems.oneToMany ||
+            ({} as any))[fk];
+
+          return {
+            ...prev,
+            [fk]: Object.keys((metadata.val as any)[fk]).reduce((p, fid) => {
+              // The ones left unresolved stay as ids and the missing ones get dropped
+              if (!(fid in foreignItemsById)) {
+                return { ...p, [fid]: null };
+              }
+
+              if (foreignItemsById[fid] === null) {
+                return p;
+              }
+
+              return {
+                ...p,
+                [fid]: this.metadataReplyToCollectionItem(
+                  foreignItemsById[fid]
+                ),
+              };
+            }, {} as { [fid: string]: unknown }),
+          };
+        },
+        {} as CollectionItemMetadataReply<T, CollectionMap>['foreignItems']
+      ),
+      ...Object.keys(metadata.foreignItems.oneToOne || {}).reduce(
+        (prev, fk) => {
+          const foreignItem = (metadata.foreignItems.oneToOne || ({} as any))[
+            fk
+          ];
+
+          return {
+            ...prev,
+            [fk]:
+              foreignItem === null
+                ? null
+                : this.metadataReplyToCollectionItem(foreignItem),
+          };
+        },
+        {} as CollectionItemMetadataReply<T, CollectionMap>['foreignItems']
+      ),
+      id: metadata.id,
+    } as unknown as T;
+  }
+
+  getAllItemsInCollection<K extends CollectionKey, T extends CollectionMap[K]>(
+    collection: K,
+    opts: TolerantForeignItemsResolutionOptions<T, SchemaForeignKeys<Schema, K>>
+  ): AsyncResult<CollectionItemsWithDanglingReferences<T>, StoreErrors>;
+  getAllItemsInCollection<K extends CollectionKey, T extends CollectionMap[K]>(
+    collection: K,
+    opts?: ForeignItemsResolutionOptions<T, SchemaForeignKeys<Schema, K>>
+  ): AsyncResult<T[], StoreErrors>;
+  getAllItemsInCollection<K extends CollectionKey, T extends CollectionMap[K]>(
+    collection: K,
+    opts: ForeignItemsResolutionOptions<T, SchemaForeignKeys<Schema, K>> & {
+      tolerateDanglingReferences?: boolean;
+    } = {}
+  ): AsyncResult<T[] | CollectionItemsWithDanglingReferences<T>, StoreErrors> {
+    const nameSpacedCollection = this.toNamespacedCollection(collection);
+
+    return new AsyncResultWrapper(async () => {
+      const resultHash = await this.redis.hgetall(nameSpacedCollection);
+
+      if (!resultHash) {
+        return new Ok(this.toItemsReply<T>(collection, [], opts));
+      }
+
+      const itemsMetadata = Object.keys(resultHash)
+        .filter((k) => k[0] !== '_')
+        .map(
+          (collectionId) =>
+            JSON.parse(resultHash[collectionId]) as CollectionItemMetadata<
+              T,
+              CollectionMap
+            >
+        );
+
+      return (await this.resolveForeignItems(itemsMetadata, {
+        ...opts,
+        paths: itemsMetadata.map((m) => [
+          toCollectionItemKey(collection, m.id),
+        ]),
+      })
+        .map((allMetadatas) =>
+          this.toItemsReply(
+            collection,
+            allMetadatas as CollectionItemMetadataReply<T, CollectionMap>[],
+            opts
+          )
+        )
+        .resolve()) as Result<
+        T[] | CollectionItemsWithDanglingReferences<T>,
+        StoreErrors
+      >;
+    });
+  }
+
+  getItemsInCollectionInRange<
+    K extends CollectionKey,
+    T extends CollectionMap[K],
+    F extends PathsOfType<number, UnidentifiableModel<T>>
+  >(
+    collection: K,
+    byKey: F,
+    {
+      min = -Infinity,
+      max = Infinity,
+      offset = 0,
+      limit,
+      order = 'asc',
+      ...opts
+    }: CollectionRangeOptions<T, SchemaForeignKeys<Schema, K>> = {}
+  ): AsyncResult<T[], StoreErrors> {
+    const rangeIndexedCollection = toRangeIndexedCollectionName(
+      this.toNamespacedCollection(collection),
+      String(byKey)
+    );
+
+    return new AsyncResultWrapper<string[], StoreErrors>(async () => {
+      try {
+        // A negative count means all of them from the offset on
+        const limitOffsetCount: ['LIMIT', number, number] = [
+          'LIMIT',
+          offset,
+          limit === undefined ? -1 : limit,
+        ];
+
+        return new Ok(
+          await (order === 'desc'
+            ? this.redis.zrevrangebyscore(
+                rangeIndexedCollection,
+                max,
+                min,
+                limitOffsetCount
+              )
+            : this.redis.zrangebyscore(
+                rangeIndexedCollection,
+                min,
+                max,
+                limitOffsetCount
+              ))
+        );
+      } catch (e) {
+        this.logger.error('[Store] GetItemsInCollectionInRange Error', {
+          collection,
+          byKey,
+          error: e,
+        });
+
+        return new Err('GenericRedisFailure');
+      }
+    }).flatMap((ids) => this.getItemsInCollection<K, T>(collection, ids, opts));
+  }
+
+  // Returns the items in the order they were added, i.e. the 20 newest ones with
+  //  { order: 'newestFirst', limit: 20 }
+  getOrderedItemsInCollection<
+    K extends CollectionKey,
+    T extends CollectionMap[K]
+  >(
+    collection: K,
+    {
+      order = 'oldestFirst',
+      offset = 0,
+      limit,
+      ...opts
+    }: CollectionOrderedRangeOptions<T, SchemaForeignKeys<Schema, K>> = {}
+  ): AsyncResult<T[], StoreErrors> {
+    const nameSpacedCollection = this.toNamespacedCollection(collection);
+    const insertionOrderedCollection =
+      toInsertionOrderedCollectionName(nameSpacedCollection);
+    const stop = limit === undefined ? -1 : offset + limit - 1;
+
+    return new AsyncResultWrapper<string[], StoreErrors>(async () => {
+      try {
+        return new Ok(
+          await (order === 'newestFirst'
+            ? this.redis.zrevrange(insertionOrderedCollection, offset, stop)
+            : this.redis.zrange(insertionOrderedCollection, offset, stop))
+        );
+      } catch (e) {
+        this.logger.error('[Store] GetOrderedItemsInCollection Error', {
+          collection,
+          error: e,
+        });
+
+        return new Err('GenericRedisFailure');
+      }
+    }).flatMap((ids) => this.getItemsInCollection<K, T>(collection, ids, opts));
+  }
+
+  // Returns a page of items along with the cursor to the next one, so big collections
+  //  don't have to be loaded (and resolved) all at once
+  scanCollection<K extends CollectionKey, T extends CollectionMap[K]>(
+    collection: K,
+    {
+      cursor = '0',
+      count,
+      ...opts
+    }: CollectionScanOptions<T, SchemaForeignKeys<Schema, K>> = {}
+  ): AsyncResult<CollectionScanReply<T>, StoreErrors> {
+    const nameSpacedCollection = this.toNamespacedCollection(collection);
+
+    return new AsyncResultWrapper<
+      {
+        nextCursor: string;
+        itemsMetadata: CollectionItemMetadata<T, CollectionMap>[];
+      },
+      StoreErrors
+    >(async () => {
+      try {
+        const [nextCursor, fieldsAndValues] = (await (count === undefined
+          ? this.redis.hscan(nameSpacedCollection, Number(cursor))
+          : this.redis.hscan(nameSpacedCollection, Number(cursor), [
+              'COUNT',
+              count,
+            ]))) as [string, string[]];
+
+        // The reply comes as a flat list of alternating fields and values
+        const itemsMetadata = fieldsAndValues
+          .filter((_, i) => i % 2 === 1 && fieldsAndValues[i - 1][0] !== '_')
+          .map(
+            (value) =>
+              JSON.parse(value) as CollectionItemMetadata<T, CollectionMap>
+          );
+
+        return new Ok({ nextCursor: String(nextCursor), itemsMetadata });
+      } catch (e) {
+        this.logger.error('[Store] ScanCollection Error', {
+          collection,
+          cursor,
+          error: e,
+        });
+
+        return new Err('GenericRedisFailure');
+      }
+    }).flatMap(({ nextCursor, itemsMetadata }) =>
+      this.resolveForeignItems(itemsMetadata, {
+        ...opts,
+        paths: itemsMetadata.map((m) => [
+          toCollectionItemKey(collection, m.id),
+        ]),
+      }).map((allMetadatas) => ({
+        items: allMetadatas.map((m) =>
+          this.metadataReplyToCollectionItem(m)
+        ) as T[],
+        // Redis signals the end of the scan with a 0 cursor
+        nextCursor: nextCursor === '0' ? null : nextCursor,
+      }))
+    );
+  }
+
+  // Streams the whole collection page by page, stopping at the first failed one
+  async *listItemsInCollection<
+    K extends CollectionKey,
+    T extends CollectionMap[K]
+  >(
+    collection: K,
+    opts: Omit<
+      CollectionScanOptions<T, SchemaForeignKeys<Schema, K>>,
+      'cursor'
+    > = {}
+  ): AsyncIterableIterator<Result<T[], StoreErrors>> {
+    let cursor: string | null = '0';
+
+    while (cursor !== null) {
+      const page: Result<
+        CollectionScanReply<T>,
+        StoreErrors
+      > = await this.scanCollection<K, T>(collection, {
+        ...opts,
+        cursor,
+      }).resolve();
+
+      yield page.map((p) => p.items);
+
+      cursor = page.ok ? page.val.nextCursor : null;
+    }
+  }
+
+  private toItemsReply<T>(
+    collection: CollectionKey,
+    metadatas: CollectionItemMetadataReply<T, CollectionMap>[],
+    opts: { tolerateDanglingReferences?: boolean }
+  ): T[] | CollectionItemsWithDanglingReferences<T> {
+    const items = metadatas.map((m) => this.metadataReplyToCollectionItem(m));
+
+    if (!opts.tolerateDanglingReferences) {
+      return items;
+    }
+
+    return {
+      items,
+      danglingReferences: this.getDanglingReferences(collection, metadatas),
+    };
+  }
+
+  // Walks down the resolved foreign items and collects the ones left missing
+  private getDanglingReferences(
+    collection: keyof CollectionMap,
+    metadatas: CollectionItemMetadataReply<any, CollectionMap>[]
+  ): CollectionDanglingReference[] {
+    const danglingReferences = flatten(
+      metadatas.map((metadata) => {
+        const foreignKeys = (metadata.foreignKeys || {}) as ForeignKeys<
+          { [k: string]: any },
+          CollectionMap
+        >;
+        const foreignItems = metadata.foreignItems as {
+          oneToOne?: {
+            [fk: string]: CollectionItemMetadataReply<
+              any,
+              CollectionMap
+            > | null;
+          };
+          oneToMany?: {
+            [fk: string]: {
+              [fid: string]: CollectionItemMetadataReply<
+                any,
+                CollectionMap
+              > | null;
+            };
+          };
+        };
+
+        return Object.keys(foreignKeys).map((field) => {
+          const foreignCollection = foreignKeys[field].collection;
+          const oneToOneForeignItems = foreignItems.oneToOne || {};
+          const foreignItemsById =
+            foreignKeys[field].type === 'oneToMany'
+              ? (foreignItems.oneToMany || {})[field] || {}
+              : field in oneToOneForeignItems
+              ? { [metadata.val[field]]: oneToOneForeignItems[field] }
+              : {};
+
+          return Object.keys(foreignItemsById).map((fid) => {
+            const foreignItem = foreignItemsById[fid];
+
+            if (foreignItem === null) {
+              return {
+                collection: String(collection),
+                field,
+                id: metadata.id,
+                foreignCollection: String(foreignCollection),
+                foreignId: fid,
+              };
+            }
+
+            return this.getDanglingReferences(foreignCollection, [foreignItem]);
+          });
+        });
+      })
+    ) as CollectionDanglingReference[];
+
+    // The same foreign item can get resolved in multiple places
+    const danglingReferenceKeys = danglingReferences.map((ref) =>
+      JSON.stringify([ref.collection, ref.field, ref.id, ref.foreignId])
+    );
+
+    return danglingReferences.filter(
+      (_, i) => danglingReferenceKeys.indexOf(danglingReferenceKeys[i]) === i
+    );
+  }
+
+  // getItemInCollectionBy<
+  //   K extends CollectionKey,
+  //   T extends CollectionMap[K],
+  //   F extends OnlyKeysOfType<string | number, UnidentifiableModel<T>>
+  // >(collection: K, byKey: F, keyVal: string | number): AsyncResult<T, StoreErrors> {
+  //   return new AsyncResultWrapper(async () => {
+  //     const referencedId = await this.redis.hget(
+  //       toIndexedCollectionName(collection, String(byKey)),
+  //       String(keyVal)
+  //     );
+
+  //     if (referencedId === null) {
+  //       return new Err('CollectionOrFieldInexistent');
+  //     }
+
+  //     return (await this.getItemInCollection(collection, referencedId).resolve()) as Result<
+  //       T,
+  //       StoreErrors
+  //     >;
+  //   });
+  // }
+
+  getAllItemsInCollectionBy<
+    K extends CollectionKey,
+    T extends CollectionMap[K],
+    F extends PathsOfType<string | number, UnidentifiableModel<T>>
+  >(
+    collection: K,
+    byKeys: { [P in F]: string | number }
+  ): AsyncResult<T[], StoreErrors>;
+  getAllItemsInCollectionBy<
+    K extends CollectionKey,
+    T extends CollectionMap[K],
+    F extends PathsOfType<string | number, UnidentifiableModel<T>>
+  >(
+    collection: K,
+    byKey: F,
+    keyVal: string | number
+  ): AsyncResult<T[], StoreErrors>;
+  getAllItemsInCollectionBy<
+    K extends CollectionKey,
+    T extends CollectionMap[K],
+    F extends PathsOfType<string | number, UnidentifiableModel<T>>
+  >(
+    collection: K,
+    byKeyOrKeys: F | { [P in F]: string | number },
+    keyVal?: string | number
+  ): AsyncResult<T[], StoreErrors> {
+    const nameSpacedCollection = this.toNamespacedCollection(collection);
+    const { byFieldName, value } = this.toIndexLookup(byKeyOrKeys, keyVal);
+
+    return new AsyncResultWrapper(async () => {
+      const referencedIds = (await this.redis.smembers(
+        toMultiIndexedCollectionValueSet(
+          toMultiIndexedCollectionName(nameSpacedCollection, byFieldName),
+          value
+        )
+      )) as string[];
+
+      return (await this.getItemsInCollection<K, T>(
+        collection,
+        referencedIds
+      ).resolve()) as Result<T[], StoreErrors>;
+    });
+  }
+
+  /**
+   * Returns the items in the "from" collection that reference the given item through
+   *  any of their foreign keys, or only through the "via" one when given.
+   */
+  getReferencingItems<
+    K extends CollectionKey,
+    FromK extends CollectionKey,
+    T extends CollectionMap[FromK]
+  >(
+    collection: K,
+    id: string,
+    opts: {
+      from: FromK;
+      via?: keyof UnidentifiableModel<T> & string;
+    }
+  ): AsyncResult<T[], StoreErrors> {
+    const nameSpacedCollection = this.toNamespacedCollection(collection);
+
+    return new AsyncResultWrapper(async () => {
+      const members = (await this.redis.smembers(
+        toReferencedByCollectionName(nameSpacedCollection, id)
+      )) as string[];
+
+      const referencingIds = members
+        .map(fromReferenceMember)
+        .filter(
+          (reference) =>
+            reference.collection === opts.from &&
+            (!opts.via || reference.field === opts.via)
+        )
+        .map((reference) => reference.id)
+        // The same item could reference it through multiple fields
+        .filter((referencingId, i, ids) => ids.indexOf(referencingId) === i);
+
+      return (await this.getItemsInCollection<FromK, T>(
+        opts.from,
+        referencingIds
+      ).resolve()) as Result<T[], StoreErrors>;
+    });
+  }
+
+  isItemInCollection<K extends CollectionKey>(
+    collection: K,
+    id: string
+  ): AsyncResult<boolean, never> {
+    return this.getShallowItemsInCollectionWithMetadata<K, any>(collection, [
+      id,
+    ])
+      .map(() => true)
+      .flatMapErr(() => new Ok(false));
+  }
+
+  isItemInCollectionBy<
+    K extends CollectionKey,
+    T extends CollectionMap[K],
+    F extends PathsOfType<string | number, UnidentifiableModel<T>>
+  >(
+    collection: K,
+    byKey: F,
+    keyVal: string | number
+  ): AsyncResult<boolean, never> {
+    const nameSpacedCollection = this.toNamespacedCollection(collection);
+
+    return new AsyncResultWrapper<string, void>(async () => {
+      const referencedId = await this.redis.hget(
+        toIndexedCollectionName(nameSpacedCollection, String(byKey)),
+        String(keyVal)
+      );
+
+      if (referencedId === null) {
+        return Err.EMPTY;
+      }
+
+      return new Ok(referencedId);
+    })
+      .flatMap((id) => this.isItemInCollection(collection, id))
+      .flatMapErr(() => new Ok(false));
+  }
+
+  updateItemInCollection<
+    K extends CollectionKey,
+    T extends CollectionMap[K],
+    FKs extends ForeignKeys<T, CollectionMap>
+  >(
+    collection: K,
+    id: string,
+    itemModelGetter: UpdateableCollectionPropsGetter<T>,
+    opts: {
+      // Defaults to the ones in the schema
+      foreignKeys?: FKs;
+      // Allows the given foreignKeys to differ from the stored ones, in which case the
+      //  stored value gets migrated to them before the update is applied
+      migrateForeignKeys?: boolean;
+      // Fails with "CollectionVersionConflict" if the stored item is at a different version
+      expectedVersion?: number;
+      // "locked" waits for the item lock, while "optimistic" doesn't take any and instead
+      //  only writes if the item didn't change in between, retrying it otherwise.
+      //  Defaults to the one matching the atomicity of the store
+      concurrency?: 'locked' | 'optimistic';
+    } = {}
+  ): AsyncResult<T, StoreErrors> {
+    const schema = this.getCollectionSchema(collection);
+    const foreignKeys = (opts.foreignKeys || schema.foreignKeys) as
+      | ForeignKeys<{}, CollectionMap>
+      | undefined;
+
+    const concurrency =
+      opts.concurrency ||
+      (this.atomicity === 'scripts' ? 'optimistic' : 'locked');
+
+    if (concurrency === 'optimistic') {
+      return new AsyncResultWrapper(() =>
+        this.updateItemOptimistically<K, T>(
+          collection,
+          id,
+          itemModelGetter,
+          foreignKeys,
+          opts
+        )
+      ).map(
+        AsyncResult.passThrough((nextItem) => {
+          this.logger.info('[Store] Item Updated', {
+            collection,
+            id: nextItem.id,
+          });
+        })
+      );
+    }
+
+    return new AsyncResultWrapper<T, StoreErrors>(async () => {
+      const lockResult = await this.acquireCollectionItemLock(
+        collection,
+        id
+      ).resolve();
+
+      if (!lockResult.ok) {
+        return lockResult;
+      }
+
+      const unlock = lockResult.val;
+
+      return (
+        this.getShallowItemsInCollectionWithMetadata<K, T>(collection, [id])
+          .flatMap(
+            ([prev]) =>
+              new AsyncResultWrapper(async () => {
+                if (
+                  opts.expectedVersion !== undefined &&
+                  (prev.version || 0) !== opts.expectedVersion
+                ) {
+                  this.logger.error(
+                    '[Store] UpdateItemInCollection Version Conflict Error',
+                    {
+                      forCollection: collection,
+                      itemId: id,
+                      version: prev.version || 0,
+                      expectedVersion: opts.expectedVersion,
+                    }
+                  );
+
+                  return new Err('CollectionVersionConflict' as const);
+                }
+
+                const nextValResult = await this.getNextUpdatedVal<T>(
+                  collection,
+                  prev,
+                  itemModelGetter,
+                  foreignKeys,
+                  opts.migrateForeignKeys
+                );
+
+                if (!nextValResult.ok) {
+                  return nextValResult;
+                }
+
+                const { nextItem, nextForeignKeys } = nextValResult.val;
+
+                // Only the newly referenced foreign items get checked, so the existent
+                //  references don't block an update
+                const missingForeignItems = await this.getMissingForeignItems(
+                  {
+                    val: nextItem as any,
+                    foreignKeys: nextForeignKeys,
+                  },
+                  prev
+                );
+
+                if (missingForeignItems.length > 0) {
+                  this.logger.error(
+                    '[Store] UpdateItemInCollection Foreign Items Inexistent Error',
+                    {
+                      forCollection: collection,
+                      itemId: id,
+                      missingForeignItems,
+                    }
+                  );
+
+                  return new Err({
+                    type: 'CollectionForeignItemsInexistent' as const,
+                    missingForeignItems,
+                  });
+                }
+
+                const indexRecords = this.getUpdatedIndexRecords(
+                  prev,
+                  nextItem
+                );
+                const uniqueIndexByCollectionWithUpdatedValueRecords =
+                  indexRecords.uniqueIndexed;
+
+                const nextItemWithMetadata = this.toUpdatedItemMetadata<T>(
+                  prev,
+                  nextItem,
+                  nextForeignKeys,
+                  indexRecords
+                );
+
+                const transactions = this.withItemUpdateTransactions(
+                  this.redis.multi(),
+                  collection,
+                  prev,
+                  nextItemWithMetadata,
+                  indexRecords
+                );
+
+                // Changing a unique index value also locks the whole collection, so no other
+                //  addition or update can take the same value in between the check and the write
+                const collectionLockResult =
+                  uniqueIndexByCollectionWithUpdatedValueRecords.length > 0
+                    ? await this.acquireCollectionLock(collection).resolve()
+                    : new Ok(undefined);
+
+                if (!collectionLockResult.ok) {
+                  return collectionLockResult;
+                }
+
+                const unlockCollection = collectionLockResult.val;
+
+                let res: unknown[] | null;
+
+                try {
+                  const uniqueIndexViolations =
+                    await this.getUniqueIndexViolations(
+                      uniqueIndexByCollectionWithUpdatedValueRecords.map(
+                        (record) => ({
+                          indexedInCollection: record.indexedInCollection,
+                          value: record.nextValue,
+                        })
+                      ),
+                      id
+                    );
+
+                  if (uniqueIndexViolations.length > 0) {
+                    this.logger.error(
+                      '[Store] UpdateItemInCollection Unique Index Violation Error',
+                      {
+                        forCollection: collection,
+                        itemId: id,
+                        violations: uniqueIndexViolations,
+                      }
+                    );
+
+                    return new Err('CollectionUniqueIndexViolation');
+                  }
+
+                  res = await this.redis.execMulti(transactions);
+                } finally {
+                  unlockCollection?.();
+                }
+
+                if (res === null) {
+                  return new Err('CollectionUpdateFailure');
+                }
+
+                // TODO: Add an optimization to only run another query if there are foreign keys
+                //  or if the foregin keys have been updated not if there are no modification to that
+                //  since this could be pretty expensive
+                // But on the other hand it could also be ok since data will be always fresh!
+                // if (nextItemWithMetadata.foreignKeys && ) {}
+
+                // Run another query so all the foreign references get resolved
+                return await this.getItemInCollection<K, T>(
+                  collection,
+                  id
+                ).resolve();
+              })
+          )
+          .map(
+            AsyncResult.passThrough((nextItem) => {
+              this.logger.info('[Store] Item Updated', {
+                collection,
+                id: nextItem.id,
+              });
+            })
+          )
+          .resolve()
+          // Finally Unlock the resource
+          .finally(unlock)
+      );
+    });
+  }
+
+  private updateItemOptimistically<
+    K extends CollectionKey,
+    T extends CollectionMap[K]
+  >(
+    collection: K,
+    id: string,
+    itemModelGetter: UpdateableCollectionPropsGetter<T>,
+    foreignKeys: ForeignKeys<{}, CollectionMap> | undefined,
+    opts: {
+      migrateForeignKeys?: boolean;
+      expectedVersion?: number;
+    }
+  ): Promise<Result<T, StoreErrors>> {
+    const nameSpacedCollection = this.toNamespacedCollection(collection);
+
+    // The given values get applied on top of the item as changed in between, the same as
+    //  once the lock is acquired, so only the explicitly expected versions don't get retried
+    const canRetry = opts.expectedVersion === undefined;
+
+    return this.runGuardedWrite<T>(async () => {
+      const [prev] = (await this.getStoredItemsMetadata(collection, [id])) as (
+        | CollectionItemMetadata<T, CollectionMap>
+        | undefined
+      )[];
+
+      if (!prev) {
+        return new Err('CollectionFieldInexistent');
+      }
+
+      const prevVersion = prev.version || 0;
+
+      if (
+        opts.expectedVersion !== undefined &&
+        prevVersion !== opts.expectedVersion
+      ) {
+        return new Err('CollectionVersionConflict');
+      }
+
+      const nextValResult = await this.getNextUpdatedVal<T>(
+        collection,
+        prev,
+        itemModelGetter,
+        foreignKeys,
+        opts.migrateForeignKeys
+      );
+
+      if (!nextValResult.ok) {
+        return nextValResult;
+      }
+
+      const { nextItem, nextForeignKeys } = nextValResult.val;
+      const nextForeignItemsCheck = {
+        val: nextItem as CollectionItemMetadata<unknown, CollectionMap>['val'],
+        foreignKeys: nextForeignKeys,
+      };
+
+      const missingForeignItems = await this.getMissingForeignItems(
+        nextForeignItemsCheck,
+        prev
+      );
+
+      if (missingForeignItems.length > 0) {
+        return new Err({
+          type: 'CollectionForeignItemsInexistent',
+          missingForeignItems,
+        });
+      }
+
+      const indexRecords = this.getUpdatedIndexRecords(prev, nextItem);
+      const uniqueIndexViolations = await this.getUniqueIndexViolations(
+        indexRecords.uniqueIndexed.map((record) => ({
+          indexedInCollection: record.indexedInCollection,
+          value: record.nextValue,
+        })),
+        id
+      );
+
+      if (uniqueIndexViolations.length > 0) {
+        return new Err('CollectionUniqueIndexViolation');
+      }
+
+      const next = this.toUpdatedItemMetadata<T>(
+        prev,
+        nextItem,
+        nextForeignKeys,
+        indexRecords
+      );
+
+      return new Ok({
+        guards: {
+          items: [
+            [
+              nameSpacedCollection,
+              toCollectionId(nameSpacedCollection, id),
+              prevVersion,
+            ],
+          ],
+          uniqueValues: indexRecords.uniqueIndexed.map(
+            (record): [string, string, string] => [
+              record.indexedInCollection,
+              String(record.nextValue),
+              id,
+            ]
+          ),
+          existentItems: this.toExistentItemsGuards(
+            nextForeignItemsCheck,
+            prev
+          ),
+          references: [],
+          lengths: [],
+        },
+        withTransactions: (transactions) =>
+          this.withItemUpdateTransactions(
+            transactions,
+            collection,
+            prev,
+            next,
+            indexRecords
+          ),
+        // Run another query so all the foreign references get resolved
+        onWritten: () =>
+          this.getItemInCollection<K, T>(collection, id).resolve(),
+      });
+    }, canRetry);
+  }
+
+  // The scripts get called by their sha, and loaded again with a plain EVAL (which caches
+  //  them as well) whenever they're missing, i.e. after a restart or a SCRIPT FLUSH
+  private async runScript(
+    script: StoreScript,
+    keys: string[],
+    args: string[]
+  ): Promise<unknown> {
+    try {
+      return await this.redis.evalsha(script.sha, keys.length, keys, args);
+    } catch (error) {
+      if (String((error as Error)?.message).indexOf('NOSCRIPT') !== 0) {
+        throw error;
+      }
+
+      return this.redis.eval(script.source, keys.length, keys, args);
+    }
+  }
+
+  // Computes the write from a fresh read and commits it in a single script call, which only
+  //  applies it if its guards still hold. Otherwise it starts over, a few times at most, and
+  //  then fails with what the last attempt failed on
+  private async runGuardedWrite<V>(
+    getWrite: () => Promise<Result<GuardedWrite<V>, StoreErrors>>,
+    canRetry = true
+  ): Promise<Result<V, StoreErrors>> {
+    let failure: StoreErrors = 'CollectionVersionConflict';
+    let attempts = 0;
+
+    while (attempts < MAX_GUARDED_WRITE_ATTEMPTS) {
+      attempts++;
+
+      const writeResult = await getWrite();
+
+      if (!writeResult.ok) {
+        return writeResult;
+      }
+
+      const { guards, withTransactions, onWritten } = writeResult.val;
+      const { keys, args } = this.toGuardedWriteScriptInput(
+        guards,
+        withTransactions
+      );
+
+      let reply: GuardedWriteReply;
+
+      try {
+        reply = (await this.runScript(
+          GUARDED_WRITE_SCRIPT,
+          keys,
+          args
+        )) as GuardedWriteReply;
+      } catch (error) {
+        this.logger.error('[Store] Guarded Write Script Error', { error });
+
+        return new Err('GenericRedisFailure');
+      }
+
+      if (reply[0] === 'OK') {
+        return onWritten();
+      }
+
+      failure = this.toGuardFailure(guards, reply);
+
+      if (!canRetry) {
+        break;
+      }
+    }
+
+    this.logger.error('[Store] Guarded Write Conflict Error', {
+      attempts,
+      failure,
+    });
+
+    return new Err(failure);
+  }
+
+  // Every key the script touches has to be given through KEYS, as the scripting rules require,
+  //  so the guards and the commands only refer to them by position. In a Redis Cluster they
+  //  still have to share a hash slot, the same as for a MULTI
+  private toGuardedWriteScriptInput(
+    guards: WriteGuards,
+    withTransactions: (transactions: RedisMulti) => RedisMulti
+  ) {
+    const keys: string[] = [];
+    const toKeyPosition = (key: string) => {
+      const at = keys.indexOf(key);
+
+      if (at > -1) {
+        return at + 1;
+      }
+
+      // 1-based, as in Lua
+      return keys.push(key);
+    };
+
+    const positionedGuards = {
+      items: guards.items.map(([key, field, version]) => [
+        toKeyPosition(key),
+        field,
+        version,
+      ]),
+      uniqueValues: guards.uniqueValues.map(([key, value, id]) => [
+        toKeyPosition(key),
+        value,
+        id,
+      ]),
+      existentItems: guards.existentItems.map(([collection, id]) => [
+        toKeyPosition(this.toNamespacedCollection(collection as CollectionKey)),
+        toCollectionId(collection, id),
+      ]),
+      references: guards.references.map(([key, members]) => [
+        toKeyPosition(key),
+        members,
+      ]),
+      lengths: guards.lengths.map(([key, length]) => [
+        toKeyPosition(key),
+        length,
+      ]),
+    };
+
+    // DEL only takes keys, while all the other commands take a single one first
+    const positionedCommands = this.toRecordedCommands(withTransactions).map(
+      ([command, ...args]) =>
+        command === 'del'
+          ? [command, args.map(toKeyPosition)]
+          : [command, [toKeyPosition(args[0])], ...args.slice(1)]
+    );
+
+    return {
+      keys,
+      args: [
+        JSON.stringify(positionedGuards),
+        JSON.stringify(positionedCommands),
+      ],
+    };
+  }
+
+  private toGuardFailure(
+    guards: WriteGuards,
+    [reason, position]: GuardedWriteReply
+  ): StoreErrors {
+    if (reason === 'MISSING') {
+      return 'CollectionFieldInexistent';
+    }
+
+    if (reason === 'UNIQUE') {
+      return 'CollectionUniqueIndexViolation';
+    }
+
+    // The item got added in between
+    if (reason === 'EXISTS') {
+      return 'CollectionItemAlreadyExists';
+    }
+
+    if (reason === 'FOREIGN') {
+      const [collection, id] = guards.existentItems[Number(position) - 1];
+
+      return {
+        type: 'CollectionForeignItemsInexistent',
+        missingForeignItems: [{ collection, ids: [id] }],
+      };
+    }
+
+    // The item, the references to it or the length of the collection changed in between
+    return 'CollectionVersionConflict';
+  }
+
+  // The newly referenced foreign items, which have to still exist when the write gets applied
+  private toExistentItemsGuards(
+    next: ForeignItemsCheck<CollectionMap>['next'],
+    prev?: ForeignItemsCheck<CollectionMap>['prev']
+  ) {
+    return flatten(
+      this.getNewForeignIds(next, prev).map(([foreignCollection, fids]) =>
+        fids.map((fid): [string, string] => [foreignCollection, fid])
+      ),
+      1
+    ) as [string, string][];
+  }
+
+  // Captures the commands instead of queueing them in a MULTI, so they can be sent to a script
+  private toRecordedCommands(
+    withTransactions: (transactions: RedisMulti) => RedisMulti
+  ) {
+    const commands: string[][] = [];
+    const recorder: RedisMulti = new Proxy({} as RedisMulti, {
+      get:
+        (_, command) =>
+        (...args: unknown[]) => {
+          commands.push([
+            String(command),
+            ...(flatten(args) as unknown[]).map(String),
+          ]);
+
+          return recorder;
+        },
+    });
+
+    withTransactions(recorder);
+
+    return commands;
+  }
+
+  /**
+   * Updates all the items with the checks, the writes and the reads of the updated items each
+   *  batched into a few round trips. Every item gets its own Result, so the failing ones
+   *  don't prevent the rest from being updated.
+   */
+  updateItemsInCollection<
+    K extends CollectionKey,
+    T extends CollectionMap[K],
+    FKs extends ForeignKeys<T, CollectionMap>
+  >(
+    collection: K,
+    updates: {
+      id: string;
+      item: UpdateableCollectionPropsGetter<T>;
+    }[],
+    opts: {
+      foreignKeys?: FKs;
+      migrateForeignKeys?: boolean;
+    } = {}
+  ): AsyncResult<Result<T, StoreErrors>[], StoreErrors> {
+    const nameSpacedCollection = this.toNamespacedCollection(collection);
+    const foreignKeys = (opts.foreignKeys ||
+      this.getCollectionSchema(collection).foreignKeys) as
+      | ForeignKeys<{}, CollectionMap>
+      | undefined;
+
+    return new AsyncResultWrapper<Result<T, StoreErrors>[], StoreErrors>(
+      async () => {
+        const errors: (StoreErrors | undefined)[] = updates.map(
+          () => undefined
+        );
+        const getPending = () =>
+          updates.map((_, i) => i).filter((i) => errors[i] === undefined);
+
+        // The items get read and checked again for each attempt, with the collection lock taken
+        //  (in the locks mode) before checking any changed unique index value
+        const prepareUpdate = async (
+          lockUniqueValues: (
+            changesUniqueValues: boolean
+          ) => Promise<Result<void, StoreErrors>>
+        ): Promise<
+          Result<GuardedWrite<Result<T, StoreErrors>[]>, StoreErrors>
+        > => {
+          // The same id updated more than once in a batch is ambiguous, so only the first gets applied
+          updates.forEach(({ id }, i) => {
+            errors[i] = updates
+              .slice(0, i)
+              .some((prevUpdate) => prevUpdate.id === id)
+              ? 'CollectionItemIdDuplicate'
+              : undefined;
+          });
+
+          const prevs = (await this.getStoredItemsMetadata(
+            collection,
+            updates.map(({ id }) => id)
+          )) as (CollectionItemMetadata<T, CollectionMap> | undefined)[];
+
+          const nexts: {
+            nextItem: T;
+            nextForeignKeys: ForeignKeys<{}, CollectionMap> | undefined;
+          }[] = [];
+
+          for (const i of getPending()) {
+            const prev = prevs[i];
+
+            if (!prev) {
+              errors[i] = 'CollectionFieldInexistent';
+              continue;
+            }
+
+            const nextValResult = await this.getNextUpdatedVal<T>(
+              collection,
+              prev,
+              updates[i].item,
+              foreignKeys,
+              opts.migrateForeignKeys
+            );
+
+            if (nextValResult.ok) {
+              nexts[i] = nextValResult.val;
+            } else {
+              errors[i] = nextValResult.val;
+            }
+          }
+
+          const toNextForeignItemsCheck = (i: number) => ({
+            val: nexts[i].nextItem as CollectionItemMetadata<
+              unknown,
+              CollectionMap
+            >['val'],
+            foreignKeys: nexts[i].nextForeignKeys,
+          });
+
+          const toForeignCheckPositions = getPending();
+          const missingForeignItemsPerItem =
+            await this.getMissingForeignItemsOfMany(
+              toForeignCheckPositions.map((i) => ({
+                next: toNextForeignItemsCheck(i),
+                prev: prevs[i],
+              }))
+            );
+
+          toForeignCheckPositions.forEach((i, j) => {
+            if (missingForeignItemsPerItem[j].length > 0) {
+              errors[i] = {
+                type: 'CollectionForeignItemsInexistent',
+                missingForeignItems: missingForeignItemsPerItem[j],
+              };
+            }
+          });
+
+          const indexRecordsPerItem = updates.map((_, i) =>
+            errors[i] === undefined
+              ? this.getUpdatedIndexRecords(
+                  prevs[i] as CollectionItemMetadata<T, CollectionMap>,
+                  nexts[i].nextItem
+                )
+              : undefined
+          );
+
+          const uniqueLockResult = await lockUniqueValues(
+            getPending().some(
+              (i) => (indexRecordsPerItem[i]?.uniqueIndexed || []).length > 0
+            )
+          );
+
+          if (!uniqueLockResult.ok) {
+            return uniqueLockResult;
+          }
+
+          const toUniqueCheckPositions = getPending();
+          const uniqueIndexViolationsPerItem =
+            await this.getUniqueIndexViolationsOfMany(
+              toUniqueCheckPositions.map((i) => ({
+                records: (indexRecordsPerItem[i]?.uniqueIndexed || []).map(
+                  (record) => ({
+                    indexedInCollection: record.indexedInCollection,
+                    value: record.nextValue,
+                  })
+                ),
+                id: updates[i].id,
+              }))
+            );
+
+          toUniqueCheckPositions.forEach((i, j) => {
+            if (uniqueIndexViolationsPerItem[j].length > 0) {
+              errors[i] = 'CollectionUniqueIndexViolation';
+            }
+          });
+
+          const failedPositions = updates
+            .map((_, i) => i)
+            .filter((i) => errors[i] !== undefined);
+
+          if (failedPositions.length > 0) {
+            this.logger.error('[Store] UpdateItemsInCollection Items Failed', {
+              forCollection: collection,
+              failed: failedPositions.map((i) => ({
+                itemId: updates[i].id,
+                error: errors[i],
+              })),
+            });
+          }
+
+          const toUpdatePositions = getPending();
+          const nextMetadatas = toUpdatePositions.map((i) =>
+            this.toUpdatedItemMetadata<T>(
+              prevs[i] as CollectionItemMetadata<T, CollectionMap>,
+              nexts[i].nextItem,
+              nexts[i].nextForeignKeys,
+              indexRecordsPerItem[i] as UpdatedIndexRecords
+            )
+          );
+
+          return new Ok({
+            // Same as for a single update, for each of the items
+            guards: {
+              items: toUpdatePositions.map(
+                (i): [string, string, number | null] => [
+                  nameSpacedCollection,
+                  toCollectionId(nameSpacedCollection, updates[i].id),
+                  (prevs[i] as CollectionItemMetadata<T, CollectionMap>)
+                    .version || 0,
+                ]
+              ),
+              uniqueValues: flatten(
+                toUpdatePositions.map((i) =>
+                  (indexRecordsPerItem[i]?.uniqueIndexed || []).map(
+                    (record): [string, string, string] => [
+                      record.indexedInCollection,
+                      String(record.nextValue),
+                      updates[i].id,
+                    ]
+                  )
+                ),
+                1
+              ) as [string, string, string][],
+              existentItems: flatten(
+                toUpdatePositions.map((i) =>
+                  this.toExistentItemsGuards(
+                    toNextForeignItemsCheck(i),
+                    prevs[i]
+                  )
+                ),
+                1
+              ) as [string, string][],
+              references: [],
+              lengths: [],
+            },
+            withTransactions: (transactions) =>
+              toUpdatePositions.reduce(
+                (prev, i, j) =>
+                  this.withItemUpdateTransactions(
+                    prev,
+                    collection,
+                    prevs[i] as CollectionItemMetadata<T, CollectionMap>,
+                    nextMetadatas[j],
+                    indexRecordsPerItem[i] as UpdatedIndexRecords
+                  ),
+                transactions
+              ),
+            // Run another query so all the foreign references get resolved
+            onWritten: () =>
+              this.getItemsInCollection<K, T>(
+                collection,
+                toUpdatePositions.map((i) => updates[i].id)
+              )
+                .map((updatedItems) =>
+                  updates.map((_, i): Result<T, StoreErrors> => {
+                    const error = errors[i];
+
+                    if (error !== undefined) {
+                      return new Err(error);
+                    }
+
+                    return new Ok(updatedItems[toUpdatePositions.indexOf(i)]);
+                  })
+                )
+                .resolve(),
+          });
+        };
+
+        if (this.atomicity === 'scripts') {
+          return this.runGuardedWrite(() =>
+            prepareUpdate(async () => Ok.EMPTY)
+          );
+        }
+
+        // The duplicates don't get locked, as they don't get applied anyway
+        const locksResult = await this.acquireLocks(
+          updates
+            .filter(
+              ({ id }, i) =>
+                !updates.slice(0, i).some((prevUpdate) => prevUpdate.id === id)
+            )
+            .map(({ id }) => ({ collection, id }))
+        );
+
+        if (!locksResult.ok) {
+          return locksResult;
+        }
+
+        let unlockCollection: (() => void) | undefined;
+
+        try {
+          // Same as for a single update, changing a unique index value also locks the whole collection
+          const writeResult = await prepareUpdate(
+            async (changesUniqueValues) => {
+              if (!changesUniqueValues) {
+                return Ok.EMPTY;
+              }
+
+              const collectionLockResult = await this.acquireCollectionLock(
+                collection
+              ).resolve();
+
+              if (!collectionLockResult.ok) {
+                return collectionLockResult;
+              }
+
+              unlockCollection = collectionLockResult.val;
+
+              return Ok.EMPTY;
+            }
+          );
+
+          if (!writeResult.ok) {
+            return writeResult;
+          }
+
+          const res = await this.redis.execMulti(
+            writeResult.val.withTransactions(this.redis.multi())
+          );
+
+          if (res === null) {
+            return new Err('CollectionUpdateFailure');
+          }
+
+          return await writeResult.val.onWritten();
+        } finally {
+          unlockCollection?.();
+          locksResult.val.unlock();
+        }
+      }
+    ).map(
+      AsyncResult.passThrough((results) => {
+        this.logger.info('[Store] Items Updated', {
+          collection,
+          updated: results.filter((result) => result.ok).length,
+          failed: results.filter((result) => !result.ok).length,
+        });
+      })
+    );
+  }
+
+  // Applies the given update on top of the stored val, after migrating it to the given foreign keys
+  private async getNextUpdatedVal<T extends CollectionMap[CollectionKey]>(
+    collection: CollectionKey,
+    prev: CollectionItemMetadata<T, CollectionMap>,
+    itemModelGetter: UpdateableCollectionPropsGetter<T>,
+    foreignKeys: ForeignKeys<{}, CollectionMap> | undefined,
+    migrateForeignKeys?: boolean
+  ): Promise<
+    Result<
+      {
+        nextItem: T;
+        nextForeignKeys: ForeignKeys<{}, CollectionMap> | undefined;
+      },
+      StoreErrors
+    >
+  > {
+    const { id } = prev;
+    const schema = this.getCollectionSchema(collection);
+
+    const prevValResult = ((): Result<
+      CollectionItemMetadata<unknown, CollectionMap>['val'],
+      StoreErrors
+    > => {
+      // Without any given or declared foreign keys the stored ones are kept
+      if (!foreignKeys || deepEqual(foreignKeys, prev.foreignKeys || {})) {
+        return new Ok(prev.val);
+      }
+
+      if (migrateForeignKeys) {
+        return this.migrateValToForeignKeys(
+          prev.val,
+          prev.foreignKeys,
+          foreignKeys
+        );
+      }
+
+      this.logger.error(
+        '[Store] UpdateItemInCollection ForeignKeys Mismatch Error',
+        {
+          forCollection: collection,
+          itemId: id,
+          prevForeignKeys: prev.foreignKeys,
+          nextForeignKeys: foreignKeys,
+        }
+      );
+      return new Err('CollectionUpdateFailure:MismatchingForeignKeys');
+    })();
+
+    if (!prevValResult.ok) {
+      return prevValResult;
+    }
+
+    const prevVal = prevValResult.val;
+    const nextForeignKeys =
+      migrateForeignKeys && foreignKeys
+        ? foreignKeys
+        : (prev.foreignKeys as ForeignKeys<{}, CollectionMap> | undefined);
+
+    const unresolvedItemModel =
+      typeof itemModelGetter === 'function'
+        ? itemModelGetter(
+            prevVal as unknown as CollectionItemWithoutForeignKeys<
+              UnidentifiableModel<T>
+            >
+          )
+        : itemModelGetter;
+
+    const itemModelAsAsyncResult = AsyncResult.isAsyncResult(
+      unresolvedItemModel
+    )
+      ? unresolvedItemModel
+      : new AsyncOk(unresolvedItemModel);
+
+    const itemModelResult = await itemModelAsAsyncResult.resolve();
+
+    if (!itemModelResult.ok) {
+      return new Err('CollectionUpdateFailure');
+    }
+
+    const itemModel = itemModelResult.val;
+
+    const { id: removedId, ...itemModelWithoutId } = itemModel as unknown as T;
+    const nextItem = {
+      ...prevVal,
+      ...itemModelWithoutId,
+    } as unknown as T;
+
+    const validationIssues = schema.validator
+      ? schema.validator.validate(nextItem)
+      : [];
+
+    if (validationIssues.length > 0) {
+      this.logger.error('[Store] UpdateItemInCollection Validation Error', {
+        forCollection: collection,
+        itemId: id,
+        issues: validationIssues,
+      });
+
+      return new Err({
+        type: 'CollectionValidationFailure',
+        issues: validationIssues,
+      });
+    }
+
+    return new Ok({ nextItem, nextForeignKeys });
+  }
+
+  // The index entries of an updated item whose values change along with its val
+  private getUpdatedIndexRecords(
+    prev: CollectionItemMetadata<unknown, CollectionMap>,
+    nextVal: {}
+  ): UpdatedIndexRecords {
+    const nextItem = nextVal as CollectionMap[CollectionKey];
+    const indexed = this.getIndexedInValueRecords(prev.indexedIn, nextItem);
+
+    return {
+      indexed,
+      uniqueIndexed: indexed.filter(
+        (record) =>
+          (prev.uniqueIndexedIn || []).indexOf(record.indexedInCollection) > -1
+      ),
+      multiIndexed: this.getIndexedInValueRecords(
+        prev.multiIndexedIn,
+        nextItem,
+        getByFieldNameFromMultiIndexedCollection
+      ),
+      rangeIndexed: this.getIndexedInValueRecords(
+        prev.rangeIndexedIn,
+        nextItem,
+        getByFieldNameFromRangeIndexedCollection
+      ),
+    };
+  }
+
+  private toUpdatedItemMetadata<T>(
+    prev: CollectionItemMetadata<unknown, CollectionMap>,
+    nextVal: {},
+    nextForeignKeys: ForeignKeys<{}, CollectionMap> | undefined,
+    indexRecords: UpdatedIndexRecords
+  ): CollectionItemMetadata<T, CollectionMap> {
+    const toNextValues = <V>(
+      records: IndexedValueRecord<V>[],
+      prevValues: { [indexedInCollection: string]: V }
+    ) =>
+      records.reduce(
+        (accum, nextRecord) => ({
+          ...accum,
+          [nextRecord.indexedInCollection]: nextRecord.nextValue,
+        }),
+        prevValues
+      );
+
+    return {
+      val: nextVal as CollectionItemMetadata<T, CollectionMap>['val'],
+      id: prev.id,
+      version: (prev.version || 0) + 1,
+      ...(nextForeignKeys &&
+        Object.keys(nextForeignKeys).length > 0 && {
+          foreignKeys: nextForeignKeys as CollectionItemMetadata<
+            T,
+            CollectionMap
+          >['foreignKeys'],
+        }),
+      ...(prev.indexedIn && {
+        indexedIn: toNextValues(indexRecords.indexed, prev.indexedIn),
+      }),
+      ...(prev.uniqueIndexedIn && {
+        uniqueIndexedIn: prev.uniqueIndexedIn,
+      }),
+      ...(prev.multiIndexedIn && {
+        multiIndexedIn: toNextValues(
+          indexRecords.multiIndexed,
+          prev.multiIndexedIn
+        ),
+      }),
+      ...(prev.rangeIndexedIn && {
+        rangeIndexedIn: toNextValues(
+          indexRecords.rangeIndexed,
+          prev.rangeIndexedIn
+        ),
+      }),
+    };
+  }
+
+  // Moves the index entries and references whose values changed, then writes the item
+  private withItemUpdateTransactions(
+    transactions: RedisMulti,
+    collection: CollectionKey,
+    prev: CollectionItemMetadata<unknown, CollectionMap>,
+    next: CollectionItemMetadata<unknown, CollectionMap>,
+    indexRecords: UpdatedIndexRecords
+  ) {
+    const nameSpacedCollection = this.toNamespacedCollection(collection);
+    const { id } = prev;
+
+    // If the indexBy value changed in this update, update the indexBy Collections as well
+    //  by removing the old and adding the new
+    const transactionsWithIndexes = indexRecords.indexed.reduce(
+      (prev, record) =>
+        prev
+          .hset(record.indexedInCollection, [record.nextValue, id])
+          .hdel(record.indexedInCollection, record.prevValue),
+      transactions
+    );
+
+    // Same for the multiIndexBy, by moving the id from the old value Set to the new one
+    const transactionsWithMultiIndexes = indexRecords.multiIndexed.reduce(
+      (prev, record) =>
+        prev
+          .srem(
+            toMultiIndexedCollectionValueSet(
+              record.indexedInCollection,
+              record.prevValue
+            ),
+            id
+          )
+          .sadd(
+            toMultiIndexedCollectionValueSet(
+              record.indexedInCollection,
+              record.nextValue
+            ),
+            id
+          ),
+      transactionsWithIndexes
+    );
+
+    // And for the rangeIndexBy, by rescoring the id with the new value, or taking it out of
+    //  the range when it's no longer a number
+    const transactionsWithRangeIndexes = indexRecords.rangeIndexed.reduce(
+      (prev, record) =>
+        isRangeIndexableValue(record.nextValue)
+          ? prev.zadd(record.indexedInCollection, record.nextValue, id)
+          : prev.zrem(record.indexedInCollection, id),
+      transactionsWithMultiIndexes
     );
+
+    // Move the references of the foreign ids that changed
+    return this.withOutgoingReferencesDiffTransactions(
+      transactionsWithRangeIndexes,
+      collection,
+      prev,
+      next
+    ).hset(nameSpacedCollection, [
+      toCollectionId(nameSpacedCollection, id),
+      JSON.stringify(next),
+    ]);
   }
 
-  private resolveForeignItems(
-    itemsMetadata: CollectionItemMetadata<unknown, CollectionMap>[]
-  ): AsyncResultWrapper<
-    CollectionItemMetadataReply<any, CollectionMap>[],
-    any
+  private migrateValToForeignKeys(
+    val: CollectionItemMetadata<unknown, CollectionMap>['val'],
+    prevForeignKeys: ForeignKeys<{}, CollectionMap> = {},
+    nextForeignKeys: ForeignKeys<{}, CollectionMap> = {}
+  ): Result<
+    CollectionItemMetadata<unknown, CollectionMap>['val'],
+    'CollectionUpdateFailure:MismatchingForeignKeys'
   > {
-    return new AsyncResultWrapper(async () => {
-      const allForeignKeysByCollection =
-        this.compactAllForeignKeys(itemsMetadata);
-      const foreignCollectionsList = Object.keys(allForeignKeysByCollection);
+    const prevFKs = prevForeignKeys as ForeignKeys<{ [k: string]: any }, {}>;
+    const nextFKs = nextForeignKeys as ForeignKeys<{ [k: string]: any }, {}>;
 
-      const foreignKeysWithValuesZip = foreignCollectionsList.reduce(
-        (prev, foreignCollection) => {
-          const fids = allForeignKeysByCollection[foreignCollection].map(
-            (fid) => toCollectionId(foreignCollection, fid)
-          );
+    // Only the retyped foreign keys need their value reshaped. The added ones are expected
+    //  to already hold ids and the removed ones simply keep them as plain values
+    const retypedFields = Object.keys(nextFKs).filter(
+      (field) => prevFKs[field] && prevFKs[field].type !== nextFKs[field].type
+    );
 
-          return [...prev, [foreignCollection, fids]] as [string, string[]][];
-        },
-        [] as [string, string[]][]
-      );
+    const nonNarrowableFields = retypedFields.filter(
+      (field) =>
+        nextFKs[field].type === 'oneToOne' &&
+        Object.keys((val as any)[field] || {}).length > 1
+    );
 
-      type RedisMulti = ReturnType<RedisClient['MULTI']>;
+    if (nonNarrowableFields.length > 0) {
+      this.logger.error(
+        '[Store] MigrateValToForeignKeys Cannot Narrow "oneToMany" Error',
+        {
+          fields: nonNarrowableFields,
+        }
+      );
 
-      // console.log('foreignCollection', foreignCollection);
+      return new Err('CollectionUpdateFailure:MismatchingForeignKeys');
+    }
 
-      const redisCollectionAndTransactionsGetteriZip =
-        foreignKeysWithValuesZip.reduce((prev, [foreignCollection, fids]) => {
-          if (fids.length === 0) {
-            return prev;
-          }
+    return new Ok(
+      retypedFields.reduce((prev, field) => {
+        const fieldVal = (val as any)[field];
 
-          return [
+        if (nextFKs[field].type === 'oneToMany') {
+          return {
             ...prev,
-            {
-              collection: foreignCollection,
-              getTransaction: (redis: RedisMulti) =>
-                redis.hmget(
-                  this.toNamespacedCollection(foreignCollection as any),
-                  ...fids
-                ),
-            },
-          ];
-        }, [] as { collection: string; getTransaction: (r: RedisMulti) => RedisMulti }[]);
+            [field]:
+              fieldVal === null || fieldVal === undefined
+                ? {}
+                : { [fieldVal]: null },
+          };
+        }
 
-      // Return Early if no Foreign Keys or no Foreign Values
-      if (redisCollectionAndTransactionsGetteriZip.length === 0) {
-        return new Ok(
-          itemsMetadata.map((md) => ({
-            ...md,
-            foreignItems: {},
-          }))
+        const [fid] = Object.keys(fieldVal || {});
+
+        return {
+          ...prev,
+          [field]: fid === undefined ? null : fid,
+        };
+      }, val as UnknownRecord) as CollectionItemMetadata<
+        unknown,
+        CollectionMap
+      >['val']
+    );
+  }
+
+  private async getUniqueIndexViolations(
+    records: UniqueIndexRecord[],
+    id?: string,
+    takenBefore?: { [key: string]: string | null }
+  ) {
+    const [violations] = await this.getUniqueIndexViolationsOfMany(
+      [{ records, id }],
+      takenBefore
+    );
+
+    return violations;
+  }
+
+  // Checks all the items in a single round trip. A value taken by an earlier item of the
+  //  same batch is a violation as well, and so are the ones in the given takenBefore, which
+  //  get checked instead of the stored index (with the released ones as null)
+  private async getUniqueIndexViolationsOfMany(
+    items: { records: UniqueIndexRecord[]; id?: string }[],
+    takenBefore: { [key: string]: string | null } = {}
+  ) {
+    const allRecords = flatten(
+      items.map(({ records }) => records)
+    ) as UniqueIndexRecord[];
+
+    const referencedIds =
+      allRecords.length > 0
+        ? await this.redis.execMulti<string | null>(
+            allRecords.reduce(
+              (prev, record) =>
+                prev.hget(record.indexedInCollection, String(record.value)),
+              this.redis.multi()
+            )
+          )
+        : [];
+
+    const takenInBatch: { [key: string]: string | null | undefined } = {
+      ...takenBefore,
+    };
+    let offset = 0;
+
+    return items.map(({ records, id }) => {
+      const violations = records
+        .map((record, i) => {
+          const key = JSON.stringify([
+            record.indexedInCollection,
+            String(record.value),
+          ]);
+
+          return {
+            ...record,
+            referencedId:
+              key in takenInBatch
+                ? takenInBatch[key]
+                : referencedIds[offset + i],
+          };
+        })
+        // Only the values already taken by a different item are violations
+        .filter(
+          ({ referencedId }) =>
+            referencedId !== null && (id === undefined || referencedId !== id)
         );
-      }
 
-      const redisTransactions = redisCollectionAndTransactionsGetteriZip.reduce(
-        (prev, { getTransaction }) => getTransaction(prev),
-        this.redis.multi()
-      );
+      if (violations.length === 0) {
+        records.forEach((record) => {
+          takenInBatch[
+            JSON.stringify([record.indexedInCollection, String(record.value)])
+          ] = id;
+        });
+      }
+      offset += records.length;
 
-      const redisReply = await this.redis.execMulti(redisTransactions);
+      return violations;
+    });
+  }
 
-      const allResults = redisReply.map(
-        (resultArrayPerForeignCollection, collectionIndex) => {
-          const results = (resultArrayPerForeignCollection as string[]).map(
-            (v) => {
-              if (v === null || v === undefined) {
-                return new AsyncErr('CollectionFieldInexistent');
-              }
+  private getIndexedInValueRecords<
+    K extends CollectionKey,
+    T extends CollectionMap[K],
+    V extends string | number = string
+  >(
+    prevIndexedIn: { [indexedInCollection: string]: V } | undefined,
+    nextItem: T,
+    getByFieldName: (
+      indexedCollection: string
+    ) => string = getByFieldNameFromIndexedCollection
+  ) {
+    const indexedInHash = prevIndexedIn || {};
+    const keysOfIndexedIn = objectKeys<Record<string, V>>(indexedInHash);
 
-              return new AsyncOk({
-                collection:
-                  redisCollectionAndTransactionsGetteriZip[collectionIndex]
-                    .collection,
-                itemMetadata: JSON.parse(v),
-              });
-            }
-          );
+    return keysOfIndexedIn.reduce(
+      (accum, indexedInCollection) => {
+        const indexedByField = getByFieldName(indexedInCollection);
+        const prevIndexedValue = indexedInHash[indexedInCollection];
+        // A compound value changes when any of its fields does
+        const nextIndexedValue = getIndexedFieldValue(nextItem, indexedByField);
 
-          return AsyncResult.all(...results);
+        if (prevIndexedValue === nextIndexedValue) {
+          return accum;
         }
-      );
 
-      return await AsyncResult.all(...allResults)
-        .flatMap(
-          (resultsNestedArrayPerForeignCollection) =>
-            new Ok(
-              flatten(resultsNestedArrayPerForeignCollection) as {
-                collection: CollectionKey;
-                itemMetadata: CollectionItemMetadata<unknown, {}>;
-              }[]
-            )
-        )
-        .flatMap((flattenResults) => {
-          return this.resolveForeignItems(
-            flattenResults.map((fr) => fr.itemMetadata)
-          ).map((resolvedResults) => {
-            return resolvedResults.map((resolvedMetadata, i) => ({
-              collection: flattenResults[i].collection,
-              itemMetadata: resolvedMetadata,
-            }));
-          });
-        })
-        .flatMap((flattenResults) => {
-          const res = flattenResults.reduce(
-            (prev, next) => {
-              return {
-                ...prev,
-                [next.collection]: {
-                  ...prev[next.collection],
-                  [next.itemMetadata.id]: next.itemMetadata,
-                },
-              };
-            },
-            {} as {
-              [fCollection: string]: {
-                [fid: string]: CollectionItemMetadataReply<{}, {}>;
-              };
-            }
+        return [
+          ...accum,
+          {
+            indexedInCollection,
+            indexedByField,
+            nextValue: nextIndexedValue,
+            prevValue: prevIndexedValue,
+          },
+        ];
+      },
+      [] as {
+        indexedInCollection: string;
+        indexedByField: string;
+        prevValue: V;
+        nextValue: V;
+      }[]
+    );
+  }
+
+  removeCollection<K extends CollectionKey>(
+    collection: K
+  ): AsyncResult<void, StoreErrors> {
+    const nameSpacedCollection = this.toNamespacedCollection(collection);
+
+    return new AsyncResultWrapper<void, StoreErrors>(async () => {
+      if (this.atomicity === 'scripts') {
+        return this.runGuardedWrite<void>(async () => {
+          const removalPlanResult = await this.prepareCollectionRemoval(
+            collection
           );
 
-          return new Ok(res);
-        })
-        .map((foreignItemsMetadataByFCollectionAndFId) => {
-          return itemsMetadata.map((itemMetadata) => {
-            const itemForeignKeys = Object.keys(itemMetadata.foreignKeys || {});
+          if (!removalPlanResult.ok) {
+            return removalPlanResult;
+          }
 
-            const foreignItems = itemForeignKeys.reduce((prev, nextFk) => {
-              const foreignKeyObj = (
-                itemMetadata.foreignKeys as ForeignKeys<
-                  { [k: string]: any },
-                  {}
-                >
-              )[nextFk];
+          const removalPlan = removalPlanResult.val;
 
-              if (foreignKeyObj.type === 'oneToMany') {
-                const fids = Object.keys((itemMetadata.val as any)[nextFk]);
+          return new Ok({
+            // Nothing can get added to the collection in between either
+            guards: {
+              ...this.toRemovalPlanGuards(removalPlan),
+              lengths: [[nameSpacedCollection, removalPlan.length]],
+            },
+            withTransactions: (transactions) =>
+              this.withRemovalPlanTransactions(transactions, removalPlan).del(
+                nameSpacedCollection
+              ),
+            onWritten: async () => Ok.EMPTY,
+          });
+        });
+      }
 
-                const foreignItemsByIdInCollection = fids.reduce((p, fid) => {
-                  return {
-                    ...p,
-                    [fid]:
-                      foreignItemsMetadataByFCollectionAndFId[
-                        foreignKeyObj.collection
-                      ][fid],
-                  };
-                }, {} as CollectionItemMetadataReply<any, any>['foreignItems']);
+      // Holding the collection lock, so nothing gets added in between, along with the locks of
+      //  all the items it writes to, the same as for the removal of a single item
+      const lockedPlanResult = await this.lockRemovalPlan(
+        [{ collection }],
+        () => this.prepareCollectionRemoval(collection)
+      );
 
-                return {
-                  ...prev,
-                  oneToMany: {
-                    ...prev.oneToMany,
-                    [nextFk]: foreignItemsByIdInCollection,
-                  },
-                };
-              }
+      if (!lockedPlanResult.ok) {
+        return lockedPlanResult;
+      }
 
-              const fid = (itemMetadata.val as any)[nextFk];
+      const { removalPlan, unlock } = lockedPlanResult.val;
 
-              return {
-                ...prev,
-                oneToOne: {
-                  ...prev.oneToOne,
-                  [nextFk]:
-                    foreignItemsMetadataByFCollectionAndFId[
-                      foreignKeyObj.collection
-                    ][fid],
-                },
-              };
-            }, {} as CollectionItemMetadataReply<{}, {}>['foreignItems']);
+      try {
+        await this.redis.execMulti(
+          this.withRemovalPlanTransactions(this.redis.multi(), removalPlan).del(
+            nameSpacedCollection
+          )
+        );
 
-            return {
-              ...itemMetadata,
-              foreignItems,
-            } as unknown as CollectionItemMetadataReply<{}, {}>;
-          });
-        })
-        .resolve();
+        return Ok.EMPTY;
+      } catch (e) {
+        this.logger.error('[Store] RemoveCollection Error', {
+          collection,
+          error: e,
+        });
+
+        return new Err('CollectionDeletionFailure');
+      } finally {
+        unlock();
+      }
     });
   }
 
-  private getItemsInCollectionWithMetadata<
-    K extends CollectionKey,
-    T extends CollectionMap[K]
-  >(
-    collection: K,
-    ids: string[]
-  ): AsyncResult<CollectionItemMetadataReply<T, CollectionMap>[], StoreErrors> {
-    return this.getShallowItemsInCollectionWithMetadata(collection, ids)
-      .flatMap(
-        (itemsMetadata) =>
-          this.resolveForeignItems(itemsMetadata) as AsyncResult<
-            CollectionItemMetadataReply<T, CollectionMap>[],
-            StoreErrors
-          >
-      )
-      .mapErr(
-        AsyncResult.passThrough((error) => {
-          this.logger.error(`[Store] getItemsInCollectionWithMetadata`, {
-            collection,
-            error,
-          });
-        })
+  // Runs the checks of the removal of all the items in the collection and gives back its plan,
+  //  along with the number of fields the collection was read with
+  private async prepareCollectionRemoval(
+    collection: CollectionKey
+  ): Promise<
+    Result<
+      RemovalPlan<CollectionMap, CollectionKey> & { length: number },
+      StoreErrors
+    >
+  > {
+    let removalPlan: RemovalPlan<CollectionMap, CollectionKey>;
+    let length: number;
+
+    try {
+      const resultHash = await this.redis.hgetall(
+        this.toNamespacedCollection(collection)
       );
-  }
 
-  private getShallowItemsInCollectionWithMetadata<
-    K extends CollectionKey,
-    T extends CollectionMap[K]
-  >(
-    collection: K,
-    ids: string[]
-  ): AsyncResult<CollectionItemMetadata<T, CollectionMap>[], StoreErrors> {
-    if (ids.length === 0) {
-      return new AsyncOk([]);
+      length = Object.keys(resultHash || {}).length;
+
+      const itemsMetadata = Object.keys(resultHash || {})
+        .filter((k) => k[0] !== '_')
+        .map(
+          (collectionId) =>
+            JSON.parse(resultHash[collectionId]) as CollectionItemMetadata<
+              unknown,
+              CollectionMap
+            >
+        );
+
+      removalPlan = await this.getRemovalPlan(
+        itemsMetadata.map((metadata) => ({ collection, metadata }))
+      );
+    } catch (e) {
+      this.logger.error('[Store] RemoveCollection Error', {
+        collection,
+        error: e,
+      });
+
+      return new Err('CollectionDeletionFailure');
+    }
+
+    if (removalPlan.restrictedBy.length > 0) {
+      this.logger.error('[Store] RemoveCollection Restricted Error', {
+        collection,
+        referencedBy: removalPlan.restrictedBy,
+      });
+
+      return new Err({
+        type: 'CollectionDeletionRestricted',
+        referencedBy: removalPlan.restrictedBy,
+      });
     }
 
+    return new Ok({ ...removalPlan, length });
+  }
+
+  removeItemInCollection<K extends CollectionKey>(
+    collection: K,
+    id: string,
+    opts: {
+      // Fails with "CollectionVersionConflict" if the stored item is at a different version
+      expectedVersion?: number;
+    } = {}
+  ): AsyncResult<CollectionItemRemovalReply, StoreErrors> {
     const nameSpacedCollection = this.toNamespacedCollection(collection);
 
-    return new AsyncResultWrapper(async () => {
-      const redisReplies = await this.redis.hmget(
-        nameSpacedCollection,
-        ...ids.map((id) => toCollectionId(nameSpacedCollection, id))
-      );
+    return new AsyncResultWrapper<CollectionItemRemovalReply, StoreErrors>(
+      async () => {
+        if (this.atomicity === 'scripts') {
+          return this.removeItemWithScript(collection, id, opts);
+        }
 
-      const itemsMetadataResults = redisReplies.map((reply) => {
-        if (reply === null || reply === undefined) {
-          return new AsyncErr('CollectionFieldInexistent');
+        // Holding the locks of all the items it writes to, so no locked update can change
+        //  them (i.e. bump the version or reference the removed item again) in between
+        const lockedPlanResult = await this.lockRemovalPlan(
+          [{ collection, id }],
+          () => this.prepareItemRemoval(collection, id, opts)
+        );
+
+        if (!lockedPlanResult.ok) {
+          return lockedPlanResult;
         }
 
-        const metadata = JSON.parse(reply) as CollectionItemMetadata<
-          T,
-          CollectionMap
-        >;
+        const { removalPlan, unlock } = lockedPlanResult.val;
 
-        return new AsyncOk(metadata);
-      });
+        try {
+          const transactions = this.withRemovalPlanTransactions(
+            this.redis.multi(),
+            removalPlan
+          )
+            .hget(nameSpacedCollection, '_index')
+            .hlen(nameSpacedCollection);
 
-      return (await AsyncResult.all(
-        ...itemsMetadataResults
-      ).resolve()) as Result<
-        CollectionItemMetadata<T, CollectionMap>[],
-        StoreErrors
-      >;
-    }).mapErr(
-      AsyncResult.passThrough((error) => {
-        this.logger.error(
-          '[Store] getShallowItemsInCollectionWithMetadata Collection:',
-          {
-            collection,
-            ids,
-            error,
+          const res = await this.redis.execMulti(transactions);
+
+          if (res === null) {
+            return new Err('CollectionDeletionFailure');
           }
-        );
+
+          const next = {
+            index: Number(res[res.length - 2]),
+            length: Number(res[res.length - 1]) - 1, // remove the index key
+            item: undefined,
+          };
+
+          return new Ok(next);
+        } finally {
+          unlock();
+        }
+      }
+    ).map(
+      AsyncResult.passThrough((next) => {
+        this.logger.info('[Store] Item Removed', {
+          collection,
+          id,
+          length: next.length,
+        });
       })
     );
   }
 
-  getItemInCollection<K extends CollectionKey, T extends CollectionMap[K]>(
-    collection: K,
-    id: string
-  ): AsyncResult<T, StoreErrors> {
-    return this.getItemsInCollectionWithMetadata<K, T>(collection, [id]).map(
-      ([m]) => this.metadataReplyToCollectionItem(m)
-    );
+  // The plan is only known once read, so it gets computed again under the locks of the items
+  //  it writes to, taking them all again (in order) until they cover it
+  private async lockRemovalPlan(
+    targets: LockTarget<CollectionKey>[],
+    getRemovalPlan: () => Promise<
+      Result<RemovalPlan<CollectionMap, CollectionKey>, StoreErrors>
+    >
+  ): Promise<
+    Result<
+      {
+        removalPlan: RemovalPlan<CollectionMap, CollectionKey>;
+        unlock: Unlock;
+      },
+      StoreErrors
+    >
+  > {
+    let lockedTargets = targets;
+
+    while (true) {
+      const locksResult = await this.acquireLocks(lockedTargets);
+
+      if (!locksResult.ok) {
+        return locksResult;
+      }
+
+      const { unlock } = locksResult.val;
+      const removalPlanResult = await getRemovalPlan();
+
+      if (!removalPlanResult.ok) {
+        unlock();
+
+        return removalPlanResult;
+      }
+
+      const removalPlan = removalPlanResult.val;
+      const missingTargets = [
+        ...removalPlan.removals,
+        ...removalPlan.modifications,
+      ]
+        .map(({ collection, metadata }) => ({ collection, id: metadata.id }))
+        .filter(
+          (target) =>
+            !lockedTargets.some(
+              (lockedTarget) => compareLockTargets(lockedTarget, target) === 0
+            )
+        );
+
+      if (missingTargets.length === 0) {
+        return new Ok({ removalPlan, unlock });
+      }
+
+      unlock();
+      lockedTargets = [...lockedTargets, ...missingTargets];
+    }
   }
 
-  getItemInCollectionBy<
-    K extends CollectionKey,
-    T extends CollectionMap[K],
-    F extends OnlyKeysOfType<string | number, UnidentifiableModel<T>>
-  >(
-    collection: K,
-    byKey: F,
-    keyVal: string | number
-  ): AsyncResult<T, StoreErrors> {
-    const nameSpacedCollection = this.toNamespacedCollection(collection);
+  // Runs the checks of a removal and gives back the plan of all the writes it leads to
+  private async prepareItemRemoval(
+    collection: CollectionKey,
+    id: string,
+    opts: { expectedVersion?: number }
+  ): Promise<Result<RemovalPlan<CollectionMap, CollectionKey>, StoreErrors>> {
+    const itemBeforeRemoval =
+      await this.getShallowItemsInCollectionWithMetadata(collection, [
+        id,
+      ]).resolve();
+
+    if (!itemBeforeRemoval.ok) {
+      return new Err('CollectionFieldInexistent');
+    }
 
-    return new AsyncResultWrapper(async () => {
-      const referencedId = await this.redis.hget(
-        toIndexedCollectionName(nameSpacedCollection, String(byKey)),
-        String(keyVal)
+    const version = itemBeforeRemoval.val[0].version || 0;
+
+    if (
+      opts.expectedVersion !== undefined &&
+      version !== opts.expectedVersion
+    ) {
+      this.logger.error(
+        '[Store] RemoveItemInCollection Version Conflict Error',
+        {
+          collection,
+          id,
+          version,
+          expectedVersion: opts.expectedVersion,
+        }
       );
 
-      if (referencedId === null) {
-        return new Err('CollectionFieldInexistent');
-      }
+      return new Err('CollectionVersionConflict');
+    }
 
-      return (await this.getItemInCollection(
+    // Apply the onDelete policies of all the items referencing this one
+    const removalPlan = await this.getRemovalPlan([
+      { collection, metadata: itemBeforeRemoval.val[0] },
+    ]);
+
+    if (removalPlan.restrictedBy.length > 0) {
+      this.logger.error('[Store] RemoveItemInCollection Restricted Error', {
         collection,
-        referencedId
-      ).resolve()) as Result<T, StoreErrors>;
-    });
-  }
+        id,
+        referencedBy: removalPlan.restrictedBy,
+      });
 
-  private getIndexedItemReference<
-    K extends CollectionKey,
-    T extends CollectionMap[K],
-    F extends OnlyKeysOfType<string | number, UnidentifiableModel<T>>
-  >(
-    collection: K,
-    byKey: F,
-    keyVal: string | number
-  ): AsyncResult<string, void> {
-    const nameSpacedCollection = this.toNamespacedCollection(collection);
+      return new Err({
+        type: 'CollectionDeletionRestricted',
+        referencedBy: removalPlan.restrictedBy,
+      });
+    }
 
-    return new AsyncResultWrapper(async () => {
-      const referencedId = await this.redis.hget(
-        toIndexedCollectionName(nameSpacedCollection, String(byKey)),
-        String(keyVal)
+    return new Ok(removalPlan);
+  }
+
+  private removeItemWithScript(
+    collection: CollectionKey,
+    id: string,
+    opts: { expectedVersion?: number }
+  ): Promise<Result<CollectionItemRemovalReply, StoreErrors>> {
+    return this.runGuardedWrite<CollectionItemRemovalReply>(async () => {
+      const removalPlanResult = await this.prepareItemRemoval(
+        collection,
+        id,
+        opts
       );
 
-      if (referencedId === null) {
-        return Err.EMPTY;
+      if (!removalPlanResult.ok) {
+        return removalPlanResult;
       }
 
-      return new Ok(referencedId);
-    });
-  }
+      const removalPlan = removalPlanResult.val;
 
-  getItemsInCollection<K extends CollectionKey, T extends CollectionMap[K]>(
-    collection: K,
-    ids: string[]
-  ): AsyncResult<T[], StoreErrors> {
-    return this.getItemsInCollectionWithMetadata<K, T>(collection, ids).map(
-      (metadatas) => metadatas.map((m) => this.metadataReplyToCollectionItem(m))
-    );
+      return new Ok({
+        guards: this.toRemovalPlanGuards(removalPlan),
+        withTransactions: (transactions) =>
+          this.withRemovalPlanTransactions(transactions, removalPlan),
+        onWritten: () => this.getRemovalReply(collection),
+      });
+    }, opts.expectedVersion === undefined);
   }
 
-  private metadataReplyToCollectionItem<T>(
-    metadata: CollectionItemMetadataReply<T, CollectionMap>
-  ): T {
+  // The whole plan was computed from these versions and references
+  private toRemovalPlanGuards(
+    removalPlan: RemovalPlan<CollectionMap, CollectionKey>
+  ): WriteGuards {
     return {
-      ...metadata.val,
-      ...Object.keys(metadata.foreignItems.oneToMany || {}).reduce(
-        (prev, fk) => {
-          return {
-            ...prev,
-            [fk]: Object.keys(
-              (metadata.foreignItems.oneToMany || ({} as any))[fk]
-            ).reduce(
-              (p, fid) => ({
-                ...p,
-                [fid]: this.metadataReplyToCollectionItem(
-                  (metadata.foreignItems.oneToMany || ({} as any))[fk][fid]
-                ),
-              }),
-              {} as { [fid: string]: unknown }
-            ),
-          };
-        },
-        {} as CollectionItemMetadataReply<T, CollectionMap>['foreignItems']
-      ),
-      ...Object.keys(metadata.foreignItems.oneToOne || {}).reduce(
-        (prev, fk) => {
-          return {
-            ...prev,
-            [fk]: this.metadataReplyToCollectionItem(
-              (metadata.foreignItems.oneToOne || ({} as any))[fk]
-            ),
-          };
-        },
-        {} as CollectionItemMetadataReply<T, CollectionMap>['foreignItems']
+      items: [
+        ...removalPlan.removals.map(({ collection, metadata }) => ({
+          collection,
+          metadata,
+        })),
+        ...removalPlan.modifications.map(({ collection, prev }) => ({
+          collection,
+          metadata: prev,
+        })),
+      ].map(({ collection, metadata }): [string, string, number] => [
+        this.toNamespacedCollection(collection),
+        toCollectionId(collection, metadata.id),
+        metadata.version || 0,
+      ]),
+      uniqueValues: [],
+      existentItems: [],
+      references: removalPlan.references.map(
+        ({ referencedByCollection, members }): [string, string[]] => [
+          referencedByCollection,
+          members,
+        ]
       ),
-      id: metadata.id,
-    } as unknown as T;
+      lengths: [],
+    };
   }
 
-  getAllItemsInCollection<K extends CollectionKey, T extends CollectionMap[K]>(
-    collection: K
-  ): AsyncResult<T[], StoreErrors> {
+  // The index and the length the collection is left with after a removal
+  private async getRemovalReply(
+    collection: CollectionKey
+  ): Promise<Result<CollectionItemRemovalReply, StoreErrors>> {
     const nameSpacedCollection = this.toNamespacedCollection(collection);
+    const res = await this.redis.execMulti(
+      this.redis
+        .multi()
+        .hget(nameSpacedCollection, '_index')
+        .hlen(nameSpacedCollection)
+    );
 
-    return new AsyncResultWrapper(async () => {
-      const resultHash = await this.redis.hgetall(nameSpacedCollection);
+    if (res === null) {
+      return new Err('CollectionDeletionFailure');
+    }
 
-      if (!resultHash) {
-        return new Ok([]);
+    return new Ok({
+      index: Number(res[0]),
+      length: Number(res[1]) - 1, // remove the index key
+      item: undefined,
+    });
+  }
+
+  /**
+   * Removes all the items in a single MULTI, following the onDelete policies the same as for
+   *  a single removal. Every item gets its own Result, so the inexistent or restricted ones
+   *  don't prevent the rest from being removed.
+   */
+  removeItemsInCollection<K extends CollectionKey>(
+    collection: K,
+    ids: string[]
+  ): AsyncResult<
+    Result<CollectionItemRemovalReply, StoreErrors>[],
+    StoreErrors
+  > {
+    const nameSpacedCollection = this.toNamespacedCollection(collection);
+
+    return new AsyncResultWrapper<
+      Result<CollectionItemRemovalReply, StoreErrors>[],
+      StoreErrors
+    >(async () => {
+      const errors: (StoreErrors | undefined)[] = ids.map(() => undefined);
+      const getPending = () =>
+        ids.map((_, i) => i).filter((i) => errors[i] === undefined);
+
+      // The items get read (and the plan computed) again each time it's redone under more
+      //  locks, or once its guards failed
+      const prepareRemoval = async (): Promise<
+        Result<RemovalPlan<CollectionMap, CollectionKey>, StoreErrors>
+      > => {
+        ids.forEach((_, i) => {
+          errors[i] = undefined;
+        });
+
+        let removalPlan: RemovalPlan<CollectionMap, CollectionKey>;
+
+        const storedItems = await this.getStoredItemsMetadata(collection, ids);
+
+        // An id given more than once fails all but the first, the same as for the other batches
+        ids.forEach((id, i) => {
+          if (ids.indexOf(id) < i) {
+            errors[i] = 'CollectionItemIdDuplicate';
+          } else if (!storedItems[i]) {
+            errors[i] = 'CollectionFieldInexistent';
+          }
+        });
+
+        // Leaving a restricted item out can get the ones it referenced restricted in turn,
+        //  so the plan gets redone until none is left restricted
+        let restrictedPositions: number[];
+
+        do {
+          const pending = getPending();
+
+          removalPlan = await this.getRemovalPlan(
+            pending.map((i) => ({
+              collection,
+              metadata: storedItems[i] as CollectionItemMetadata<
+                unknown,
+                CollectionMap
+              >,
+            }))
+          );
+
+          const { restrictedByPerItem } = removalPlan;
+
+          restrictedPositions = pending.filter(
+            (i) => restrictedByPerItem[JSON.stringify([collection, ids[i]])]
+          );
+
+          restrictedPositions.forEach((i) => {
+            errors[i] = {
+              type: 'CollectionDeletionRestricted',
+              referencedBy:
+                restrictedByPerItem[JSON.stringify([collection, ids[i]])],
+            };
+          });
+        } while (restrictedPositions.length > 0);
+
+        return new Ok(removalPlan);
+      };
+
+      const toResults = (next: CollectionItemRemovalReply) => {
+        const failedPositions = ids
+          .map((_, i) => i)
+          .filter((i) => errors[i] !== undefined);
+
+        if (failedPositions.length > 0) {
+          this.logger.error('[Store] RemoveItemsInCollection Items Failed', {
+            collection,
+            failed: failedPositions.map((i) => ({
+              id: ids[i],
+              error: errors[i],
+            })),
+          });
+        }
+
+        return ids.map(
+          (_, i): Result<CollectionItemRemovalReply, StoreErrors> => {
+            const error = errors[i];
+
+            return error !== undefined ? new Err(error) : new Ok(next);
+          }
+        );
+      };
+
+      if (this.atomicity === 'scripts') {
+        return this.runGuardedWrite(async () => {
+          const removalPlanResult = await prepareRemoval();
+
+          if (!removalPlanResult.ok) {
+            return removalPlanResult;
+          }
+
+          const removalPlan = removalPlanResult.val;
+
+          return new Ok({
+            guards: this.toRemovalPlanGuards(removalPlan),
+            withTransactions: (transactions) =>
+              this.withRemovalPlanTransactions(transactions, removalPlan),
+            onWritten: async () =>
+              (await this.getRemovalReply(collection)).map(toResults),
+          });
+        });
       }
 
-      const itemsMetadata = Object.keys(resultHash)
-        .filter((k) => k[0] !== '_')
-        .map(
-          (collectionId) =>
-            JSON.parse(resultHash[collectionId]) as CollectionItemMetadata<
-              T,
-              CollectionMap
-            >
+      const lockedPlanResult = await this.lockRemovalPlan(
+        ids
+          .filter((id, i) => ids.indexOf(id) === i)
+          .map((id) => ({ collection, id })),
+        prepareRemoval
+      );
+
+      if (!lockedPlanResult.ok) {
+        return lockedPlanResult;
+      }
+
+      const { removalPlan, unlock } = lockedPlanResult.val;
+
+      try {
+        const res = await this.redis.execMulti(
+          this.withRemovalPlanTransactions(this.redis.multi(), removalPlan)
+            .hget(nameSpacedCollection, '_index')
+            .hlen(nameSpacedCollection)
+        );
+
+        if (res === null) {
+          return new Err('CollectionDeletionFailure');
+        }
+
+        return new Ok(
+          toResults({
+            index: Number(res[res.length - 2]),
+            length: Number(res[res.length - 1]) - 1, // remove the index key
+            item: undefined,
+          })
         );
+      } finally {
+        unlock();
+      }
+    }).map(
+      AsyncResult.passThrough((results) => {
+        this.logger.info('[Store] Items Removed', {
+          collection,
+          removed: results.filter((result) => result.ok).length,
+          failed: results.filter((result) => !result.ok).length,
+        });
+      })
+    );
+  }
+
+  /**
+   * Walks the references to the items about to be removed, following the onDelete policies
+   *  of the referencing items, down to the items that get cascaded as well.
+   */
+  private async getRemovalPlan(
+    itemsToRemove: CollectionItemMetadataWithCollection<
+      CollectionMap,
+      CollectionKey
+    >[]
+  ): Promise<RemovalPlan<CollectionMap, CollectionKey>> {
+    const toKey = (collection: string, id: string) =>
+      JSON.stringify([collection, id]);
+
+    const removals: {
+      [key: string]: CollectionItemMetadataWithCollection<
+        CollectionMap,
+        CollectionKey
+      >;
+    } = {};
+    const modifications: {
+      [key: string]: CollectionItemMetadataWithCollection<
+        CollectionMap,
+        CollectionKey
+      > & {
+        prev: CollectionItemMetadata<unknown, CollectionMap>;
+      };
+    } = {};
+    let restrictedBy: (CollectionItemReference & { itemKey: string })[] = [];
+    const readReferences: RemovalPlan<
+      CollectionMap,
+      CollectionKey
+    >['references'] = [];
+    // The given item each removal originates from, through the cascades
+    const itemKeys: { [key: string]: string } = {};
+
+    itemsToRemove.forEach((item) => {
+      const key = toKey(item.collection, item.metadata.id);
+
+      removals[key] = item;
+      itemKeys[key] = key;
+    });
 
-      return (await this.resolveForeignItems(itemsMetadata)
-        .map((allMetadatas) =>
-          allMetadatas.map((m) => this.metadataReplyToCollectionItem(m))
+    let queue = itemsToRemove;
+
+    while (queue.length > 0) {
+      const referencedByCollections = queue.map(({ collection, metadata }) =>
+        toReferencedByCollectionName(
+          this.toNamespacedCollection(collection),
+          metadata.id
         )
-        .resolve()) as Result<T[], StoreErrors>;
-    });
-  }
+      );
 
-  // getItemInCollectionBy<
-  //   K extends CollectionKey,
-  //   T extends CollectionMap[K],
-  //   F extends OnlyKeysOfType<string | number, UnidentifiableModel<T>>
-  // >(collection: K, byKey: F, keyVal: string | number): AsyncResult<T, StoreErrors> {
-  //   return new AsyncResultWrapper(async () => {
-  //     const referencedId = await this.redis.hget(
-  //       toIndexedCollectionName(collection, String(byKey)),
-  //       String(keyVal)
-  //     );
+      const referencesPerItem = await this.redis.execMulti<string[]>(
+        referencedByCollections.reduce(
+          (prev, referencedByCollection) =>
+            prev.smembers(referencedByCollection),
+          this.redis.multi()
+        )
+      );
 
-  //     if (referencedId === null) {
-  //       return new Err('CollectionOrFieldInexistent');
-  //     }
+      referencedByCollections.forEach((referencedByCollection, i) => {
+        readReferences.push({
+          referencedByCollection,
+          members: referencesPerItem[i] || [],
+        });
+      });
 
-  //     return (await this.getItemInCollection(collection, referencedId).resolve()) as Result<
-  //       T,
-  //       StoreErrors
-  //     >;
-  //   });
-  // }
+      const references = (
+        flatten(
+          queue.map(({ collection, metadata }, i) =>
+            (referencesPerItem[i] || []).map((member) => ({
+              removedId: metadata.id,
+              itemKey: itemKeys[toKey(collection, metadata.id)],
+              reference: fromReferenceMember(member),
+            }))
+          )
+        ) as {
+          removedId: string;
+          itemKey: string;
+          reference: CollectionItemReference;
+        }[]
+      ).filter(
+        ({ reference }) => !removals[toKey(reference.collection, reference.id)]
+      );
 
-  // getAllItemsInCollectionBy<
-  //   K extends CollectionKey,
-  //   T extends CollectionMap[K],
-  //   F extends OnlyKeysOfType<string | number, UnidentifiableModel<T>>
-  // >(
-  //   collection: K,
-  //   byKey: F
-  //   // keyVal: string | number
-  // ): AsyncResult<T[], StoreErrors> {
-  //   return new AsyncResultWrapper(async () => {
-  //     console.debug('getAllItemsInCollectionBy started');
+      const referencesToLoad = references.filter(
+        ({ reference }) =>
+          !modifications[toKey(reference.collection, reference.id)]
+      );
 
-  //     const indexCollection = toIndexedCollectionName(collection, String(byKey));
-  //     const referencedIds = await this.redis.hgetall(
-  //       indexCollection
-  //     );
+      const loadedReplies =
+        referencesToLoad.length > 0
+          ? await this.redis.execMulti<string | null>(
+              referencesToLoad.reduce(
+                (prev, { reference }) =>
+                  prev.hget(
+                    this.toNamespacedCollection(
+                      reference.collection as CollectionKey
+                    ),
+                    toCollectionId(reference.collection, reference.id)
+                  ),
+                this.redis.multi()
+              )
+            )
+          : [];
 
-  //     console.debug('indexCollection', indexCollection);
-  //     console.debug('referencedIds', referencedIds);
+      const loadedByKey = referencesToLoad.reduce((prev, { reference }, i) => {
+        const reply = loadedReplies[i];
 
-  //     if (referencedIds === null) {
-  //       return new Err('CollectionOrFieldInexistent');
-  //     }
+        if (reply === null || reply === undefined) {
+          return prev;
+        }
 
-  //     return new Ok(referencedIds);
+        return {
+          ...prev,
+          [toKey(reference.collection, reference.id)]: JSON.parse(reply),
+        };
+      }, {} as { [key: string]: CollectionItemMetadata<unknown, CollectionMap> });
 
-  //     // if (referencedId === null) {
-  //     //   return new Err('CollectionOrFieldInexistent');
-  //     // }
+      const nextQueue: CollectionItemMetadataWithCollection<
+        CollectionMap,
+        CollectionKey
+      >[] = [];
 
-  //     // return (await this.getItemInCollection(collection, referencedId).resolve()) as Result<
-  //     //   T,
-  //     //   StoreErrors
-  //     // >;
-  //   });
-  //   // return this.getAllItemsInCollection('')
-  //   // return this.getItemsInCollectionWithMetadata<K, T>(collection, ids).map((metadatas) =>
-  //   //   metadatas.map((m) => this.metadataReplyToCollectionItem(m))
-  //   // );
-  // }
+      references.forEach(({ removedId, itemKey, reference }) => {
+        const key = toKey(reference.collection, reference.id);
 
-  isItemInCollection<K extends CollectionKey>(
-    collection: K,
-    id: string
-  ): AsyncResult<boolean, never> {
-    return this.getShallowItemsInCollectionWithMetadata<K, any>(collection, [
-      id,
-    ])
-      .map(() => true)
-      .flatMapErr(() => new Ok(false));
-  }
+        // Already cascaded by a previous reference
+        if (removals[key]) {
+          return;
+        }
 
-  isItemInCollectionBy<
-    K extends CollectionKey,
-    T extends CollectionMap[K],
-    F extends OnlyKeysOfType<string | number, UnidentifiableModel<T>>
-  >(
-    collection: K,
-    byKey: F,
-    keyVal: string | number
-  ): AsyncResult<boolean, never> {
-    const nameSpacedCollection = this.toNamespacedCollection(collection);
+        const referencing = modifications[key]?.metadata || loadedByKey[key];
 
-    return new AsyncResultWrapper<string, void>(async () => {
-      const referencedId = await this.redis.hget(
-        toIndexedCollectionName(nameSpacedCollection, String(byKey)),
-        String(keyVal)
-      );
+        // A dangling reference has nothing to apply the policy to
+        if (!referencing) {
+          return;
+        }
 
-      if (referencedId === null) {
-        return Err.EMPTY;
-      }
+        const foreignKeyObj = (
+          (referencing.foreignKeys || {}) as ForeignKeys<
+            { [k: string]: any },
+            {}
+          >
+        )[reference.field];
 
-      return new Ok(referencedId);
-    })
-      .flatMap((id) => this.isItemInCollection(collection, id))
-      .flatMapErr(() => new Ok(false));
-  }
+        if (!foreignKeyObj || !foreignKeyObj.onDelete) {
+          return;
+        }
 
-  updateItemInCollection<
-    K extends CollectionKey,
-    T extends CollectionMap[K],
-    FKs extends ForeignKeys<T, CollectionMap>
-  >(
-    collection: K,
-    id: string,
-    itemModelGetter: UpdateableCollectionPropsGetter<T>,
-    opts: {
-      foreignKeys: FKs;
-    }
-  ): AsyncResult<T, StoreErrors> {
-    const nameSpacedCollection = this.toNamespacedCollection(collection);
+        const referencingCollection = reference.collection as CollectionKey;
 
-    return new AsyncResultWrapper(async () => {
-      const unlock = await this.lockCollectionItem(collection, id);
+        if (foreignKeyObj.onDelete === 'restrict') {
+          restrictedBy = [...restrictedBy, { ...reference, itemKey }];
 
-      return (
-        this.getShallowItemsInCollectionWithMetadata(collection, [id])
-          .flatMap(([prev]) => {
-            if (!deepEqual(opts.foreignKeys || {}, prev.foreignKeys || {})) {
-              this.logger.error(
-                '[Store] UpdateItemInCollection ForeignKeys Mismatch Error',
-                {
-                  forCollection: collection,
-                  itemId: id,
-                  prevForeignKeys: prev.foreignKeys,
-                  nextForeignKeys: opts.foreignKeys,
-                }
-              );
-              return new Err(
-                'CollectionUpdateFailure:MismatchingForeignKeys' as const
-              );
-            }
+          return;
+        }
 
-            return new Ok(prev);
-          })
-          .flatMap(
-            (prev) =>
-              new AsyncResultWrapper(async () => {
-                const unresolvedItemModel =
-                  typeof itemModelGetter === 'function'
-                    ? itemModelGetter(
-                        prev.val as unknown as CollectionItemWithoutForeignKeys<
-                          UnidentifiableModel<T>
-                        >
-                      )
-                    : itemModelGetter;
-
-                const itemModelAsAsyncResult = AsyncResult.isAsyncResult(
-                  unresolvedItemModel
-                )
-                  ? unresolvedItemModel
-                  : new AsyncOk(unresolvedItemModel);
+        if (foreignKeyObj.onDelete === 'cascade') {
+          const item = {
+            collection: referencingCollection,
+            // The cleanup needs the item as it's currently stored
+            metadata: modifications[key]?.prev || referencing,
+          };
 
-                const itemModelResult = await itemModelAsAsyncResult.resolve();
+          removals[key] = item;
+          itemKeys[key] = itemKey;
+          delete modifications[key];
+          nextQueue.push(item);
 
-                if (!itemModelResult.ok) {
-                  return new Err('CollectionUpdateFailure');
-                }
+          return;
+        }
 
-                const itemModel = itemModelResult.val;
-
-                const { id: removedId, ...itemModelWithoutId } =
-                  itemModel as unknown as T;
-                const nextItem = {
-                  ...prev.val,
-                  ...itemModelWithoutId,
-                } as unknown as T;
-
-                let transactions = this.redis.multi();
-
-                const indexByCollectionWithUpdatedValueRecords =
-                  this.getIndexedInValueRecords(prev, nextItem);
-
-                if (indexByCollectionWithUpdatedValueRecords.length > 0) {
-                  // If the indexBy value changed in this update, update the indexBy Collections as well
-                  //  by removing the old and adding the new
-                  transactions =
-                    indexByCollectionWithUpdatedValueRecords.reduce(
-                      (prev, record) =>
-                        prev
-                          .hset(record.indexedInCollection, [
-                            record.nextValue,
-                            id,
-                          ])
-                          .hdel(record.indexedInCollection, record.prevValue),
-                      transactions
-                    );
-                }
+        // The "setNull" and "removeFromMany" policies
+        const prevFieldVal = (referencing.val as any)[reference.field];
+        const { [removedId]: removedFid, ...nextFieldValForMany } =
+          prevFieldVal || {};
+
+        const prevMetadata = modifications[key]?.prev || referencing;
+
+        modifications[key] = {
+          collection: referencingCollection,
+          prev: prevMetadata,
+          metadata: {
+            ...referencing,
+            version: (prevMetadata.version || 0) + 1,
+            val: {
+              ...referencing.val,
+              [reference.field]:
+                foreignKeyObj.type === 'oneToMany' ? nextFieldValForMany : null,
+            },
+          },
+        };
+      });
 
-                const nextItemWithMetadata: CollectionItemMetadata<
-                  T,
-                  CollectionMap
-                > = {
-                  val: nextItem as any,
-                  id: prev.id,
-                  ...(prev.foreignKeys && {
-                    foreignKeys: prev.foreignKeys as CollectionItemMetadata<
-                      T,
-                      CollectionMap
-                    >['foreignKeys'],
-                  }),
-                  ...(prev.indexedIn && {
-                    indexedIn: indexByCollectionWithUpdatedValueRecords.reduce(
-                      (accum, nextRecord) => ({
-                        ...accum,
-                        [nextRecord.indexedInCollection]: nextRecord.nextValue,
-                      }),
-                      prev.indexedIn
-                    ),
-                  }),
-                };
+      queue = nextQueue;
+    }
 
-                const payload = JSON.stringify(nextItemWithMetadata);
-                const field = toCollectionId(nameSpacedCollection, id);
+    // The ones cascaded anyway don't restrict anymore
+    const remainingRestrictedBy = restrictedBy.filter(
+      (reference) => !removals[toKey(reference.collection, reference.id)]
+    );
 
-                transactions = transactions.hset(nameSpacedCollection, [
-                  field,
-                  payload,
-                ]);
+    return {
+      removals: Object.keys(removals).map((key) => removals[key]),
+      modifications: Object.keys(modifications).map(
+        (key) => modifications[key]
+      ),
+      restrictedBy: remainingRestrictedBy.map(
+        ({ itemKey, ...reference }) => reference
+      ),
+      restrictedByPerItem: remainingRestrictedBy.reduce(
+        (prev, { itemKey, ...reference }) => ({
+          ...prev,
+          [itemKey]: [...(prev[itemKey] || []), reference],
+        }),
+        {} as RemovalPlan<CollectionMap, CollectionKey>['restrictedByPerItem']
+      ),
+      references: readReferences,
+    };
+  }
 
-                const res = await this.redis.execMulti(transactions);
+  private withRemovalPlanTransactions(
+    transactions: RedisMulti,
+    removalPlan: RemovalPlan<CollectionMap, CollectionKey>
+  ) {
+    const transactionsWithModifications = removalPlan.modifications.reduce(
+      (prev, { collection, prev: prevMetadata, metadata }) =>
+        this.withOutgoingReferencesDiffTransactions(
+          prev,
+          collection,
+          prevMetadata,
+          metadata
+        ).hset(this.toNamespacedCollection(collection), [
+          toCollectionId(collection, metadata.id),
+          JSON.stringify(metadata),
+        ]),
+      transactions
+    );
 
-                if (res === null) {
-                  return new Err('CollectionUpdateFailure');
-                }
+    return removalPlan.removals.reduce(
+      (prev, { collection, metadata }) =>
+        this.withItemRemovalTransactions(prev, collection, metadata),
+      transactionsWithModifications
+    );
+  }
 
-                // TODO: Add an optimization to only run another query if there are foreign keys
-                //  or if the foregin keys have been updated not if there are no modification to that
-                //  since this could be pretty expensive
-                // But on the other hand it could also be ok since data will be always fresh!
-                // if (nextItemWithMetadata.foreignKeys && ) {}
+  private withItemRemovalTransactions(
+    transactions: RedisMulti,
+    collection: CollectionKey,
+    itemMetadata: CollectionItemMetadata<unknown, CollectionMap>
+  ) {
+    const nameSpacedCollection = this.toNamespacedCollection(collection);
 
-                // Run another query so the all the foreign references work
-                return await this.getItemInCollection<K, T>(
-                  collection,
-                  id
-                ).resolve();
-              })
-          )
-          .map(
-            AsyncResult.passThrough((nextItem) => {
-              this.logger.info('[Store] Item Updated', {
-                collection,
-                id: nextItem.id,
-              });
-            })
-          )
-          .resolve()
-          // Finally Unlock the resource
-          .finally(unlock)
+    return this.withItemIndexesRemovalTransactions(
+      transactions,
+      collection,
+      itemMetadata
+    )
+      .del(toReferencedByCollectionName(nameSpacedCollection, itemMetadata.id))
+      .zrem(
+        toInsertionOrderedCollectionName(nameSpacedCollection),
+        itemMetadata.id
+      )
+      .hdel(
+        nameSpacedCollection,
+        toCollectionId(nameSpacedCollection, itemMetadata.id)
       );
-    });
   }
 
-  private getIndexedInValueRecords<
-    K extends CollectionKey,
-    T extends CollectionMap[K]
-  >(
-    prevItemWithMetadata: CollectionItemMetadata<T, CollectionMap>,
-    nextItem: T
+  // Leaves the item itself and the references to it in place
+  private withItemIndexesRemovalTransactions(
+    transactions: RedisMulti,
+    collection: CollectionKey,
+    itemMetadata: CollectionItemMetadata<unknown, CollectionMap>
   ) {
-    const indexedInHash = prevItemWithMetadata.indexedIn || {};
-    const keysOfIndexedIn = objectKeys<Record<string, string>>(indexedInHash);
+    const transactionsWithIndexes = Object.keys(
+      itemMetadata.indexedIn || {}
+    ).reduce((prev, indexedInCollection) => {
+      const indexedValue = itemMetadata.indexedIn?.[indexedInCollection];
 
-    return keysOfIndexedIn.reduce(
-      (accum, indexedInCollection) => {
-        const indexedByField =
-          getByFieldNameFromIndexedCollection(indexedInCollection);
-        const prevIndexedValue = indexedInHash[indexedInCollection];
-        const nextIndexedValue = (nextItem as any)[indexedByField];
+      if (!indexedValue) {
+        return prev;
+      }
 
-        if (prevIndexedValue === nextIndexedValue) {
-          return accum;
-        }
+      return prev.hdel(indexedInCollection, indexedValue);
+    }, transactions);
+
+    const transactionsWithMultiIndexes = Object.keys(
+      itemMetadata.multiIndexedIn || {}
+    ).reduce(
+      (prev, multiIndexedInCollection) =>
+        prev.srem(
+          toMultiIndexedCollectionValueSet(
+            multiIndexedInCollection,
+            itemMetadata.multiIndexedIn?.[multiIndexedInCollection] as string
+          ),
+          itemMetadata.id
+        ),
+      transactionsWithIndexes
+    );
 
-        return [
-          ...accum,
-          {
-            indexedInCollection,
-            indexedByField,
-            nextValue: nextIndexedValue,
-            prevValue: prevIndexedValue,
-          },
-        ];
-      },
-      [] as {
-        indexedInCollection: string;
-        indexedByField: string;
-        prevValue: string;
-        nextValue: string;
-      }[]
+    const transactionsWithRangeIndexes = Object.keys(
+      itemMetadata.rangeIndexedIn || {}
+    ).reduce(
+      (prev, rangeIndexedInCollection) =>
+        prev.zrem(rangeIndexedInCollection, itemMetadata.id),
+      transactionsWithMultiIndexes
+    );
+
+    return this.getOutgoingReferences(collection, itemMetadata).reduce(
+      (prev, reference) =>
+        prev.srem(reference.referencedByCollection, reference.member),
+      transactionsWithRangeIndexes
     );
   }
 
-  removeCollection<K extends CollectionKey>(
-    collection: K
-  ): AsyncResult<void, StoreErrors> {
-    const nameSpacedCollection = this.toNamespacedCollection(collection);
+  private getOutgoingReferences<K extends CollectionKey>(
+    collection: K,
+    itemMetadata: Pick<
+      CollectionItemMetadata<unknown, CollectionMap>,
+      'id' | 'val' | 'foreignKeys'
+    >
+  ) {
+    const foreignKeys = (itemMetadata.foreignKeys || {}) as ForeignKeys<
+      { [k: string]: any },
+      {}
+    >;
+
+    return Object.keys(foreignKeys).reduce((prev, field) => {
+      const foreignKeyObj = foreignKeys[field];
+      const fieldVal = (itemMetadata.val as any)[field];
+
+      const fids =
+        foreignKeyObj.type === 'oneToMany'
+          ? Object.keys(fieldVal || {})
+          : fieldVal === null || fieldVal === undefined
+          ? []
+          : [String(fieldVal)];
+
+      return [
+        ...prev,
+        ...fids.map((fid) => ({
+          referencedByCollection: toReferencedByCollectionName(
+            this.toNamespacedCollection(
+              foreignKeyObj.collection as CollectionKey
+            ),
+            fid
+          ),
+          member: toReferenceMember({ collection, field, id: itemMetadata.id }),
+        })),
+      ];
+    }, [] as { referencedByCollection: string; member: string }[]);
+  }
 
-    return new AsyncResultWrapper(async () => {
-      try {
-        await this.redis.del(nameSpacedCollection);
+  private withOutgoingReferencesDiffTransactions<K extends CollectionKey>(
+    transactions: RedisMulti,
+    collection: K,
+    prevItemMetadata: CollectionItemMetadata<unknown, CollectionMap>,
+    nextItemMetadata: CollectionItemMetadata<unknown, CollectionMap>
+  ) {
+    const toKey = (reference: {
+      referencedByCollection: string;
+      member: string;
+    }) => `${reference.referencedByCollection} ${reference.member}`;
+
+    const prevReferences = this.getOutgoingReferences(
+      collection,
+      prevItemMetadata
+    );
+    const nextReferences = this.getOutgoingReferences(
+      collection,
+      nextItemMetadata
+    );
 
-        return Ok.EMPTY;
-      } catch (e) {
-        return new Err('CollectionDeletionFailure');
-      }
-    });
+    const prevReferenceKeys = prevReferences.map(toKey);
+    const nextReferenceKeys = nextReferences.map(toKey);
+
+    const transactionsWithRemovedReferences = prevReferences
+      .filter((reference) => nextReferenceKeys.indexOf(toKey(reference)) === -1)
+      .reduce(
+        (prev, reference) =>
+          prev.srem(reference.referencedByCollection, reference.member),
+        transactions
+      );
+
+    return nextReferences
+      .filter((reference) => prevReferenceKeys.indexOf(toKey(reference)) === -1)
+      .reduce(
+        (prev, reference) =>
+          prev.sadd(reference.referencedByCollection, reference.member),
+        transactionsWithRemovedReferences
+      );
   }
 
-  removeItemInCollection<K extends CollectionKey>(
-    collection: K,
-    id: string
-  ): AsyncResult<CollectionItemRemovalReply, StoreErrors> {
+  /**
+   * Adds the references of all the items in the collection to the referencedBy sets of the
+   *  items they point to, which the onDelete policies get applied through. Meant to be run
+   *  once for each referencing collection stored before these sets were kept.
+   */
+  rebuildCollectionReferences<K extends CollectionKey>(
+    collection: K
+  ): AsyncResult<number, StoreErrors> {
     const nameSpacedCollection = this.toNamespacedCollection(collection);
 
-    return new AsyncResultWrapper<CollectionItemRemovalReply, StoreErrors>(
-      async () => {
-        const itemBeforeRemoval =
-          await this.getShallowItemsInCollectionWithMetadata(collection, [
+    return new AsyncResultWrapper<number, StoreErrors>(async () => {
+      const ids = Object.keys(
+        (await this.redis.hgetall(nameSpacedCollection)) || {}
+      ).filter((k) => k[0] !== '_');
+
+      let rebuilt = 0;
+
+      // One item at a time, holding its lock so its references don't change in between
+      for (const id of ids) {
+        const lockResult = await this.acquireCollectionItemLock(
+          collection,
+          id
+        ).resolve();
+
+        if (!lockResult.ok) {
+          return lockResult;
+        }
+
+        try {
+          const [metadata] = await this.getStoredItemsMetadata(collection, [
             id,
-          ]).resolve();
+          ]);
+
+          const references = metadata
+            ? this.getOutgoingReferences(collection, metadata)
+            : [];
+
+          if (references.length > 0) {
+            await this.redis.execMulti(
+              references.reduce(
+                (prev, reference) =>
+                  prev.sadd(reference.referencedByCollection, reference.member),
+                this.redis.multi()
+              )
+            );
+          }
 
-        if (!itemBeforeRemoval.ok) {
-          return new Err('CollectionFieldInexistent');
+          rebuilt += references.length;
+        } finally {
+          lockResult.val();
         }
+      }
 
-        const field = toCollectionId(nameSpacedCollection, id);
+      this.logger.info('[Store] Collection References Rebuilt', {
+        collection,
+        references: rebuilt,
+      });
 
-        const transactions = this.redis
-          .multi()
-          .hdel(nameSpacedCollection, field)
-          .hget(nameSpacedCollection, '_index')
-          .hlen(nameSpacedCollection);
+      return new Ok(rebuilt);
+    });
+  }
 
-        const res = await this.redis.execMulti(transactions);
+  /**
+   * Adds the items stored before the insertion order was kept to it, ahead of the ones added
+   *  since, in the order given by compare (their foreign keys left as ids). By default the
+   *  sequential ids, which were their indexes, go first and the others follow by id. Meant to
+   *  be run once for each collection stored before the order was kept.
+   */
+  rebuildInsertionOrder<K extends CollectionKey, T extends CollectionMap[K]>(
+    collection: K,
+    compare: (a: T, b: T) => number = compareByInsertionId
+  ): AsyncResult<number, StoreErrors> {
+    const nameSpacedCollection = this.toNamespacedCollection(collection);
+    const insertionOrderedCollection =
+      toInsertionOrderedCollectionName(nameSpacedCollection);
 
-        if (res === null) {
-          return new Err('CollectionDeletionFailure');
-        }
+    return new AsyncResultWrapper<number, StoreErrors>(async () => {
+      try {
+        const resultHash =
+          (await this.redis.hgetall(nameSpacedCollection)) || {};
+        const ids = Object.keys(resultHash).filter((k) => k[0] !== '_');
+        const scores =
+          (await this.redis.execMulti<string | null>(
+            ids.reduce(
+              (prev, id) => prev.zscore(insertionOrderedCollection, id),
+              this.redis.multi()
+            )
+          )) || [];
 
-        // const parsedRemovedItem = JSON.parse(res[0] as string) as CollectionItemMetadata<CollectionMap[K], CollectionMap>;
-        const parsedRemovedItem = itemBeforeRemoval.val[0];
+        const missing = ids
+          .filter((_, i) => scores[i] === null || scores[i] === undefined)
+          .map((id) => {
+            const { val } = JSON.parse(
+              resultHash[id]
+            ) as CollectionItemMetadata<T, CollectionMap>;
 
-        const indexByCollectionWithValuesZip = Object.keys(
-          parsedRemovedItem.indexedIn || {}
-        ).reduce((prev, nextIndexedInCollection) => {
-          const indexedByField =
-            parsedRemovedItem.indexedIn?.[nextIndexedInCollection];
+            return { ...val, id } as T;
+          })
+          .sort(compare);
 
-          if (!indexedByField) {
-            return prev;
-          }
+        if (missing.length === 0) {
+          return new Ok(0);
+        }
 
-          return [...prev, [nextIndexedInCollection, indexedByField]] as [
-            string,
-            string
-          ][];
-        }, [] as [string, string][]);
-
-        if (indexByCollectionWithValuesZip.length > 0) {
-          const indexByRemovalTransactions =
-            indexByCollectionWithValuesZip.reduce(
-              (prev, [indexedInCollection, indexByField]) =>
-                prev.hdel(indexedInCollection, indexByField),
+        // Below the indexes of the ones added since, which start at 1. NX leaves the ones
+        //  added in between
+        await this.redis.execMulti(
+          missing.reduce(
+            (prev, item, i) =>
+              prev.zadd(
+                insertionOrderedCollection,
+                'NX',
+                i - missing.length,
+                item.id
+              ),
+            this.redis.multi()
+          )
+        );
+
+        // The ones removed in between were already taken out of the order
+        const stillStored =
+          (await this.redis.execMulti<number>(
+            missing.reduce(
+              (prev, item) => prev.hexists(nameSpacedCollection, item.id),
               this.redis.multi()
-            );
+            )
+          )) || [];
+        const removed = missing.filter((_, i) => !Number(stillStored[i]));
 
-          await this.redis.execMulti(indexByRemovalTransactions);
+        if (removed.length > 0) {
+          await this.redis.execMulti(
+            removed.reduce(
+              (prev, item) => prev.zrem(insertionOrderedCollection, item.id),
+              this.redis.multi()
+            )
+          );
         }
 
-        const next = {
-          index: Number(res[1]),
-          length: Number(res[2]) - 1, // remove the index key
-          item: undefined,
-        };
+        this.logger.info('[Store] Insertion Order Rebuilt', {
+          collection,
+          items: missing.length - removed.length,
+        });
 
-        return new Ok(next);
-      }
-    ).map(
-      AsyncResult.passThrough((next) => {
-        this.logger.info('[Store] Item Removed', {
+        return new Ok(missing.length - removed.length);
+      } catch (e) {
+        this.logger.error('[Store] RebuildInsertionOrder Error', {
           collection,
-          id,
-          length: next.length,
+          error: e,
         });
-      })
-    );
+
+        return new Err('GenericRedisFailure');
+      }
+    });
   }
 
   removeItemInCollectionBy<
     K extends CollectionKey,
     T extends CollectionMap[K],
-    F extends OnlyKeysOfType<string | number, UnidentifiableModel<T>>
+    F extends PathsOfType<string | number, UnidentifiableModel<T>>
   >(
     collection: K,
     byKey: F,
     keyVal: string | number
   ): AsyncResult<CollectionItemRemovalReply, StoreErrors> {
     return this.getIndexedItemReference<K, T, F>(collection, byKey, keyVal)
-      .flatMap((id) => this.removeItemInCollection(collection, id))
-      .flatMapErr(() => new Err('CollectionFieldInexistent'));
+      .mapErr(() => 'CollectionFieldInexistent' as const)
+      .flatMap((id) => this.removeItemInCollection(collection, id));
   }
 
   enqueue<Q extends QueueKey, T extends QueueMap[Q]>(
@@ -1148,6 +5525,778 @@ export class Store<
     });
   }
 
+  /**
+   * Runs the given operations as a whole. Their writes get staged as they're called, and are
+   *  committed at once while holding all the locks they need, only if nothing they were
+   *  computed from changed in between (failing with "CollectionVersionConflict" otherwise).
+   *  A failing operation or an error thrown in the given function discards all of them.
+   */
+  transaction<R>(
+    fn: (
+      tx: StoreTransaction<
+        CollectionMap,
+        QueueMap,
+        Schema,
+        CollectionKey,
+        QueueKey
+      >
+    ) => Promise<R>
+  ): AsyncResult<R, StoreErrors> {
+    return new AsyncResultWrapper<R, StoreErrors>(async () => {
+      const state: TransactionState<CollectionMap> = {
+        items: {},
+        uniqueValues: {},
+        writes: [],
+        lockTargets: [],
+        guards: {
+          items: [],
+          uniqueValues: [],
+          existentItems: [],
+          references: [],
+          lengths: [],
+        },
+        indexes: {},
+        additions: {},
+        insertionIndexes: {},
+        pending: Promise.resolve(),
+        closed: false,
+      };
+
+      try {
+        const value = await fn(this.toTransaction(state));
+
+        // Include the operations that weren't awaited as well
+        await state.pending;
+
+        if (state.failure !== undefined) {
+          this.logger.error('[Store] Transaction Rolled Back', {
+            error: state.failure,
+          });
+
+          return new Err(state.failure);
+        }
+
+        if (state.writes.length > 0) {
+          const commitResult = await this.commitTransaction(state);
+
+          if (!commitResult.ok) {
+            this.logger.error('[Store] Transaction Rolled Back', {
+              error: commitResult.val,
+            });
+
+            return commitResult;
+          }
+        }
+
+        this.logger.info('[Store] Transaction Committed', {
+          writes: state.writes.length,
+        });
+
+        return new Ok(value);
+      } catch (error) {
+        this.logger.error('[Store] Transaction Rolled Back', { error });
+
+        return new Err('TransactionFailure');
+      } finally {
+        state.closed = true;
+      }
+    });
+  }
+
+  // The staged writes get applied in a single script call, which checks their guards in the
+  //  same atomic step. The insertion indexes of the new items get reserved right before it,
+  //  so they're left unused if the guards fail
+  private async commitTransaction(
+    state: TransactionState<CollectionMap>
+  ): Promise<Result<void, StoreErrors>> {
+    const locksResult = await this.acquireLocks(
+      state.lockTargets as LockTarget<CollectionKey>[]
+    );
+
+    if (!locksResult.ok) {
+      return locksResult;
+    }
+
+    try {
+      for (const nameSpacedCollection of Object.keys(state.additions)) {
+        const itemKeys = state.additions[nameSpacedCollection];
+        const lastIndex = await this.redis.hincrby(
+          nameSpacedCollection,
+          '_index',
+          itemKeys.length
+        );
+
+        itemKeys.forEach((itemKey, i) => {
+          state.insertionIndexes[itemKey] = lastIndex - itemKeys.length + 1 + i;
+        });
+      }
+
+      const { keys, args } = this.toGuardedWriteScriptInput(
+        state.guards,
+        (transactions) =>
+          state.writes.reduce((prev, write) => write(prev), transactions)
+      );
+
+      const reply = (await this.runScript(
+        GUARDED_WRITE_SCRIPT,
+        keys,
+        args
+      )) as GuardedWriteReply;
+
+      return reply[0] === 'OK'
+        ? Ok.EMPTY
+        : new Err(this.toGuardFailure(state.guards, reply));
+    } catch (error) {
+      this.logger.error('[Store] Transaction Commit Error', { error });
+
+      return new Err('TransactionFailure');
+    } finally {
+      locksResult.val.unlock();
+    }
+  }
+
+  private toTransaction(
+    state: TransactionState<CollectionMap>
+  ): StoreTransaction<
+    CollectionMap,
+    QueueMap,
+    Schema,
+    CollectionKey,
+    QueueKey
+  > {
+    return {
+      addItemToCollection: (
+        collection: CollectionKey,
+        val: {},
+        id?: string,
+        opts = {}
+      ) =>
+        this.runInTransaction(state, () =>
+          this.stageItemAddition(state, collection, val, id, opts)
+        ),
+      updateItemInCollection: (
+        collection: CollectionKey,
+        id: string,
+        itemModelGetter: UpdateableCollectionPropsGetter<
+          CollectionMap[CollectionKey]
+        >,
+        opts = {}
+      ) =>
+        this.runInTransaction(state, () =>
+          this.stageItemUpdate(state, collection, id, itemModelGetter, opts)
+        ),
+      removeItemInCollection: (collection: CollectionKey, id: string) =>
+        this.runInTransaction(state, () =>
+          this.stageItemRemoval(state, collection, id)
+        ),
+      getRawItemInCollection: (collection: CollectionKey, id: string) =>
+        new AsyncResultWrapper(async () => {
+          // Not run as an operation, since a missing item doesn't fail the transaction
+          await state.pending;
+
+          const item = await this.getItemInTransaction(state, collection, id);
+
+          return item ? new Ok(item) : new Err('CollectionFieldInexistent');
+        }),
+      enqueue: (q: QueueKey, item: {}) =>
+        this.runInTransaction(state, async () => {
+          state.writes.push((transactions) =>
+            transactions.rpush(toQueueName(q), jsonStableStringify(item))
+          );
+
+          return Ok.EMPTY;
+        }),
+    } as unknown as StoreTransaction<
+      CollectionMap,
+      QueueMap,
+      Schema,
+      CollectionKey,
+      QueueKey
+    >;
+  }
+
+  private runInTransaction<V>(
+    state: TransactionState<CollectionMap>,
+    operation: () => Promise<Result<V, StoreErrors>>
+  ): AsyncResult<V, StoreErrors> {
+    const run = state.pending.then(
+      async (): Promise<Result<V, StoreErrors>> => {
+        if (state.closed) {
+          return new Err('TransactionFailure');
+        }
+
+        // The transaction is bound to be rolled back, so nothing else gets staged
+        if (state.failure !== undefined) {
+          return new Err(state.failure);
+        }
+
+        const result = await operation().catch((error) => {
+          this.logger.error('[Store] Transaction Operation Error', { error });
+
+          return new Err('GenericRedisFailure' as const);
+        });
+
+        if (!result.ok) {
+          state.failure = result.val;
+        }
+
+        return result;
+      }
+    );
+
+    state.pending = run;
+
+    return new AsyncResultWrapper(() => run);
+  }
+
+  // The locks only get acquired for the commit, once each even if multiple operations need it
+  private lockInTransaction(
+    state: TransactionState<CollectionMap>,
+    collection: CollectionKey,
+    id?: string
+  ) {
+    state.lockTargets.push({ collection, id });
+  }
+
+  // The stored items get read once, and guarded so the commit fails if they changed since
+  private async getItemInTransaction(
+    state: TransactionState<CollectionMap>,
+    collection: CollectionKey,
+    id: string
+  ) {
+    const itemKey = JSON.stringify([collection, id]);
+
+    if (itemKey in state.items) {
+      return state.items[itemKey] || undefined;
+    }
+
+    const [stored] = await this.getStoredItemsMetadata(collection, [id]);
+
+    this.guardStoredItemInTransaction(state, collection, id, stored);
+
+    return stored;
+  }
+
+  private guardStoredItemInTransaction(
+    state: TransactionState<CollectionMap>,
+    collection: CollectionKey,
+    id: string,
+    stored?: CollectionItemMetadata<unknown, CollectionMap>
+  ) {
+    const nameSpacedCollection = this.toNamespacedCollection(collection);
+    const field = toCollectionId(nameSpacedCollection, id);
+    const isGuarded = state.guards.items.some(
+      ([guardedCollection, guardedField]) =>
+        guardedCollection === nameSpacedCollection && guardedField === field
+    );
+
+    if (!isGuarded && !(JSON.stringify([collection, id]) in state.items)) {
+      state.guards.items.push([
+        nameSpacedCollection,
+        field,
+        stored ? stored.version || 0 : null,
+      ]);
+    }
+  }
+
+  // Only the values checked against the stored index need to still be free when committed
+  private guardUniqueValuesInTransaction(
+    state: TransactionState<CollectionMap>,
+    values: [string, string][],
+    id: string
+  ) {
+    values
+      .filter((value) => !(JSON.stringify(value) in state.uniqueValues))
+      .forEach(([indexedInCollection, value]) => {
+        state.guards.uniqueValues.push([indexedInCollection, value, id]);
+      });
+  }
+
+  // Only looks at the stored index, which the commit reserves from, so a rolled back transaction
+  //  doesn't use any up. The sequential ids already taken, stored or staged, get skipped
+  private async getNextIndexInTransaction(
+    state: TransactionState<CollectionMap>,
+    collection: CollectionKey,
+    isSequentialId: boolean
+  ) {
+    const nameSpacedCollection = this.toNamespacedCollection(collection);
+
+    if (!(nameSpacedCollection in state.indexes)) {
+      state.indexes[nameSpacedCollection] =
+        Number(await this.redis.hget(nameSpacedCollection, '_index')) || 0;
+    }
+
+    let nextIndex = state.indexes[nameSpacedCollection] + 1;
+
+    while (
+      isSequentialId &&
+      (JSON.stringify([collection, String(nextIndex)]) in state.items ||
+        (await this.redis.hexists(
+          nameSpacedCollection,
+          toCollectionId(nameSpacedCollection, String(nextIndex))
+        )))
+    ) {
+      nextIndex++;
+    }
+
+    state.indexes[nameSpacedCollection] = nextIndex;
+
+    return nextIndex;
+  }
+
+  // Releases the unique index values of the prev item and takes the ones of the next
+  private stageUniqueValues(
+    state: TransactionState<CollectionMap>,
+    prev?: CollectionItemMetadata<unknown, CollectionMap>,
+    next?: CollectionItemMetadata<unknown, CollectionMap>
+  ) {
+    const toKeys = (item: CollectionItemMetadata<unknown, CollectionMap>) =>
+      (item.uniqueIndexedIn || []).map((indexedInCollection) =>
+        JSON.stringify([
+          indexedInCollection,
+          String(item.indexedIn?.[indexedInCollection]),
+        ])
+      );
+
+    if (prev) {
+      toKeys(prev).forEach((key) => {
+        state.uniqueValues[key] = null;
+      });
+    }
+
+    if (next) {
+      toKeys(next).forEach((key) => {
+        state.uniqueValues[key] = next.id;
+      });
+    }
+  }
+
+  // The foreign items staged in the transaction are checked as they'll be once committed,
+  //  while the stored ones found get guarded, so they have to still exist by then
+  private async getMissingForeignItemsInTransaction(
+    state: TransactionState<CollectionMap>,
+    next: ForeignItemsCheck<CollectionMap>['next'],
+    prev?: ForeignItemsCheck<CollectionMap>['prev']
+  ): Promise<CollectionForeignItemsInexistentError['missingForeignItems']> {
+    const storedMissingForeignItems = await this.getMissingForeignItems(
+      next,
+      prev
+    );
+
+    const missingForeignItems = this.getNewForeignIds(next, prev)
+      .map(([foreignCollection, fids]) => {
+        const storedMissingIds = storedMissingForeignItems
+          .filter(({ collection }) => collection === foreignCollection)
+          .map(({ ids }) => ids);
+        const storedMissing = flatten(storedMissingIds) as string[];
+
+        return {
+          collection: foreignCollection,
+          ids: fids.filter((fid) => {
+            const itemKey = JSON.stringify([foreignCollection, fid]);
+
+            if (itemKey in state.items) {
+              return state.items[itemKey] === null;
+            }
+
+            if (storedMissing.indexOf(fid) > -1) {
+              return true;
+            }
+
+            state.guards.existentItems.push([foreignCollection, fid]);
+
+            return false;
+          }),
+        };
+      })
+      .filter(({ ids }) => ids.length > 0);
+
+    return missingForeignItems;
+  }
+
+  private async stageItemAddition(
+    state: TransactionState<CollectionMap>,
+    collection: CollectionKey,
+    val: {},
+    id: string | undefined,
+    opts: ItemAdditionOpts
+  ): Promise<
+    Result<CollectionItemMetadata<unknown, CollectionMap>, StoreErrors>
+  > {
+    const nameSpacedCollection = this.toNamespacedCollection(collection);
+    const {
+      idStrategy = 'sequential',
+      validator,
+      ...schemaOpts
+    } = this.getCollectionSchema(collection);
+    const mode = opts.mode || 'replace';
+
+    this.lockInTransaction(state, collection);
+
+    const prev = id
+      ? await this.getItemInTransaction(state, collection, id)
+      : undefined;
+
+    if (prev && mode === 'create') {
+      return new Err('CollectionItemAlreadyExists');
+    }
+
+    const resolvedOpts = this.toResolvedAdditionOpts(
+      { ...schemaOpts, ...opts } as typeof opts,
+      prev
+    );
+
+    const nextVal =
+      prev && mode === 'upsert' ? { ...(prev.val as {}), ...val } : val;
+
+    const validationIssues = validator ? validator.validate(nextVal) : [];
+
+    if (validationIssues.length > 0) {
+      return new Err({
+        type: 'CollectionValidationFailure',
+        issues: validationIssues,
+      });
+    }
+
+    let presetId = id;
+
+    if (!presetId && idStrategy !== 'sequential') {
+      [presetId] = await this.generateCollectionItemIds(
+        collection,
+        idStrategy,
+        [val]
+      );
+
+      if (!presetId) {
+        return new Err('CollectionItemIdCollision');
+      }
+    }
+
+    const uniqueIndexViolations = await this.getUniqueIndexViolations(
+      (resolvedOpts.uniqueIndexBy || []).map((byField) => ({
+        indexedInCollection: toIndexedCollectionName(
+          nameSpacedCollection,
+          toIndexedFieldName(byField)
+        ),
+        value: getIndexedFieldValue(nextVal, toIndexedFieldName(byField)),
+      })),
+      presetId,
+      state.uniqueValues
+    );
+
+    if (uniqueIndexViolations.length > 0) {
+      return new Err('CollectionUniqueIndexViolation');
+    }
+
+    const missingForeignItems = await this.getMissingForeignItemsInTransaction(
+      state,
+      {
+        val: nextVal as CollectionItemMetadata<unknown, CollectionMap>['val'],
+        foreignKeys: resolvedOpts.foreignKeys as ForeignKeys<{}, CollectionMap>,
+      },
+      prev
+    );
+
+    if (missingForeignItems.length > 0) {
+      return new Err({
+        type: 'CollectionForeignItemsInexistent',
+        missingForeignItems,
+      });
+    }
+
+    // A replaced item keeps its place in the insertion order, staged or stored
+    const prevKey = prev && JSON.stringify([collection, prev.id]);
+    const stagedAdditions = state.additions[nameSpacedCollection] || [];
+    const isPrevStaged =
+      !!prevKey &&
+      (prevKey in state.insertionIndexes ||
+        stagedAdditions.indexOf(prevKey) > -1);
+    const [prevIndex] =
+      prev && !isPrevStaged
+        ? await this.getInsertionIndexes(nameSpacedCollection, [prev.id])
+        : [];
+    const isNew = !isPrevStaged && prevIndex === undefined;
+    const nextIndex = isNew
+      ? await this.getNextIndexInTransaction(state, collection, !presetId)
+      : undefined;
+
+    const item = this.toAddedItemMetadata<unknown>(
+      nameSpacedCollection,
+      presetId || String(nextIndex),
+      nextVal,
+      resolvedOpts,
+      prev
+    );
+
+    // The generated ids have to still be free by the commit as well
+    this.guardStoredItemInTransaction(state, collection, item.id, prev);
+    this.guardUniqueValuesInTransaction(
+      state,
+      (item.uniqueIndexedIn || []).map(
+        (indexedInCollection): [string, string] => [
+          indexedInCollection,
+          String(item.indexedIn?.[indexedInCollection]),
+        ]
+      ),
+      item.id
+    );
+
+    const itemKey = JSON.stringify([collection, item.id]);
+
+    if (prevIndex !== undefined) {
+      state.insertionIndexes[itemKey] = prevIndex;
+    } else if (isNew && stagedAdditions.indexOf(itemKey) === -1) {
+      state.additions[nameSpacedCollection] = [...stagedAdditions, itemKey];
+    }
+
+    // The index of a new item is only known once the commit reserved it
+    state.writes.push((transactions) =>
+      this.withItemAdditionTransactions(
+        transactions,
+        collection,
+        item,
+        state.insertionIndexes[itemKey],
+        prev
+      )
+    );
+    state.items[itemKey] = item;
+    this.stageUniqueValues(state, prev, item);
+
+    return new Ok(item);
+  }
+
+  private async stageItemUpdate(
+    state: TransactionState<CollectionMap>,
+    collection: CollectionKey,
+    id: string,
+    itemModelGetter: UpdateableCollectionPropsGetter<
+      CollectionMap[CollectionKey]
+    >,
+    opts: {
+      foreignKeys?: {};
+      migrateForeignKeys?: boolean;
+    }
+  ): Promise<
+    Result<CollectionItemMetadata<unknown, CollectionMap>, StoreErrors>
+  > {
+    const foreignKeys = (opts.foreignKeys ||
+      this.getCollectionSchema(collection).foreignKeys) as
+      | ForeignKeys<{}, CollectionMap>
+      | undefined;
+
+    this.lockInTransaction(state, collection, id);
+
+    const prev = (await this.getItemInTransaction(
+      state,
+      collection,
+      id
+    )) as CollectionItemMetadata<CollectionMap[CollectionKey], CollectionMap>;
+
+    if (!prev) {
+      return new Err('CollectionFieldInexistent');
+    }
+
+    const nextValResult = await this.getNextUpdatedVal(
+      collection,
+      prev,
+      itemModelGetter,
+      foreignKeys,
+      opts.migrateForeignKeys
+    );
+
+    if (!nextValResult.ok) {
+      return nextValResult;
+    }
+
+    const { nextItem, nextForeignKeys } = nextValResult.val;
+
+    const missingForeignItems = await this.getMissingForeignItemsInTransaction(
+      state,
+      {
+        val: nextItem as CollectionItemMetadata<unknown, CollectionMap>['val'],
+        foreignKeys: nextForeignKeys,
+      },
+      prev
+    );
+
+    if (missingForeignItems.length > 0) {
+      return new Err({
+        type: 'CollectionForeignItemsInexistent',
+        missingForeignItems,
+      });
+    }
+
+    const indexRecords = this.getUpdatedIndexRecords(prev, nextItem);
+
+    if (indexRecords.uniqueIndexed.length > 0) {
+      // Same as for a single update, so no one else takes the same value during the commit
+      this.lockInTransaction(state, collection);
+
+      const uniqueIndexViolations = await this.getUniqueIndexViolations(
+        indexRecords.uniqueIndexed.map((record) => ({
+          indexedInCollection: record.indexedInCollection,
+          value: record.nextValue,
+        })),
+        id,
+        state.uniqueValues
+      );
+
+      if (uniqueIndexViolations.length > 0) {
+        return new Err('CollectionUniqueIndexViolation');
+      }
+
+      this.guardUniqueValuesInTransaction(
+        state,
+        indexRecords.uniqueIndexed.map((record): [string, string] => [
+          record.indexedInCollection,
+          String(record.nextValue),
+        ]),
+        id
+      );
+    }
+
+    const next = this.toUpdatedItemMetadata<unknown>(
+      prev,
+      nextItem,
+      nextForeignKeys,
+      indexRecords
+    );
+
+    state.writes.push((transactions) =>
+      this.withItemUpdateTransactions(
+        transactions,
+        collection,
+        prev,
+        next,
+        indexRecords
+      )
+    );
+    state.items[JSON.stringify([collection, id])] = next;
+    this.stageUniqueValues(state, prev, next);
+
+    return new Ok(next);
+  }
+
+  private async stageItemRemoval(
+    state: TransactionState<CollectionMap>,
+    collection: CollectionKey,
+    id: string
+  ): Promise<Result<void, StoreErrors>> {
+    this.lockInTransaction(state, collection, id);
+
+    const prev = await this.getItemInTransaction(state, collection, id);
+
+    if (!prev) {
+      return new Err('CollectionFieldInexistent');
+    }
+
+    const removalPlan = await this.getRemovalPlan([
+      { collection, metadata: prev },
+    ]);
+
+    // The stored references don't know about the items staged in the transaction, so for
+    //  those it's their staged version that decides. Any of them still referencing a removed
+    //  item restricts the removal, since the policies can't be applied on top of it
+    const isStaged = (itemCollection: string, itemId: string) =>
+      JSON.stringify([itemCollection, itemId]) in state.items &&
+      !(itemCollection === collection && itemId === id);
+
+    const removals = removalPlan.removals.filter(
+      (removal) => !isStaged(removal.collection, removal.metadata.id)
+    );
+    const modifications = removalPlan.modifications.filter(
+      (modification) =>
+        !isStaged(modification.collection, modification.metadata.id)
+    );
+    const removedReferencedByCollections = removals.map((removal) =>
+      toReferencedByCollectionName(
+        this.toNamespacedCollection(removal.collection),
+        removal.metadata.id
+      )
+    );
+
+    const stagedReferencedBy = flatten(
+      Object.keys(state.items).map((itemKey) => {
+        const [itemCollection] = JSON.parse(itemKey) as [CollectionKey];
+        const item = state.items[itemKey];
+
+        if (!item || !isStaged(itemCollection, item.id)) {
+          return [];
+        }
+
+        return this.getOutgoingReferences(itemCollection, item)
+          .filter(
+            ({ referencedByCollection }) =>
+              removedReferencedByCollections.indexOf(referencedByCollection) >
+              -1
+          )
+          .map(({ member }) => fromReferenceMember(member));
+      }),
+      1
+    ) as CollectionItemReference[];
+
+    const referencedBy = [
+      ...removalPlan.restrictedBy.filter(
+        (reference) => !isStaged(reference.collection, reference.id)
+      ),
+      ...stagedReferencedBy,
+    ];
+
+    if (referencedBy.length > 0) {
+      return new Err({ type: 'CollectionDeletionRestricted', referencedBy });
+    }
+
+    // The items the policies write to get locked and guarded as well, along with the
+    //  references the plan got walked from
+    removals.forEach((removal) => {
+      this.lockInTransaction(state, removal.collection, removal.metadata.id);
+      this.guardStoredItemInTransaction(
+        state,
+        removal.collection,
+        removal.metadata.id,
+        removal.metadata
+      );
+    });
+    modifications.forEach((modification) => {
+      this.lockInTransaction(
+        state,
+        modification.collection,
+        modification.metadata.id
+      );
+      this.guardStoredItemInTransaction(
+        state,
+        modification.collection,
+        modification.metadata.id,
+        modification.prev
+      );
+    });
+    removalPlan.references.forEach(({ referencedByCollection, members }) => {
+      state.guards.references.push([referencedByCollection, members]);
+    });
+
+    state.writes.push((transactions) =>
+      this.withRemovalPlanTransactions(transactions, {
+        ...removalPlan,
+        removals,
+        modifications,
+      })
+    );
+
+    removals.forEach((removal) => {
+      state.items[JSON.stringify([removal.collection, removal.metadata.id])] =
+        null;
+      this.stageUniqueValues(state, removal.metadata);
+    });
+
+    modifications.forEach((modification) => {
+      state.items[
+        JSON.stringify([modification.collection, modification.metadata.id])
+      ] = modification.metadata;
+    });
+
+    return Ok.EMPTY;
+  }
+
   flush() {
     return new AsyncResultWrapper(() => {
       return new Promise<Result<boolean, 'GenericRedisFailure'>>(() => {
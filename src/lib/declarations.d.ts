@@ -1,3 +1,5 @@
 declare module 'flatten';
+declare module 'fengari';
+declare module 'redis-mock/lib/helpers';
 
 declare module 'redis-lock';
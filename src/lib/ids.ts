@@ -0,0 +1,46 @@
+import { randomBytes } from 'crypto';
+
+const CROCKFORD_BASE32 = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+const URL_SAFE_ALPHABET =
+  'useandom-26T198340PX75pxJACKVERYMINDBUSHWOLF_GQZbfghjklqvwyzrict';
+
+// RFC 4122 version 4
+export const generateUuid = () => {
+  const bytes = randomBytes(16);
+
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+
+  const hex = bytes.toString('hex');
+
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20),
+  ].join('-');
+};
+
+// 48 bits of milliseconds followed by 80 random bits, so the ids sort by their creation time
+export const generateUlid = (now = Date.now()) => {
+  let time = '';
+  let remaining = now;
+
+  for (let i = 0; i < 10; i++) {
+    time = CROCKFORD_BASE32[remaining % 32] + time;
+    remaining = Math.floor(remaining / 32);
+  }
+
+  const random = Array.from(randomBytes(16))
+    .map((byte) => CROCKFORD_BASE32[byte % 32])
+    .join('');
+
+  return time + random;
+};
+
+export const generateNanoid = (size = 21) =>
+  Array.from(randomBytes(size))
+    .map((byte) => URL_SAFE_ALPHABET[byte & 63])
+    .join('');
@@ -1,2 +1,3 @@
 export * from './Store';
 export * from './util';
+export * from './validators';
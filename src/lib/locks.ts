@@ -0,0 +1,272 @@
+import { randomBytes } from 'crypto';
+import { RedisClient } from 'redis';
+import { EXTEND_LOCK_SCRIPT, RELEASE_LOCK_SCRIPT } from './scripts';
+
+export type Unlock = (done?: () => void) => void;
+
+// Keeps the lock for another ttl (in ms) from now, resolving to false once it's not held
+//  anymore, i.e. after it expired
+export type ExtendLock = (ttl: number) => Promise<boolean>;
+
+export type AcquiredLock = Unlock & { extend: ExtendLock };
+
+// All in ms
+export type LockAcquisitionOpts = {
+  ttl: number;
+  retryDelay: number;
+  maxWait?: number;
+};
+
+// Acquires the lock on the given resource, waiting for it at most the maxWait (if given),
+//  and gives back how to release (or extend) it, or undefined if it couldn't be acquired in time
+export type LockProvider = {
+  acquire: (
+    resource: string,
+    opts: LockAcquisitionOpts
+  ) => Promise<AcquiredLock | undefined>;
+};
+
+const wait = (ms: number) =>
+  new Promise((resolve) => {
+    setTimeout(resolve, ms);
+  });
+
+// Gives up on a call that isn't called back in time, i.e. to a node that's down
+const withTimeout = <T>(
+  call: (resolve: (value: T) => void) => void,
+  timeout: number,
+  onTimeout: T
+) =>
+  new Promise<T>((resolve) => {
+    const timer = setTimeout(() => resolve(onTimeout), timeout);
+
+    call((value) => {
+      clearTimeout(timer);
+      resolve(value);
+    });
+  });
+
+// Sent by its sha, and loaded again with a plain EVAL whenever it's missing
+const releaseLock = (
+  client: RedisClient,
+  key: string,
+  value: string,
+  done: () => void
+) => {
+  client.evalsha(RELEASE_LOCK_SCRIPT.sha, 1, key, value, (err) => {
+    if (err && String(err.message).indexOf('NOSCRIPT') === 0) {
+      client.eval(RELEASE_LOCK_SCRIPT.source, 1, key, value, () => done());
+    } else {
+      done();
+    }
+  });
+};
+
+// Sent by its sha as well, and replying whether the lock is still held
+const extendLock = (
+  client: RedisClient,
+  key: string,
+  value: string,
+  ttl: number,
+  done: (extended: boolean) => void
+) => {
+  client.evalsha(
+    EXTEND_LOCK_SCRIPT.sha,
+    1,
+    key,
+    value,
+    String(ttl),
+    (err, reply) => {
+      if (err && String(err.message).indexOf('NOSCRIPT') === 0) {
+        client.eval(
+          EXTEND_LOCK_SCRIPT.source,
+          1,
+          key,
+          value,
+          String(ttl),
+          (err, reply) => done(!err && Number(reply) === 1)
+        );
+      } else {
+        done(!err && Number(reply) === 1);
+      }
+    }
+  );
+};
+
+const toAcquiredLock = (unlock: Unlock, extend: ExtendLock): AcquiredLock =>
+  Object.assign(unlock, { extend });
+
+// A lock on a single node, set the same way as redis-lock does (same key and value), so it
+//  still excludes the processes running through redis-lock, but stops trying at the maxWait
+export const createRedisLockProvider = (client: RedisClient): LockProvider => ({
+  acquire: async (resource, { ttl, retryDelay, maxWait }) => {
+    const key = `lock.${resource}`;
+    const startedAt = Date.now();
+
+    while (true) {
+      const lockTimeoutValue = Date.now() + ttl + 1;
+      const acquired = await new Promise<boolean>((resolve) => {
+        client.set(
+          key,
+          String(lockTimeoutValue),
+          'PX',
+          ttl,
+          'NX',
+          (err, reply) => resolve(!err && reply === 'OK')
+        );
+      });
+
+      if (acquired) {
+        // An expired lock could already be someone else's, so it's only deleted (or extended)
+        //  if it's still the one set here
+        return toAcquiredLock(
+          (done?: () => void) => {
+            releaseLock(client, key, String(lockTimeoutValue), () => done?.());
+          },
+          (nextTtl) =>
+            new Promise<boolean>((resolve) => {
+              extendLock(
+                client,
+                key,
+                String(lockTimeoutValue),
+                nextTtl,
+                resolve
+              );
+            })
+        );
+      }
+
+      const remaining =
+        maxWait === undefined ? retryDelay : maxWait - (Date.now() - startedAt);
+
+      if (remaining <= 0) {
+        return undefined;
+      }
+
+      await wait(Math.min(retryDelay, remaining));
+    }
+  },
+});
+
+// The Redlock algorithm (https://redis.io/docs/manual/patterns/distributed-locks), over
+//  independent nodes: a lock is held once it got set on a majority of them, with enough of
+//  its ttl left, so losing a minority of the nodes (i.e. in a failover) doesn't release it
+export const createRedlockProvider = (
+  clients: RedisClient[],
+  {
+    // The clock drift between the nodes, as a fraction of the ttl
+    driftFactor = 0.01,
+    // How long to wait for each node (in ms), with a node not replying in time counted as a
+    //  failed one, so a node that's down doesn't hold up the others. A tenth of the ttl by default
+    nodeTimeout,
+  }: { driftFactor?: number; nodeTimeout?: number } = {}
+): LockProvider => {
+  const quorum = Math.floor(clients.length / 2) + 1;
+
+  const setOnNode = (
+    client: RedisClient,
+    key: string,
+    value: string,
+    ttl: number,
+    timeout: number
+  ) =>
+    withTimeout<boolean>(
+      (resolve) => {
+        client.set(key, value, 'PX', ttl, 'NX', (err, reply) =>
+          resolve(!err && reply === 'OK')
+        );
+      },
+      timeout,
+      false
+    );
+
+  // Only deletes the lock if it's still the one set by this holder and not a newer one taken
+  //  after it expired
+  const releaseOnNode = (
+    client: RedisClient,
+    key: string,
+    value: string,
+    timeout: number
+  ) =>
+    withTimeout<void>(
+      (resolve) => releaseLock(client, key, value, resolve),
+      timeout,
+      undefined
+    );
+
+  const extendOnNode = (
+    client: RedisClient,
+    key: string,
+    value: string,
+    ttl: number,
+    timeout: number
+  ) =>
+    withTimeout<boolean>(
+      (resolve) => extendLock(client, key, value, ttl, resolve),
+      timeout,
+      false
+    );
+
+  const releaseOnAllNodes = (key: string, value: string, timeout: number) =>
+    Promise.all(
+      clients.map((client) => releaseOnNode(client, key, value, timeout))
+    );
+
+  return {
+    acquire: async (resource, { ttl, retryDelay, maxWait }) => {
+      const key = `lock.${resource}`;
+      // Identifies this holder, so no one else can release the lock
+      const value = randomBytes(16).toString('hex');
+      const timeout = nodeTimeout ?? Math.round(ttl / 10);
+      const startedAt = Date.now();
+
+      while (true) {
+        const attemptedAt = Date.now();
+        const replies = await Promise.all(
+          clients.map((client) => setOnNode(client, key, value, ttl, timeout))
+        );
+        const validity =
+          ttl - (Date.now() - attemptedAt) - Math.round(ttl * driftFactor) - 2;
+
+        if (replies.filter(Boolean).length >= quorum && validity > 0) {
+          // Extended the same way as it got acquired, so it stays held only while a majority
+          //  of the nodes still has it
+          return toAcquiredLock(
+            (done?: () => void) => {
+              releaseOnAllNodes(key, value, timeout).then(() => done?.());
+            },
+            async (nextTtl) => {
+              const extendedAt = Date.now();
+              const extensions = await Promise.all(
+                clients.map((client) =>
+                  extendOnNode(client, key, value, nextTtl, timeout)
+                )
+              );
+              const nextValidity =
+                nextTtl -
+                (Date.now() - extendedAt) -
+                Math.round(nextTtl * driftFactor) -
+                2;
+
+              return (
+                extensions.filter(Boolean).length >= quorum && nextValidity > 0
+              );
+            }
+          );
+        }
+
+        // The minority it got is released, so the other contenders don't wait for it to expire
+        await releaseOnAllNodes(key, value, timeout);
+
+        // Randomized, so the contenders don't keep on splitting the nodes between them
+        const delay = retryDelay + Math.floor(Math.random() * retryDelay);
+
+        if (maxWait !== undefined && Date.now() - startedAt + delay > maxWait) {
+          return undefined;
+        }
+
+        await wait(delay);
+      }
+    },
+  };
+};
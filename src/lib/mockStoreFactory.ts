@@ -1,15 +1,16 @@
 import redisMock from 'redis-mock';
 import { getRedisMockClient } from './tests/redisMock';
 import { Store, StoreConfig } from './Store';
-import { CollectionMapBase, QueueMapBase } from './util';
+import { CollectionMapBase, QueueMapBase, StoreSchema } from './util';
 
 export const createMockStore = <
   CollectionMap extends CollectionMapBase,
-  QueueMap extends QueueMapBase = {}
+  QueueMap extends QueueMapBase = {},
+  Schema extends StoreSchema<CollectionMap> = {}
 >(
-  config?: StoreConfig
+  config?: StoreConfig<CollectionMap, Schema>
 ) =>
-  new Store<CollectionMap, QueueMap>(
+  new Store<CollectionMap, QueueMap, Schema>(
     getRedisMockClient(redisMock.createClient()) as any,
     config
   );
@@ -0,0 +1,133 @@
+import { createHash } from 'crypto';
+
+export type StoreScript = {
+  source: string;
+  // Run by its sha, so the source only gets sent when the script isn't cached yet
+  sha: string;
+};
+
+// What a write got computed from, to be checked again right before it gets applied
+export type WriteGuards = {
+  // [collection, item field, version], with a null version for an item that has to be inexistent
+  items: [string, string, number | null][];
+  // [indexedInCollection, value, id], for the unique index values that have to be free or taken by the id
+  uniqueValues: [string, string, string][];
+  // [collection, id], for the foreign items that have to exist, with the collection not namespaced
+  existentItems: [string, string][];
+  // [referencedByCollection, members], for the references to the removed items
+  references: [string, string[]][];
+  // [collection, length], for the collections that can't get any item added or removed
+  lengths: [string, number][];
+};
+
+type GuardFailure =
+  | 'VERSION'
+  | 'MISSING'
+  | 'EXISTS'
+  | 'UNIQUE'
+  | 'FOREIGN'
+  | 'REFERENCES'
+  | 'LENGTH';
+
+// What the write failed on, with the (1-based) position of the guard in its kind
+export type GuardedWriteReply = ['OK'] | [GuardFailure, number];
+
+const toStoreScript = (source: string): StoreScript => ({
+  source,
+  sha: createHash('sha1').update(source).digest('hex'),
+});
+
+// Applies the writes (given as [[command, [key positions], ...args], ...]) only if all the
+//  guards still hold, replying why otherwise, all in a single atomic step. The guards and the
+//  commands only refer to their keys by position in KEYS, which holds every key they touch
+export const GUARDED_WRITE_SCRIPT = toStoreScript(`
+local guards = cjson.decode(ARGV[1])
+
+for i, guard in ipairs(guards.items) do
+  local raw = redis.call('HGET', KEYS[guard[1]], guard[2])
+
+  if guard[3] == cjson.null then
+    if raw then
+      return {'EXISTS', i}
+    end
+  elseif not raw then
+    return {'MISSING', i}
+  elseif (cjson.decode(raw).version or 0) ~= guard[3] then
+    return {'VERSION', i}
+  end
+end
+
+for i, guard in ipairs(guards.uniqueValues) do
+  local owner = redis.call('HGET', KEYS[guard[1]], guard[2])
+
+  if owner and owner ~= guard[3] then
+    return {'UNIQUE', i}
+  end
+end
+
+for i, guard in ipairs(guards.existentItems) do
+  if redis.call('HEXISTS', KEYS[guard[1]], guard[2]) == 0 then
+    return {'FOREIGN', i}
+  end
+end
+
+for i, guard in ipairs(guards.references) do
+  local members = redis.call('SMEMBERS', KEYS[guard[1]])
+  local expectedMembers = guard[2]
+
+  if #members ~= #expectedMembers then
+    return {'REFERENCES', i}
+  end
+
+  table.sort(members)
+  table.sort(expectedMembers)
+
+  for j, member in ipairs(members) do
+    if member ~= expectedMembers[j] then
+      return {'REFERENCES', i}
+    end
+  end
+end
+
+for i, guard in ipairs(guards.lengths) do
+  if redis.call('HLEN', KEYS[guard[1]]) ~= guard[2] then
+    return {'LENGTH', i}
+  end
+end
+
+for _, command in ipairs(cjson.decode(ARGV[2])) do
+  local args = {command[1]}
+
+  for _, position in ipairs(command[2]) do
+    table.insert(args, KEYS[position])
+  end
+
+  for j = 3, #command do
+    table.insert(args, command[j])
+  end
+
+  redis.call(unpack(args))
+end
+
+return {'OK'}
+`);
+
+// Deletes the lock only if it still holds the given value, replying 1 if it did. Checked in the
+//  same step, so a lock that expired doesn't get deleted once it's taken by its next holder
+export const RELEASE_LOCK_SCRIPT = toStoreScript(`
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+
+return 0
+`);
+
+// Sets the lock to expire in the given ttl (in ms) from now only if it still holds the given
+//  value, replying 1 if it did. A lock that already expired can't get extended anymore
+export const EXTEND_LOCK_SCRIPT = toStoreScript(`
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+
+return 0
+`);
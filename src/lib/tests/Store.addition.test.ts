@@ -1,7 +1,8 @@
 import { createMockStore } from '../mockStoreFactory';
 import { Store } from '../Store';
-import { CollectionMap, silentLogger } from './testUtils';
+import { CollectionMap, Guest, silentLogger } from './testUtils';
 import { Ok } from 'ts-results';
+import { fromZodSchema } from '../validators';
 
 let store: Store<CollectionMap, {}>;
 
@@ -348,4 +349,634 @@ describe('Addition', () => {
       })
     );
   });
+
+  test('Addition colliding with a uniqueIndexBy value fails and leaves the existent item and index untouched', async () => {
+    await store
+      .addItemToCollection('simpleItems', { name: 'John', age: 23 }, 's1', {
+        foreignKeys: {},
+        uniqueIndexBy: ['name'],
+      })
+      .resolve();
+
+    const actual = await store
+      .addItemToCollection('simpleItems', { name: 'John', age: 40 }, 's2', {
+        foreignKeys: {},
+        uniqueIndexBy: ['name'],
+      })
+      .resolve();
+
+    expect(actual.ok).toBe(false);
+    expect(actual.val).toBe('CollectionUniqueIndexViolation');
+
+    const itemByIndex = await store
+      .getItemInCollectionBy('simpleItems', 'name', 'John')
+      .resolve();
+
+    expect(itemByIndex).toEqual(
+      new Ok({
+        id: 's1',
+        name: 'John',
+        age: 23,
+      })
+    );
+
+    const collidingItem = await store
+      .isItemInCollection('simpleItems', 's2')
+      .resolve();
+
+    expect(collidingItem).toEqual(new Ok(false));
+  });
+
+  test('Addition with inexistent Foreign Items fails with the missing collection and ids', async () => {
+    await store
+      .addItemToCollection(
+        'guests',
+        { avatarId: '12', name: 'Travolta', isGuest: true },
+        'g1',
+        { foreignKeys: {} }
+      )
+      .resolve();
+
+    const actual = await store
+      .addItemToCollection(
+        'itemWithMultipleForeignCollections',
+        {
+          user: 'g2',
+          peer: {
+            p1: null,
+            p2: null,
+          },
+        },
+        'i1',
+        {
+          foreignKeys: {
+            peer: {
+              type: 'oneToMany',
+              collection: 'peers',
+            },
+            user: {
+              type: 'oneToOne',
+              collection: 'guests',
+            },
+          },
+        }
+      )
+      .resolve();
+
+    expect(actual.ok).toBe(false);
+    expect(actual.val).toEqual({
+      type: 'CollectionForeignItemsInexistent',
+      missingForeignItems: [
+        {
+          collection: 'peers',
+          ids: ['p1', 'p2'],
+        },
+        {
+          collection: 'guests',
+          ids: ['g2'],
+        },
+      ],
+    });
+
+    const addedItem = await store
+      .isItemInCollection('itemWithMultipleForeignCollections', 'i1')
+      .resolve();
+
+    expect(addedItem).toEqual(new Ok(false));
+  });
+
+  test('Addition with mode "create" of an existent id fails with "CollectionItemAlreadyExists" and leaves the item untouched', async () => {
+    await store
+      .addItemToCollection('simpleItems', { name: 'John', age: 23 }, 's1')
+      .resolve();
+
+    const actual = await store
+      .addItemToCollection('simpleItems', { name: 'Jack', age: 40 }, 's1', {
+        mode: 'create',
+      })
+      .resolve();
+
+    expect(actual.ok).toBe(false);
+    expect(actual.val).toBe('CollectionItemAlreadyExists');
+
+    const existentItem = await store
+      .getItemInCollection('simpleItems', 's1')
+      .resolve();
+
+    expect(existentItem).toEqual(new Ok({ id: 's1', name: 'John', age: 23 }));
+  });
+
+  test('Addition with mode "replace" of an existent id cleans up its stale index entries', async () => {
+    await store
+      .addItemToCollection('simpleItems', { name: 'John', age: 23 }, 's1', {
+        uniqueIndexBy: ['name'],
+        multiIndexBy: ['age'],
+      })
+      .resolve();
+
+    const actual = await store
+      .addItemToCollection('simpleItems', { name: 'Jack', age: 40 }, 's1', {
+        uniqueIndexBy: ['name'],
+        multiIndexBy: ['age'],
+        mode: 'replace',
+      })
+      .resolve();
+
+    expect(actual.ok).toBe(true);
+
+    const byStaleName = await store
+      .getItemInCollectionBy('simpleItems', 'name', 'John')
+      .resolve();
+
+    expect(byStaleName.ok).toBe(false);
+
+    const byStaleAge = await store
+      .getAllItemsInCollectionBy('simpleItems', 'age', 23)
+      .resolve();
+
+    expect(byStaleAge).toEqual(new Ok([]));
+
+    // The stale name is free to be taken by another item
+    const reusingStaleName = await store
+      .addItemToCollection('simpleItems', { name: 'John', age: 23 }, 's2', {
+        uniqueIndexBy: ['name'],
+      })
+      .resolve();
+
+    expect(reusingStaleName.ok).toBe(true);
+  });
+
+  test('Addition with mode "upsert" merges into an existent item or creates it', async () => {
+    const created = await store
+      .addItemToCollection('simpleItems', { name: 'John', age: 23 }, 's1', {
+        mode: 'upsert',
+      })
+      .resolve();
+
+    expect(created.ok && created.val.item).toEqual({
+      id: 's1',
+      name: 'John',
+      age: 23,
+    });
+
+    const merged = await store
+      .addItemToCollection('simpleItems', { age: 24 }, 's1', {
+        mode: 'upsert',
+      })
+      .resolve();
+
+    expect(merged.ok && merged.val.item).toEqual({
+      id: 's1',
+      name: 'John',
+      age: 24,
+    });
+  });
+
+  test('Addition with mode "upsert" keeps the indexes and foreign keys of the existent item', async () => {
+    await store
+      .addItemToCollection('simpleItems', { name: 'John', age: 23 }, 's1', {
+        uniqueIndexBy: ['name'],
+      })
+      .resolve();
+
+    await store
+      .addItemToCollection('simpleItems', { age: 24 }, 's1', {
+        mode: 'upsert',
+      })
+      .resolve();
+
+    const actualByName = await store
+      .getItemInCollectionBy('simpleItems', 'name', 'John')
+      .resolve();
+
+    expect(actualByName).toEqual(new Ok({ id: 's1', name: 'John', age: 24 }));
+
+    const guestInput = {
+      avatarId: '12',
+      name: 'Travolta',
+      isGuest: true,
+    } as const;
+
+    await store
+      .addItemToCollection('guests', guestInput, 'g1', { foreignKeys: {} })
+      .resolve();
+
+    await store
+      .addItemToCollection(
+        'peers',
+        {
+          hasJoinedRoom: false,
+          joinedRoomId: null,
+          joinedRoomAt: null,
+          user: 'g1',
+        },
+        'p1',
+        {
+          foreignKeys: {
+            user: {
+              type: 'oneToOne',
+              collection: 'guests',
+              onDelete: 'restrict',
+            },
+          },
+        }
+      )
+      .resolve();
+
+    const actual = await store
+      .addItemToCollection('peers', { hasJoinedRoom: true }, 'p1', {
+        foreignKeys: {},
+        mode: 'upsert',
+      })
+      .resolve();
+
+    expect(actual.ok && actual.val.item.user).toEqual({
+      ...guestInput,
+      id: 'g1',
+    });
+
+    // The reverse reference is kept as well, so the removal is still restricted
+    const actualRemoved = await store
+      .removeItemInCollection('guests', 'g1')
+      .resolve();
+
+    expect(actualRemoved.ok).toBe(false);
+  });
+
+  test('Replacing an existent item keeps its place in the insertion order', async () => {
+    await store
+      .addItemToCollection('simpleItems', { name: 'John', age: 23 }, 's1')
+      .resolve();
+
+    await store
+      .addItemToCollection('simpleItems', { name: 'Jane', age: 30 }, 's2')
+      .resolve();
+
+    const actualReplaced = await store
+      .addItemToCollection('simpleItems', { name: 'Johnny', age: 24 }, 's1')
+      .resolve();
+
+    expect(actualReplaced.ok && actualReplaced.val.index).toBe(1);
+
+    const actualAdded = await store
+      .addItemsToCollection('simpleItems', [
+        { val: { name: 'Bob', age: 40 }, id: 's3' },
+        { val: { name: 'Jane', age: 31 }, id: 's2' },
+      ])
+      .resolve();
+
+    expect(
+      actualAdded.ok &&
+        actualAdded.val.map((result) => result.ok && result.val.index)
+    ).toEqual([3, 2]);
+
+    const actualOrdered = await store
+      .getOrderedItemsInCollection('simpleItems')
+      .resolve();
+
+    expect(actualOrdered).toEqual(
+      new Ok([
+        { id: 's1', name: 'Johnny', age: 24 },
+        { id: 's2', name: 'Jane', age: 31 },
+        { id: 's3', name: 'Bob', age: 40 },
+      ])
+    );
+  });
+});
+
+describe('Addition with Schema', () => {
+  const schema = {
+    guests: {
+      uniqueIndexBy: ['name'],
+      idStrategy: (guest: Pick<Guest, 'name'>) => `guest-${guest.name}`,
+      // A stand in for a zod schema, so the adapter gets exercised without the library
+      validator: fromZodSchema({
+        safeParse: (val) =>
+          typeof (val as Guest).avatarId === 'string'
+            ? { success: true }
+            : {
+                success: false,
+                error: {
+                  issues: [{ path: ['avatarId'], message: 'Expected string' }],
+                },
+              },
+      }),
+    },
+    peers: {
+      foreignKeys: {
+        user: {
+          type: 'oneToOne',
+          collection: 'guests',
+        },
+      },
+    },
+  } as const;
+
+  let schemaStore: Store<CollectionMap, {}, typeof schema>;
+
+  beforeAll(() => {
+    schemaStore = createMockStore<CollectionMap, {}, typeof schema>({
+      namespace: 'testSchema',
+      logger: silentLogger,
+      schema,
+    });
+  });
+
+  beforeEach(() => {
+    schemaStore.flush();
+  });
+
+  test('Addition infers the ForeignKeys, Indexes and Id Strategy from the Schema', async () => {
+    const guestInput = {
+      avatarId: '12',
+      name: 'Travolta',
+      isGuest: true,
+    } as const;
+    await schemaStore.addItemToCollection('guests', guestInput).resolve();
+
+    const input = {
+      hasJoinedRoom: false,
+      joinedRoomId: null,
+      joinedRoomAt: null,
+      user: 'guest-Travolta',
+    } as const;
+    const actual = await schemaStore
+      .addItemToCollection('peers', input, 'p1')
+      .resolve();
+
+    expect(actual).toEqual(
+      new Ok({
+        item: {
+          ...input,
+          id: 'p1',
+          user: {
+            ...guestInput,
+            id: 'guest-Travolta',
+          },
+        },
+        index: 1,
+        length: 1,
+      })
+    );
+
+    const byName = await schemaStore
+      .getItemInCollectionBy('guests', 'name', 'Travolta')
+      .resolve();
+
+    expect(byName).toEqual(new Ok({ ...guestInput, id: 'guest-Travolta' }));
+
+    const colliding = await schemaStore
+      .addItemToCollection('guests', { ...guestInput, avatarId: '3' }, 'g2')
+      .resolve();
+
+    expect(colliding.ok).toBe(false);
+  });
+
+  test('Only the ForeignKeys of the Schema can be included', async () => {
+    const guestInput = {
+      avatarId: '12',
+      name: 'Travolta',
+      isGuest: true,
+    } as const;
+    await schemaStore.addItemToCollection('guests', guestInput).resolve();
+
+    const input = {
+      hasJoinedRoom: false,
+      joinedRoomId: null,
+      joinedRoomAt: null,
+      user: 'guest-Travolta',
+    } as const;
+    await schemaStore.addItemToCollection('peers', input, 'p1').resolve();
+
+    const actual = await schemaStore
+      .getItemInCollection('peers', 'p1', { include: ['user'] })
+      .resolve();
+
+    expect(actual).toEqual(
+      new Ok({
+        ...input,
+        id: 'p1',
+        user: { ...guestInput, id: 'guest-Travolta' },
+      })
+    );
+
+    await schemaStore
+      // @ts-expect-error
+      .getItemInCollection('peers', 'p1', { include: ['hasJoinedRoom'] })
+      .resolve();
+  });
+
+  test('The opts given at Addition override the Schema', async () => {
+    const actual = await schemaStore
+      .addItemToCollection(
+        'guests',
+        { avatarId: '12', name: 'Travolta', isGuest: true },
+        undefined,
+        { uniqueIndexBy: [] }
+      )
+      .resolve();
+
+    expect(actual.ok).toBe(true);
+    expect(actual.val).toMatchObject({ item: { id: 'guest-Travolta' } });
+
+    const byName = await schemaStore
+      .getItemInCollectionBy('guests', 'name', 'Travolta')
+      .resolve();
+
+    expect(byName.ok).toBe(false);
+  });
+
+  test('Addition of an invalid value fails with the validation issues and leaves the collection untouched', async () => {
+    const actual = await schemaStore
+      .addItemToCollection(
+        'guests',
+        // As it would come from an untyped JSON payload
+        JSON.parse('{ "avatarId": 12, "name": "Travolta", "isGuest": true }')
+      )
+      .resolve();
+
+    expect(actual.ok).toBe(false);
+    expect(actual.val).toEqual({
+      type: 'CollectionValidationFailure',
+      issues: [{ path: 'avatarId', message: 'Expected string' }],
+    });
+
+    const addedItem = await schemaStore
+      .isItemInCollection('guests', 'guest-Travolta')
+      .resolve();
+
+    expect(addedItem).toEqual(new Ok(false));
+  });
+
+  test('Addition with a generated id colliding with an existent item fails with "CollectionItemIdCollision"', async () => {
+    const guestInput = {
+      avatarId: '12',
+      name: 'Travolta',
+      isGuest: true,
+    } as const;
+    await schemaStore.addItemToCollection('guests', guestInput).resolve();
+
+    const actual = await schemaStore
+      .addItemToCollection(
+        'guests',
+        { ...guestInput, avatarId: '3' },
+        undefined,
+        { uniqueIndexBy: [] }
+      )
+      .resolve();
+
+    expect(actual.ok).toBe(false);
+    expect(actual.val).toBe('CollectionItemIdCollision');
+
+    const existentItem = await schemaStore
+      .getItemInCollection('guests', 'guest-Travolta')
+      .resolve();
+
+    expect(existentItem).toEqual(
+      new Ok({ ...guestInput, id: 'guest-Travolta' })
+    );
+  });
+});
+
+describe('Addition with Id Strategies', () => {
+  const schema = {
+    simpleItems: { idStrategy: 'uuid' },
+    guests: { idStrategy: 'ulid' },
+    simpleIndexableItems: { idStrategy: 'nanoid' },
+  } as const;
+
+  let idStore: Store<CollectionMap, {}, typeof schema>;
+
+  beforeAll(() => {
+    idStore = createMockStore<CollectionMap, {}, typeof schema>({
+      namespace: 'testIds',
+      logger: silentLogger,
+      schema,
+    });
+  });
+
+  beforeEach(() => {
+    idStore.flush();
+  });
+
+  test('Sequential ids skip the ones already taken by explicitly given ids', async () => {
+    const input = { name: 'Lee', age: 23 };
+
+    await store
+      .addItemToCollection('simpleItems', input, '3', { foreignKeys: {} })
+      .resolve();
+    const first = await store
+      .addItemToCollection('simpleItems', input, undefined, { foreignKeys: {} })
+      .resolve();
+    const second = await store
+      .addItemToCollection('simpleItems', input, undefined, { foreignKeys: {} })
+      .resolve();
+
+    expect(first.ok && first.val.item.id).toBe('2');
+    expect(second.ok && second.val.item.id).toBe('4');
+  });
+
+  test('Generated ids follow the uuid, ulid and nanoid formats', async () => {
+    const uuidItem = await idStore
+      .addItemToCollection('simpleItems', { name: 'Lee', age: 23 })
+      .resolve();
+    const ulidItem = await idStore
+      .addItemToCollection('guests', {
+        avatarId: '12',
+        name: 'Travolta',
+        isGuest: true,
+      })
+      .resolve();
+    const nanoidItem = await idStore
+      .addItemToCollection('simpleIndexableItems', {
+        name: 'Lee',
+        type: 'pending',
+      })
+      .resolve();
+
+    expect(uuidItem.ok && uuidItem.val.item.id).toMatch(
+      /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/
+    );
+    expect(ulidItem.ok && ulidItem.val.item.id).toMatch(
+      /^[0-9A-HJKMNP-TV-Z]{26}$/
+    );
+    expect(nanoidItem.ok && nanoidItem.val.item.id).toMatch(
+      /^[A-Za-z0-9_-]{21}$/
+    );
+  });
+});
+
+describe('Bulk Addition', () => {
+  test('Adds the Items in one go with a Result for each of them', async () => {
+    await store
+      .addItemToCollection('simpleItems', { name: 'John', age: 23 }, 's1', {
+        uniqueIndexBy: ['name'],
+      })
+      .resolve();
+
+    const actual = await store
+      .addItemsToCollection(
+        'simpleItems',
+        [
+          { val: { name: 'Jack', age: 40 } },
+          { val: { name: 'John', age: 30 } },
+          { val: { name: 'Jim', age: 20 }, id: 's1' },
+          { val: { name: 'Jack', age: 50 } },
+          { val: { name: 'Jane', age: 33 }, id: 's2' },
+        ],
+        { uniqueIndexBy: ['name'], mode: 'create' }
+      )
+      .resolve();
+
+    expect(actual.ok && actual.val.map((result) => result.ok)).toEqual([
+      true,
+      false,
+      false,
+      false,
+      true,
+    ]);
+    expect(actual.ok && actual.val.map((result) => result.val)).toEqual([
+      { index: 2, length: 3, item: { id: '2', name: 'Jack', age: 40 } },
+      'CollectionUniqueIndexViolation',
+      'CollectionItemAlreadyExists',
+      'CollectionUniqueIndexViolation',
+      { index: 3, length: 3, item: { id: 's2', name: 'Jane', age: 33 } },
+    ]);
+
+    const actualItems = await store
+      .getItemsInCollection('simpleItems', ['s1', '2', 's2'])
+      .resolve();
+
+    expect(actualItems).toEqual(
+      new Ok([
+        { id: 's1', name: 'John', age: 23 },
+        { id: '2', name: 'Jack', age: 40 },
+        { id: 's2', name: 'Jane', age: 33 },
+      ])
+    );
+
+    const itemByIndex = await store
+      .getItemInCollectionBy('simpleItems', 'name', 'Jane')
+      .resolve();
+
+    expect(itemByIndex).toEqual(new Ok({ id: 's2', name: 'Jane', age: 33 }));
+  });
+
+  test('An id given more than once fails all but the first with "CollectionItemIdDuplicate"', async () => {
+    const actual = await store
+      .addItemsToCollection(
+        'simpleItems',
+        [
+          { val: { name: 'John', age: 23 }, id: 's1' },
+          { val: { name: 'Jane', age: 30 }, id: 's1' },
+        ],
+        { mode: 'replace' }
+      )
+      .resolve();
+
+    expect(actual.ok && actual.val.map((result) => result.val)).toEqual([
+      { index: 1, length: 1, item: { id: 's1', name: 'John', age: 23 } },
+      'CollectionItemIdDuplicate',
+    ]);
+  });
 });
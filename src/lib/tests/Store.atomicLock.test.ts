@@ -1,3 +1,6 @@
+import redisMock from 'redis-mock';
+import redisLock from 'redis-lock';
+import { promisify } from 'util';
 import { Ok } from 'ts-results';
 import { AsyncResult } from 'ts-async-results';
 import { getRedisMockClient } from './redisMock';
@@ -276,3 +279,300 @@ describe('Atomic: Lock', () => {
     );
   });
 });
+
+describe('Atomic: Lock Options', () => {
+  const lockingStore = createMockStore<CollectionMap, {}>({
+    namespace: 'test',
+    logger: silentLogger,
+    locking: {
+      maxWait: 200,
+      collections: {
+        complexItems: { maxWait: 1000 },
+      },
+    },
+  });
+
+  test('An Addition gives up on a Lock held longer than the maxWait', async () => {
+    const lockResult = await lockingStore
+      .acquireCollectionLock('simpleItems')
+      .resolve();
+
+    const actual = await lockingStore
+      .addItemToCollection('simpleItems', { name: 'John', age: 23 }, 's1')
+      .resolve();
+
+    lockResult.ok && lockResult.val();
+
+    expect(actual.ok).toBe(false);
+    expect(actual.val).toBe('LockAcquisitionTimeout');
+
+    const actualIsAdded = await lockingStore
+      .isItemInCollection('simpleItems', 's1')
+      .resolve();
+
+    expect(actualIsAdded).toEqual(new Ok(false));
+  });
+
+  test('The maxWait given per collection overrides the default one', async () => {
+    const lockResult = await lockingStore
+      .acquireCollectionItemLock('complexItems', 'c1')
+      .resolve();
+
+    // Released after the default maxWait but before the one of the collection
+    setTimeout(() => lockResult.ok && lockResult.val(), 400);
+
+    const actual = await lockingStore
+      .acquireCollectionItemLock('complexItems', 'c1')
+      .resolve();
+
+    actual.ok && actual.val();
+
+    expect(actual.ok).toBe(true);
+  });
+
+  test('lockCollection resolves to the unlock, or rejects past the maxWait', async () => {
+    const unlock = await lockingStore.lockCollection('simpleItems');
+
+    await expect(lockingStore.lockCollection('simpleItems')).rejects.toThrow(
+      'LockAcquisitionTimeout'
+    );
+
+    unlock();
+
+    // The given up acquisition doesn't keep on trying, so it doesn't take the lock later on
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    const actual = await lockingStore
+      .acquireCollectionLock('simpleItems')
+      .resolve();
+
+    actual.ok && actual.val();
+
+    expect(actual.ok).toBe(true);
+  });
+});
+
+describe('Atomic: withLocks', () => {
+  const lockingStore = createMockStore<CollectionMap, {}>({
+    namespace: 'test',
+    logger: silentLogger,
+    locking: { maxWait: 500 },
+  });
+
+  const wait = (ms: number) =>
+    new Promise((resolve) => {
+      setTimeout(resolve, ms);
+    });
+
+  test('Holds the Locks for the whole function, which can still update the locked Items', async () => {
+    await lockingStore
+      .addItemToCollection('simpleItems', { name: 'John', age: 23 }, 's1')
+      .resolve();
+
+    const events: string[] = [];
+
+    // Started outside of the function, while it holds the lock
+    const outsideUpdate = wait(20).then(() =>
+      lockingStore
+        .updateItemInCollection('simpleItems', 's1', { age: 99 })
+        .resolve()
+        .then(() => events.push('outside'))
+    );
+
+    const actual = await lockingStore
+      .withLocks([{ collection: 'simpleItems', id: 's1' }], async () => {
+        const item = await lockingStore
+          .getItemInCollection('simpleItems', 's1')
+          .resolve();
+
+        await lockingStore
+          .updateItemInCollection('simpleItems', 's1', {
+            age: (item.ok ? item.val.age : 0) + 1,
+          })
+          .resolve();
+
+        events.push('inside');
+
+        return 'done';
+      })
+      .resolve();
+
+    await outsideUpdate;
+
+    expect(actual).toEqual(new Ok('done'));
+    expect(events).toEqual(['inside', 'outside']);
+  });
+
+  test('Overlapping calls acquire the Locks in the same order', async () => {
+    const actual = await AsyncResult.all(
+      lockingStore.withLocks(
+        [
+          { collection: 'simpleItems', id: 'a' },
+          { collection: 'complexItems', id: 'b' },
+        ],
+        () => wait(100).then(() => 1)
+      ),
+      lockingStore.withLocks(
+        [
+          { collection: 'complexItems', id: 'b' },
+          { collection: 'simpleItems', id: 'a' },
+        ],
+        () => wait(100).then(() => 2)
+      )
+    ).resolve();
+
+    expect(actual).toEqual(new Ok([1, 2]));
+  });
+
+  test('Fails and releases the Locks when the function throws', async () => {
+    const actual = await lockingStore
+      .withLocks([{ collection: 'simpleItems' }], async () => {
+        throw new Error('Changed my mind');
+      })
+      .resolve();
+
+    expect(actual.ok).toBe(false);
+    expect(actual.val).toBe('CriticalSectionFailure');
+
+    const actualLock = await lockingStore
+      .acquireCollectionLock('simpleItems')
+      .resolve();
+
+    actualLock.ok && actualLock.val();
+
+    expect(actualLock.ok).toBe(true);
+  });
+
+  test('Keeps the Locks extended for as long as the function runs, past their ttl', async () => {
+    const shortLockingStore = createMockStore<CollectionMap, {}>({
+      namespace: 'test',
+      logger: silentLogger,
+      locking: { ttl: 100, maxWait: 20 },
+    });
+
+    const actual = await shortLockingStore
+      .withLocks([{ collection: 'simpleItems', id: 'extended' }], async () => {
+        await wait(300);
+
+        // Taken from outside of the function, i.e. by another process
+        return lockingStore
+          .acquireCollectionItemLock('simpleItems', 'extended')
+          .resolve()
+          .then((lockResult) => lockResult.val);
+      })
+      .resolve();
+
+    expect(actual).toEqual(new Ok('LockAcquisitionTimeout'));
+  });
+
+  test('Fails with "CriticalSectionLockExpired" when a Lock expired while the function ran', async () => {
+    const actual = await lockingStore
+      .withLocks([{ collection: 'simpleItems', id: 'expired' }], async () => {
+        // As if it expired while the process was blocked
+        await lockingStore.redisClient.del(
+          'lock.locked:test::simpleItems:expired'
+        );
+
+        return 'done';
+      })
+      .resolve();
+
+    expect(actual.ok).toBe(false);
+    expect(actual.val).toBe('CriticalSectionLockExpired');
+  });
+
+  test('The Locks stop counting as held once released, even for the work the function left running', async () => {
+    const events: string[] = [];
+    let leftRunning: Promise<unknown> = Promise.resolve();
+
+    await lockingStore
+      .withLocks([{ collection: 'simpleItems', id: 'released' }], async () => {
+        leftRunning = wait(100).then(() =>
+          lockingStore
+            .acquireCollectionItemLock('simpleItems', 'released')
+            .resolve()
+            .then((lockResult) => {
+              events.push('acquired by the work left running');
+              lockResult.ok && lockResult.val();
+            })
+        );
+      })
+      .resolve();
+
+    const lockResult = await lockingStore
+      .acquireCollectionItemLock('simpleItems', 'released')
+      .resolve();
+
+    await wait(200);
+    events.push('released');
+    lockResult.ok && lockResult.val();
+
+    await leftRunning;
+
+    expect(events).toEqual(['released', 'acquired by the work left running']);
+  });
+});
+
+describe('Atomic: redis-lock Compatibility', () => {
+  const lockingStore = createMockStore<CollectionMap, {}>({
+    namespace: 'test',
+    logger: silentLogger,
+    locking: { maxWait: 200 },
+  });
+
+  // A process still running an older version, which locks through redis-lock
+  const legacyLock = promisify(
+    redisLock(getRedisMockClient(redisMock.createClient()).redis)
+  ) as (resource: string) => Promise<() => Promise<void>>;
+
+  const wait = (ms: number) =>
+    new Promise((resolve) => {
+      setTimeout(resolve, ms);
+    });
+
+  test('A Lock held through redis-lock blocks the Store until released', async () => {
+    const legacyUnlock = await legacyLock('locked:test::simpleItems:legacy');
+
+    const actualWhileHeld = await lockingStore
+      .acquireCollectionItemLock('simpleItems', 'legacy')
+      .resolve();
+
+    expect(actualWhileHeld.ok).toBe(false);
+    expect(actualWhileHeld.val).toBe('LockAcquisitionTimeout');
+
+    await legacyUnlock();
+
+    const actualReleased = await lockingStore
+      .acquireCollectionItemLock('simpleItems', 'legacy')
+      .resolve();
+
+    actualReleased.ok && actualReleased.val();
+
+    expect(actualReleased.ok).toBe(true);
+  });
+
+  test('A Lock held by the Store blocks redis-lock until released', async () => {
+    const events: string[] = [];
+    const lockResult = await lockingStore
+      .acquireCollectionItemLock('simpleItems', 'current')
+      .resolve();
+
+    const legacyAcquisition = legacyLock(
+      'locked:test::simpleItems:current'
+    ).then((legacyUnlock) => {
+      events.push('acquired through redis-lock');
+
+      return legacyUnlock;
+    });
+
+    await wait(100);
+    events.push('released');
+    lockResult.ok && lockResult.val();
+
+    const legacyUnlock = await legacyAcquisition;
+
+    await legacyUnlock();
+
+    expect(events).toEqual(['released', 'acquired through redis-lock']);
+  });
+});
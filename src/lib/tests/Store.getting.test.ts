@@ -1,7 +1,8 @@
 import { createMockStore } from '../mockStoreFactory';
-import { Store } from '../Store';
+import { Store, StoreErrors } from '../Store';
+import { CollectionScanReply, toInsertionOrderedCollectionName } from '../util';
 import { CollectionMap, silentLogger } from './testUtils';
-import { Ok, Err } from 'ts-results';
+import { Ok, Err, Result } from 'ts-results';
 import { AsyncResult } from 'ts-async-results';
 
 let store: Store<CollectionMap, {}>;
@@ -464,6 +465,15 @@ describe('Getting Multiple Items', () => {
       .addItemToCollection('peers', input1, undefined, { foreignKeys: {} })
       .resolve();
 
+    await store
+      .addItemToCollection(
+        'guests',
+        { avatarId: '3', name: 'Jack', isGuest: true },
+        'g55',
+        { foreignKeys: {} }
+      )
+      .resolve();
+
     const input2 = {
       hasJoinedRoom: false,
       joinedRoomId: null,
@@ -482,6 +492,9 @@ describe('Getting Multiple Items', () => {
       })
       .resolve();
 
+    // The foreign item can't be referenced when inexistent, but it can still go missing afterwards
+    await store.removeItemInCollection('guests', 'g55').resolve();
+
     const actual = await store
       .getItemsInCollection('peers', ['1', '2'])
       .resolve();
@@ -490,6 +503,102 @@ describe('Getting Multiple Items', () => {
     expect(actual.val).toBe('CollectionFieldInexistent');
   });
 
+  test('Get Items with Inexistent Foreign Items Tolerantly Returns them along with the Dangling References', async () => {
+    const guestInput = { avatarId: '3', name: 'Jack', isGuest: true } as const;
+
+    await store
+      .addItemToCollection('guests', guestInput, 'g1', { foreignKeys: {} })
+      .resolve();
+    await store
+      .addItemToCollection('guests', guestInput, 'g2', { foreignKeys: {} })
+      .resolve();
+
+    const peerP1 = {
+      hasJoinedRoom: false,
+      joinedRoomId: null,
+      joinedRoomAt: null,
+      user: 'g1',
+    } as const;
+
+    await store
+      .addItemToCollection('peers', peerP1, 'p1', {
+        foreignKeys: {
+          user: {
+            type: 'oneToOne',
+            collection: 'guests',
+          },
+        },
+      })
+      .resolve();
+
+    const peerP2 = {
+      hasJoinedRoom: false,
+      joinedRoomId: null,
+      joinedRoomAt: null,
+      user: {
+        g1: null,
+        g2: null,
+      },
+    } as const;
+
+    await store
+      .addItemToCollection('peers', peerP2, 'p2', {
+        foreignKeys: {
+          user: {
+            type: 'oneToMany',
+            collection: 'guests',
+          },
+        },
+      })
+      .resolve();
+
+    await store.removeItemInCollection('guests', 'g1').resolve();
+
+    const actual = await store
+      .getItemsInCollection('peers', ['p1', 'p2'], {
+        tolerateDanglingReferences: true,
+      })
+      .resolve();
+
+    expect(actual).toEqual(
+      new Ok({
+        items: [
+          {
+            ...peerP1,
+            id: 'p1',
+            user: null,
+          },
+          {
+            ...peerP2,
+            id: 'p2',
+            user: {
+              g2: {
+                ...guestInput,
+                id: 'g2',
+              },
+            },
+          },
+        ],
+        danglingReferences: [
+          {
+            collection: 'peers',
+            field: 'user',
+            id: 'p1',
+            foreignCollection: 'guests',
+            foreignId: 'g1',
+          },
+          {
+            collection: 'peers',
+            field: 'user',
+            id: 'p2',
+            foreignCollection: 'guests',
+            foreignId: 'g1',
+          },
+        ],
+      })
+    );
+  });
+
   test('Get Newly Added Items with Foreign Keys', async () => {
     // This is needed here for the spies to be accurate
     const store = createMockStore({ logger: silentLogger });
@@ -500,9 +609,9 @@ describe('Getting Multiple Items', () => {
       name: 'Lee',
     } as const;
 
-    await store.addItemToCollection('guests', guestG4, 'g4', {
-      foreignKeys: {},
-    });
+    await store
+      .addItemToCollection('guests', guestG4, 'g4', { foreignKeys: {} })
+      .resolve();
 
     const peer1 = {
       hasJoinedRoom: false,
@@ -738,62 +847,873 @@ describe('Retrieve All Items in collection', () => {
       ])
     );
   });
+});
+
+describe('All Items In Collection By', () => {
+  test('Retrieve all Items in Collection Indexed By a non unique field', async () => {
+    const endedItem1 = {
+      name: 'ended item 1',
+      type: 'ended',
+    } as const;
+
+    await store
+      .addItemToCollection('simpleIndexableItems', endedItem1, 'ended1Id', {
+        foreignKeys: {},
+        multiIndexBy: ['type'],
+      })
+      .resolve();
+
+    const endedItem2 = {
+      name: 'ended item 2',
+      type: 'ended',
+    } as const;
+
+    await store
+      .addItemToCollection('simpleIndexableItems', endedItem2, 'ended2Id', {
+        foreignKeys: {},
+        multiIndexBy: ['type'],
+      })
+      .resolve();
+
+    const pendingItem1 = {
+      name: 'pending item 1',
+      type: 'pending',
+    } as const;
 
-  // describe('All Items In Collection By', () => {
-  //   test('Retrieve all Items in Collection Indexed By', async () => {
-  //     const endedItem1 = {
-  //       name: 'ended item 1',
-  //       type: 'ended',
-  //     } as const;
-
-  //     await store.addItemToCollection('simpleIndexableItems', endedItem1, 'ended1Id', {
-  //       foreignKeys: {},
-  //       indexBy: ['type'],
-  //     }).resolve();
-
-  //     const endedItem2 = {
-  //       name: 'ended item 2',
-  //       type: 'ended',
-  //     } as const;
-
-  //     await store.addItemToCollection('simpleIndexableItems', endedItem2, 'ended2Id', {
-  //       foreignKeys: {},
-  //       indexBy: ['type'],
-  //     }).resolve();
-
-  //     const pendingItem1 = {
-  //       name: 'pending item 1',
-  //       type: 'pending',
-  //     } as const;
-
-  //     await store.addItemToCollection('simpleIndexableItems', pendingItem1, 'pending1Id', {
-  //       foreignKeys: {},
-  //       indexBy: ['type'],
-  //     }).resolve();
-
-  //     const startedItem1 = {
-  //       name: 'started item 1',
-  //       type: 'started',
-  //     } as const;
-
-  //     await store.addItemToCollection('simpleIndexableItems', startedItem1, 'started1Id', {
-  //       foreignKeys: {},
-  //       indexBy: ['type'],
-  //     }).resolve();
-
-  //     const allItemsResult = await store.getAllItemsInCollection('simpleIndexableItems').resolve();
-
-  //     // expect(2).toEqual(3);
-  //     expect(allItemsResult.ok).toBe(true);
-  //     expect(allItemsResult.val[0]).toEqual({
-  //       id: 'ended1Id',
-  //       ...endedItem1
-  //     });
-  //     expect(allItemsResult.val.length).toEqual(4);
-
-  //     const onlyPendingItemsResult = await store.getAllItemsInCollectionBy('simpleIndexableItems', 'type').resolve();
-
-  //     expect(onlyPendingItemsResult.ok).toBe(true);
-  //   });
-  // });
+    await store
+      .addItemToCollection('simpleIndexableItems', pendingItem1, 'pending1Id', {
+        foreignKeys: {},
+        multiIndexBy: ['type'],
+      })
+      .resolve();
+
+    const allItemsLengthResult = await store
+      .getAllItemsInCollection('simpleIndexableItems')
+      .map((items) => items.length)
+      .resolve();
+
+    expect(allItemsLengthResult).toEqual(new Ok(3));
+
+    const onlyEndedItemsResult = await store
+      .getAllItemsInCollectionBy('simpleIndexableItems', 'type', 'ended')
+      .map((items) => items.sort((a, b) => a.id.localeCompare(b.id)))
+      .resolve();
+
+    expect(onlyEndedItemsResult).toEqual(
+      new Ok([
+        {
+          ...endedItem1,
+          id: 'ended1Id',
+        },
+        {
+          ...endedItem2,
+          id: 'ended2Id',
+        },
+      ])
+    );
+
+    const onlyStartedItemsResult = await store
+      .getAllItemsInCollectionBy('simpleIndexableItems', 'type', 'started')
+      .resolve();
+
+    expect(onlyStartedItemsResult).toEqual(new Ok([]));
+  });
+
+  test('Retrieve all Items Indexed By a non unique field with Foreign Keys resolved', async () => {
+    const guestInput = {
+      avatarId: '12',
+      name: 'Travolta',
+      isGuest: true,
+    } as const;
+
+    await store
+      .addItemToCollection('guests', guestInput, 'g1', { foreignKeys: {} })
+      .resolve();
+
+    const input = {
+      hasJoinedRoom: false,
+      joinedRoomId: 'r1',
+      joinedRoomAt: null,
+      user: 'g1',
+    } as const;
+
+    await store
+      .addItemToCollection('peers', input, 'p1', {
+        foreignKeys: {
+          user: {
+            type: 'oneToOne',
+            collection: 'guests',
+          },
+        },
+        multiIndexBy: ['joinedRoomId'],
+      })
+      .resolve();
+
+    const actual = await store
+      .getAllItemsInCollectionBy('peers', 'joinedRoomId', 'r1')
+      .resolve();
+
+    expect(actual).toEqual(
+      new Ok([
+        {
+          ...input,
+          id: 'p1',
+          user: {
+            ...guestInput,
+            id: 'g1',
+          },
+        },
+      ])
+    );
+  });
+
+  test('Retrieve Items by a compound index over multiple fields', async () => {
+    const items = [
+      { id: 's1', name: 'John', age: 23 },
+      { id: 's2', name: 'John', age: 40 },
+      { id: 's3', name: 'John', age: 23 },
+      { id: 's4', name: 'Jane', age: 23 },
+    ];
+
+    for (const { id, ...item } of items) {
+      await store
+        .addItemToCollection('simpleItems', item, id, {
+          foreignKeys: {},
+          multiIndexBy: [['name', 'age']],
+        })
+        .resolve();
+    }
+
+    // The order of the fields in the lookup doesn't matter
+    const actual = await store
+      .getAllItemsInCollectionBy('simpleItems', { age: 23, name: 'John' })
+      .map((items) => items.map((item) => item.id).sort())
+      .resolve();
+
+    expect(actual).toEqual(new Ok(['s1', 's3']));
+  });
+
+  test('Retrieve Items by an index on a nested field path', async () => {
+    const challenges = [
+      { id: 'c1', timeLimit: 'blitz5' },
+      { id: 'c2', timeLimit: 'bullet1' },
+      { id: 'c3', timeLimit: 'blitz5' },
+    ] as const;
+
+    for (const { id, timeLimit } of challenges) {
+      await store
+        .addItemToCollection(
+          'challenges',
+          {
+            gameSpecs: { timeLimit },
+            createdBy: 'u1',
+            createdAt: '2022-01-01',
+            slug: `${id}-slug`,
+            type: 'public',
+          },
+          id,
+          { foreignKeys: {}, multiIndexBy: ['gameSpecs.timeLimit'] }
+        )
+        .resolve();
+    }
+
+    const actual = await store
+      .getAllItemsInCollectionBy('challenges', 'gameSpecs.timeLimit', 'blitz5')
+      .map((items) => items.map((item) => item.id).sort())
+      .resolve();
+
+    expect(actual).toEqual(new Ok(['c1', 'c3']));
+  });
+});
+
+describe('Referencing Items', () => {
+  const guestInput = {
+    avatarId: '12',
+    name: 'Travolta',
+    isGuest: true,
+  } as const;
+
+  const peerInput = {
+    hasJoinedRoom: false,
+    joinedRoomId: null,
+    joinedRoomAt: null,
+  } as const;
+
+  const foreignKeys = {
+    user: {
+      type: 'oneToOne',
+      collection: 'guests',
+    },
+  } as const;
+
+  test('Retrieve the Items referencing an Item via a Foreign Key', async () => {
+    await store
+      .addItemToCollection('guests', guestInput, 'g1', { foreignKeys: {} })
+      .resolve();
+
+    await store
+      .addItemToCollection('guests', guestInput, 'g2', { foreignKeys: {} })
+      .resolve();
+
+    await store
+      .addItemToCollection('peers', { ...peerInput, user: 'g1' }, 'p1', {
+        foreignKeys,
+      })
+      .resolve();
+
+    await store
+      .addItemToCollection('peers', { ...peerInput, user: 'g2' }, 'p2', {
+        foreignKeys,
+      })
+      .resolve();
+
+    await store
+      .addItemToCollection(
+        'itemWithMultipleForeignCollections',
+        { user: 'g1', peer: { p1: null } },
+        'i1',
+        {
+          foreignKeys: {
+            peer: {
+              type: 'oneToMany',
+              collection: 'peers',
+            },
+            user: {
+              type: 'oneToOne',
+              collection: 'guests',
+            },
+          },
+        }
+      )
+      .resolve();
+
+    const actualPeers = await store
+      .getReferencingItems('guests', 'g1', { from: 'peers', via: 'user' })
+      .resolve();
+
+    expect(actualPeers).toEqual(
+      new Ok([
+        {
+          ...peerInput,
+          id: 'p1',
+          user: {
+            ...guestInput,
+            id: 'g1',
+          },
+        },
+      ])
+    );
+
+    const actualItemIds = await store
+      .getReferencingItems('peers', 'p1', {
+        from: 'itemWithMultipleForeignCollections',
+      })
+      .map((items) => items.map((item) => item.id))
+      .resolve();
+
+    expect(actualItemIds).toEqual(new Ok(['i1']));
+  });
+
+  test('The referencing Items are kept in sync with the updates and removals', async () => {
+    await store
+      .addItemToCollection('guests', guestInput, 'g1', { foreignKeys: {} })
+      .resolve();
+
+    await store
+      .addItemToCollection('guests', guestInput, 'g2', { foreignKeys: {} })
+      .resolve();
+
+    await store
+      .addItemToCollection('peers', { ...peerInput, user: 'g1' }, 'p1', {
+        foreignKeys,
+      })
+      .resolve();
+
+    await store
+      .addItemToCollection('peers', { ...peerInput, user: 'g1' }, 'p2', {
+        foreignKeys,
+      })
+      .resolve();
+
+    await store
+      .updateItemInCollection('peers', 'p1', { user: 'g2' } as {}, {
+        foreignKeys,
+      })
+      .resolve();
+
+    await store.removeItemInCollection('peers', 'p2').resolve();
+
+    const actualIds = await AsyncResult.all(
+      store
+        .getReferencingItems('guests', 'g1', { from: 'peers' })
+        .map((items) => items.map((item) => item.id)),
+      store
+        .getReferencingItems('guests', 'g2', { from: 'peers' })
+        .map((items) => items.map((item) => item.id))
+    ).resolve();
+
+    expect(actualIds).toEqual(new Ok([[], ['p1']]));
+  });
+});
+
+describe('Selective and Depth Limited Resolution', () => {
+  const guestInput = {
+    avatarId: '12',
+    name: 'Travolta',
+    isGuest: true,
+  } as const;
+
+  const peerInput = {
+    hasJoinedRoom: false,
+    joinedRoomId: null,
+    joinedRoomAt: null,
+    user: {
+      g5: null,
+    },
+  } as const;
+
+  const roomInput = {
+    name: 'Blue Romania',
+    peers: {
+      p3: null,
+    },
+  } as const;
+
+  const addRoomWithNestedForeignItems = async (store: Store<any, {}>) => {
+    await store
+      .addItemToCollection('guests', guestInput, 'g5', { foreignKeys: {} })
+      .resolve();
+
+    await store
+      .addItemToCollection('peers', peerInput, 'p3', {
+        foreignKeys: {
+          user: {
+            type: 'oneToMany',
+            collection: 'guests',
+          },
+        },
+      })
+      .resolve();
+
+    await store
+      .addItemToCollection('rooms', roomInput, 'r7', {
+        foreignKeys: {
+          peers: {
+            type: 'oneToMany',
+            collection: 'peers',
+          },
+        },
+      })
+      .resolve();
+  };
+
+  test('The Foreign Items deeper than the given depth are left as ids', async () => {
+    const store = createMockStore<any>({ logger: silentLogger });
+
+    await addRoomWithNestedForeignItems(store);
+
+    const actualWithDepth1 = await store
+      .getItemInCollection('rooms', 'r7', { depth: 1 })
+      .resolve();
+
+    expect(actualWithDepth1).toEqual(
+      new Ok({
+        ...roomInput,
+        id: 'r7',
+        peers: {
+          p3: {
+            ...peerInput,
+            id: 'p3',
+          },
+        },
+      })
+    );
+
+    const actualWithDepth0 = await store
+      .getItemsInCollection('rooms', ['r7'], { depth: 0 })
+      .resolve();
+
+    expect(actualWithDepth0).toEqual(new Ok([{ ...roomInput, id: 'r7' }]));
+  });
+
+  test('Only the included Foreign Keys get resolved', async () => {
+    const store = createMockStore<CollectionMap, {}>({
+      logger: silentLogger,
+    });
+
+    await store
+      .addItemToCollection('guests', guestInput, 'g5', { foreignKeys: {} })
+      .resolve();
+
+    const peerP1 = {
+      hasJoinedRoom: false,
+      joinedRoomId: null,
+      joinedRoomAt: null,
+      user: 'g5',
+    } as const;
+
+    await store
+      .addItemToCollection('peers', peerP1, 'p1', {
+        foreignKeys: {
+          user: {
+            type: 'oneToOne',
+            collection: 'guests',
+          },
+        },
+      })
+      .resolve();
+
+    await store
+      .addItemToCollection(
+        'itemWithMultipleForeignCollections',
+        { user: 'g5', peer: 'p1' },
+        'i1',
+        {
+          foreignKeys: {
+            user: {
+              type: 'oneToOne',
+              collection: 'guests',
+            },
+            peer: {
+              type: 'oneToOne',
+              collection: 'peers',
+            },
+          },
+        }
+      )
+      .resolve();
+
+    const actual = await store
+      .getAllItemsInCollection('itemWithMultipleForeignCollections', {
+        include: ['user'],
+      })
+      .resolve();
+
+    await store
+      // @ts-expect-error
+      .getAllItemsInCollection('peers', { include: ['hasJoinedRoom'] })
+      .resolve();
+
+    expect(actual).toEqual(
+      new Ok([
+        {
+          id: 'i1',
+          user: {
+            ...guestInput,
+            id: 'g5',
+          },
+          peer: 'p1',
+        },
+      ])
+    );
+  });
+
+  test('The Foreign Items pointing back to an Item above them are left as ids', async () => {
+    const store = createMockStore<any>({ logger: silentLogger });
+
+    await store
+      .addItemToCollection('guests', guestInput, 'g1', { foreignKeys: {} })
+      .resolve();
+
+    const peerP1 = {
+      ...peerInput,
+      user: {
+        g1: null,
+      },
+    };
+
+    await store
+      .addItemToCollection('peers', peerP1, 'p1', {
+        foreignKeys: {
+          user: {
+            type: 'oneToMany',
+            collection: 'guests',
+          },
+        },
+      })
+      .resolve();
+
+    await store
+      .updateItemInCollection(
+        'guests',
+        'g1',
+        { peer: 'p1' },
+        {
+          foreignKeys: {
+            peer: {
+              type: 'oneToOne',
+              collection: 'peers',
+            },
+          },
+          migrateForeignKeys: true,
+        }
+      )
+      .resolve();
+
+    const actual = await store.getItemInCollection('guests', 'g1').resolve();
+
+    expect(actual).toEqual(
+      new Ok({
+        ...guestInput,
+        id: 'g1',
+        peer: {
+          ...peerP1,
+          id: 'p1',
+        },
+      })
+    );
+  });
+});
+
+describe('Getting Raw Items', () => {
+  test('Get the Raw Item with its Foreign Keys left as ids', async () => {
+    const guestInput = {
+      avatarId: '12',
+      name: 'Travolta',
+      isGuest: true,
+    } as const;
+
+    await store
+      .addItemToCollection('guests', guestInput, 'g1', {
+        foreignKeys: {},
+        indexBy: ['name'],
+      })
+      .resolve();
+
+    const peerInput = {
+      hasJoinedRoom: false,
+      joinedRoomId: null,
+      joinedRoomAt: null,
+      user: 'g1',
+    } as const;
+    const peerForeignKeys = {
+      user: {
+        type: 'oneToOne',
+        collection: 'guests',
+      },
+    } as const;
+
+    await store
+      .addItemToCollection('peers', peerInput, 'p1', {
+        foreignKeys: peerForeignKeys,
+      })
+      .resolve();
+
+    const actualPeer = await store
+      .getRawItemInCollection('peers', 'p1')
+      .resolve();
+
+    expect(actualPeer).toEqual(
+      new Ok({
+        id: 'p1',
+        val: peerInput,
+        foreignKeys: peerForeignKeys,
+        version: 1,
+      })
+    );
+
+    const actualGuests = await store
+      .getRawItemsInCollection('guests', ['g1'])
+      .resolve();
+
+    expect(actualGuests).toEqual(
+      new Ok([
+        {
+          id: 'g1',
+          val: guestInput,
+          indexedIn: {
+            'test::guests:by:name': 'Travolta',
+          },
+          version: 1,
+        },
+      ])
+    );
+  });
+
+  test('Attempting to get an Inexistent Raw Item Returns a CollectionFieldInexistent Error', async () => {
+    const actual = await store.getRawItemInCollection('peers', 'p9').resolve();
+
+    expect(actual.ok).toBe(false);
+    expect(actual.val).toBe('CollectionFieldInexistent');
+  });
+});
+
+describe('Scanning Collection', () => {
+  const addSimpleItems = async (count: number) => {
+    for (let i = 1; i <= count; i++) {
+      await store
+        .addItemToCollection(
+          'simpleItems',
+          { name: `item ${i}`, age: 20 + i },
+          `s${i}`,
+          { foreignKeys: {} }
+        )
+        .resolve();
+    }
+  };
+
+  test('Scan the Collection page by page until the cursor runs out', async () => {
+    await addSimpleItems(5);
+
+    const scannedItems: CollectionMap['simpleItems'][] = [];
+    let pagesCount = 0;
+    let cursor: string | undefined = undefined;
+
+    do {
+      const page: Result<
+        CollectionScanReply<CollectionMap['simpleItems']>,
+        StoreErrors
+      > = await store
+        .scanCollection('simpleItems', { count: 2, cursor })
+        .resolve();
+
+      if (!page.ok) {
+        throw page.val;
+      }
+
+      // The count is only a hint, but the mock sticks to it
+      expect(page.val.items.length).toBeLessThanOrEqual(2);
+
+      pagesCount++;
+      scannedItems.push(...page.val.items);
+      cursor = page.val.nextCursor === null ? undefined : page.val.nextCursor;
+    } while (cursor !== undefined);
+
+    expect(pagesCount).toBeGreaterThan(1);
+    expect(scannedItems).toEqual([
+      { id: 's1', name: 'item 1', age: 21 },
+      { id: 's2', name: 'item 2', age: 22 },
+      { id: 's3', name: 'item 3', age: 23 },
+      { id: 's4', name: 'item 4', age: 24 },
+      { id: 's5', name: 'item 5', age: 25 },
+    ]);
+  });
+
+  test('List all the Items in Collection as an async iterator', async () => {
+    await addSimpleItems(3);
+
+    const listedItems: CollectionMap['simpleItems'][] = [];
+
+    for await (const page of store.listItemsInCollection('simpleItems', {
+      count: 2,
+    })) {
+      if (!page.ok) {
+        throw page.val;
+      }
+
+      listedItems.push(...page.val);
+    }
+
+    expect(listedItems).toEqual([
+      { id: 's1', name: 'item 1', age: 21 },
+      { id: 's2', name: 'item 2', age: 22 },
+      { id: 's3', name: 'item 3', age: 23 },
+    ]);
+  });
+});
+
+describe('Ordered Items In Collection', () => {
+  test('Retrieve the Items in the order they were added', async () => {
+    const ids = ['c', 'a', 'd', 'b'];
+
+    for (const id of ids) {
+      await store
+        .addItemToCollection(
+          'simpleItems',
+          { name: `item ${id}`, age: 20 },
+          id,
+          { foreignKeys: {} }
+        )
+        .resolve();
+    }
+
+    const toIds = (items: { id: string }[]) => items.map((item) => item.id);
+
+    const actualOldestFirst = await store
+      .getOrderedItemsInCollection('simpleItems')
+      .map(toIds)
+      .resolve();
+
+    expect(actualOldestFirst).toEqual(new Ok(['c', 'a', 'd', 'b']));
+
+    const actualMostRecent = await store
+      .getOrderedItemsInCollection('simpleItems', {
+        order: 'newestFirst',
+        limit: 2,
+      })
+      .resolve();
+
+    expect(actualMostRecent).toEqual(
+      new Ok([
+        { id: 'b', name: 'item b', age: 20 },
+        { id: 'd', name: 'item d', age: 20 },
+      ])
+    );
+
+    await store.removeItemInCollection('simpleItems', 'd').resolve();
+
+    const actualAfterRemoval = await store
+      .getOrderedItemsInCollection('simpleItems', {
+        order: 'newestFirst',
+        offset: 1,
+      })
+      .map(toIds)
+      .resolve();
+
+    expect(actualAfterRemoval).toEqual(new Ok(['a', 'c']));
+  });
+
+  test('The Items stored before the insertion order was kept get added to it once rebuilt', async () => {
+    for (const id of ['b', 'a', undefined, undefined]) {
+      await store
+        .addItemToCollection('simpleItems', { name: 'item', age: 20 }, id)
+        .resolve();
+    }
+
+    // As left by a version not keeping the insertion order yet
+    await store.redisClient.del(
+      toInsertionOrderedCollectionName('test::simpleItems')
+    );
+
+    await store
+      .addItemToCollection('simpleItems', { name: 'item', age: 20 }, 'z')
+      .resolve();
+
+    const getOrderedIds = () =>
+      store
+        .getOrderedItemsInCollection('simpleItems')
+        .map((items) => items.map((item) => item.id))
+        .resolve();
+
+    expect(await getOrderedIds()).toEqual(new Ok(['z']));
+
+    const rebuilt = await store.rebuildInsertionOrder('simpleItems').resolve();
+
+    expect(rebuilt).toEqual(new Ok(4));
+
+    // The sequential ids go first, by their number, and the others follow by id
+    expect(await getOrderedIds()).toEqual(new Ok(['3', '4', 'a', 'b', 'z']));
+
+    const rebuiltAgain = await store
+      .rebuildInsertionOrder('simpleItems')
+      .resolve();
+
+    expect(rebuiltAgain).toEqual(new Ok(0));
+  });
+
+  test('The Items stored before the insertion order was kept get added to it in the given order', async () => {
+    for (const [id, age] of [
+      ['a', 30],
+      ['b', 10],
+      ['c', 20],
+    ] as const) {
+      await store
+        .addItemToCollection('simpleItems', { name: 'item', age }, id)
+        .resolve();
+    }
+
+    await store.redisClient.del(
+      toInsertionOrderedCollectionName('test::simpleItems')
+    );
+
+    await store
+      .rebuildInsertionOrder('simpleItems', (a, b) => a.age - b.age)
+      .resolve();
+
+    const actual = await store
+      .getOrderedItemsInCollection('simpleItems')
+      .map((items) => items.map((item) => item.id))
+      .resolve();
+
+    expect(actual).toEqual(new Ok(['b', 'c', 'a']));
+  });
+});
+
+describe('Items In Collection In Range', () => {
+  test('Retrieve the Items with a rangeIndexBy field between min and max', async () => {
+    const ages = [15, 30, 20, 35, 25];
+
+    for (const age of ages) {
+      await store
+        .addItemToCollection(
+          'simpleItems',
+          { name: `item ${age}`, age },
+          `s${age}`,
+          { foreignKeys: {}, rangeIndexBy: ['age'] }
+        )
+        .resolve();
+    }
+
+    const toAges = (items: { age: number }[]) => items.map((item) => item.age);
+
+    const actualBetween = await store
+      .getItemsInCollectionInRange('simpleItems', 'age', { min: 18, max: 30 })
+      .map(toAges)
+      .resolve();
+
+    expect(actualBetween).toEqual(new Ok([20, 25, 30]));
+
+    const actualOldestTwo = await store
+      .getItemsInCollectionInRange('simpleItems', 'age', {
+        min: 18,
+        order: 'desc',
+        limit: 2,
+      })
+      .resolve();
+
+    expect(actualOldestTwo).toEqual(
+      new Ok([
+        { id: 's35', name: 'item 35', age: 35 },
+        { id: 's30', name: 'item 30', age: 30 },
+      ])
+    );
+
+    const actualWithOffset = await store
+      .getItemsInCollectionInRange('simpleItems', 'age', { offset: 3 })
+      .map(toAges)
+      .resolve();
+
+    expect(actualWithOffset).toEqual(new Ok([30, 35]));
+  });
+
+  test('The Items whose rangeIndexBy field is not a number are left out of the range', async () => {
+    await store
+      .addItemToCollection('simpleItems', { name: 'item 20', age: 20 }, 's1', {
+        foreignKeys: {},
+        rangeIndexBy: ['age'],
+      })
+      .resolve();
+
+    const added = await store
+      .addItemToCollection(
+        'simpleItems',
+        // As it would come from an untyped JSON payload
+        JSON.parse('{ "name": "item ?", "age": "unknown" }'),
+        's2',
+        { foreignKeys: {}, rangeIndexBy: ['age'] }
+      )
+      .resolve();
+
+    expect(added.ok).toBe(true);
+
+    const getIdsInRange = () =>
+      store
+        .getItemsInCollectionInRange('simpleItems', 'age')
+        .map((items) => items.map((item) => item.id))
+        .resolve();
+
+    expect(await getIdsInRange()).toEqual(new Ok(['s1']));
+
+    await store
+      .updateItemInCollection('simpleItems', 's1', { age: null } as {})
+      .resolve();
+
+    expect(await getIdsInRange()).toEqual(new Ok([]));
+
+    await store
+      .updateItemInCollection('simpleItems', 's2', { age: 30 })
+      .resolve();
+
+    expect(await getIdsInRange()).toEqual(new Ok(['s2']));
+  });
 });
@@ -0,0 +1,188 @@
+import redisMock from 'redis-mock';
+import { RedisClient } from 'redis';
+import { promisify } from 'util';
+import { Ok } from 'ts-results';
+import { getRedisMockClient } from './redisMock';
+import { createMockStore } from '../mockStoreFactory';
+import { createRedlockProvider } from '../locks';
+import { CollectionMap, QueueMap, silentLogger } from './testUtils';
+
+// Independent nodes, each on its own db of the mock
+const nodes = [1, 2, 3].map(
+  (db) => getRedisMockClient(redisMock.createClient({ db })).redis
+);
+
+const setOnNodes = (count: number, key: string) =>
+  Promise.all(
+    nodes
+      .slice(0, count)
+      .map((node) =>
+        promisify(node.set).bind(node, key, 'someone else', 'PX', 1000)()
+      )
+  );
+
+// A node that's down, never calling back
+const unreachableNode = {
+  set: () => true,
+  eval: () => true,
+  evalsha: () => true,
+} as unknown as RedisClient;
+
+// Two processes sharing the same nodes
+const toStore = () =>
+  createMockStore<CollectionMap, QueueMap>({
+    namespace: 'test',
+    logger: silentLogger,
+    locking: {
+      maxWait: 300,
+      provider: createRedlockProvider(nodes),
+    },
+  });
+
+const store = toStore();
+const otherStore = toStore();
+
+beforeEach(async () => {
+  await Promise.all(nodes.map((node) => promisify(node.flushdb).bind(node)()));
+});
+
+describe('Redlock', () => {
+  const lockOpts = { ttl: 1000, retryDelay: 20, maxWait: 200 };
+
+  test('A Lock is acquired once set on a majority of the nodes', async () => {
+    const provider = createRedlockProvider(nodes);
+
+    // Left by a holder that lost the other nodes, i.e. in a failover
+    await setOnNodes(1, 'lock.minority');
+
+    const actualWithMajority = await provider.acquire('minority', lockOpts);
+
+    expect(actualWithMajority).toBeDefined();
+
+    await setOnNodes(2, 'lock.majority');
+
+    const actualWithMinority = await provider.acquire('majority', lockOpts);
+
+    expect(actualWithMinority).toBeUndefined();
+  });
+
+  test('A Lock held through one Store blocks the other ones until released', async () => {
+    const lockResult = await store
+      .acquireCollectionItemLock('simpleItems', 's1')
+      .resolve();
+
+    const actualWhileHeld = await otherStore
+      .updateItemInCollection('simpleItems', 's1', { age: 24 })
+      .resolve();
+
+    expect(actualWhileHeld.ok).toBe(false);
+    expect(actualWhileHeld.val).toBe('LockAcquisitionTimeout');
+
+    await new Promise<void>((resolve) => {
+      lockResult.ok && lockResult.val(resolve);
+    });
+
+    const actualAdded = await otherStore
+      .addItemToCollection('simpleItems', { name: 'John', age: 23 }, 's1')
+      .resolve();
+
+    expect(actualAdded.ok).toBe(true);
+
+    const actualUpdated = await otherStore
+      .updateItemInCollection('simpleItems', 's1', { age: 24 })
+      .resolve();
+
+    expect(actualUpdated).toEqual(new Ok({ id: 's1', name: 'John', age: 24 }));
+  });
+
+  test('Releasing a Lock that expired leaves the one taken by its next holder', async () => {
+    const provider = createRedlockProvider(nodes);
+
+    const expiredUnlock = await provider.acquire('expiring', {
+      ...lockOpts,
+      ttl: 50,
+    });
+
+    expect(expiredUnlock).toBeDefined();
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    const nextUnlock = await provider.acquire('expiring', lockOpts);
+
+    expect(nextUnlock).toBeDefined();
+
+    await new Promise<void>((resolve) => expiredUnlock?.(resolve));
+
+    const actualWhileHeld = await provider.acquire('expiring', lockOpts);
+
+    expect(actualWhileHeld).toBeUndefined();
+
+    await new Promise<void>((resolve) => nextUnlock?.(resolve));
+
+    const actualReleased = await provider.acquire('expiring', lockOpts);
+
+    expect(actualReleased).toBeDefined();
+  });
+
+  test('An extended Lock stays held past its ttl, unless it expired before', async () => {
+    const provider = createRedlockProvider(nodes);
+
+    const extendedLock = await provider.acquire('extended', {
+      ...lockOpts,
+      ttl: 100,
+    });
+
+    const actualExtended = await extendedLock?.extend(1000);
+
+    expect(actualExtended).toBe(true);
+
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    const actualWhileHeld = await provider.acquire('extended', lockOpts);
+
+    expect(actualWhileHeld).toBeUndefined();
+
+    await new Promise<void>((resolve) => extendedLock?.(resolve));
+
+    const expiredLock = await provider.acquire('expired', {
+      ...lockOpts,
+      ttl: 50,
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    const actualExpired = await expiredLock?.extend(1000);
+
+    expect(actualExpired).toBe(false);
+  });
+
+  test('A node not replying counts as a failed one instead of holding up the others', async () => {
+    const startedAt = Date.now();
+    const provider = createRedlockProvider(
+      [...nodes.slice(0, 2), unreachableNode],
+      {
+        nodeTimeout: 50,
+      }
+    );
+
+    const actualUnlock = await provider.acquire('unreachable', lockOpts);
+
+    expect(actualUnlock).toBeDefined();
+
+    await new Promise<void>((resolve) => actualUnlock?.(resolve));
+
+    const providerWithoutMajority = createRedlockProvider(
+      [nodes[0], unreachableNode, unreachableNode],
+      { nodeTimeout: 50 }
+    );
+
+    const actualWithoutMajority = await providerWithoutMajority.acquire(
+      'unreachable',
+      lockOpts
+    );
+
+    expect(actualWithoutMajority).toBeUndefined();
+    // Given up at the maxWait, instead of waiting on the nodes for good
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+  });
+});
@@ -3,6 +3,7 @@ import { Store } from '../Store';
 import { CollectionMap, QueueMap, silentLogger } from './testUtils';
 import { Ok } from 'ts-results';
 import { AsyncResult } from 'ts-async-results';
+import { toReferencedByCollectionName } from '../util';
 
 let store: Store<CollectionMap, QueueMap>;
 
@@ -312,6 +313,74 @@ describe('Removal', () => {
     expect(newItemByPreviousIndex.val).toBe('CollectionFieldInexistent');
   });
 
+  test('Removing an Item with a multiIndexBy only removes it from its index value', async () => {
+    await store
+      .addItemToCollection(
+        'simpleIndexableItems',
+        { name: 'item 1', type: 'ended' },
+        'i1',
+        { foreignKeys: {}, multiIndexBy: ['type'] }
+      )
+      .resolve();
+
+    await store
+      .addItemToCollection(
+        'simpleIndexableItems',
+        { name: 'item 2', type: 'ended' },
+        'i2',
+        { foreignKeys: {}, multiIndexBy: ['type'] }
+      )
+      .resolve();
+
+    await store.removeItemInCollection('simpleIndexableItems', 'i1').resolve();
+
+    const actual = await store
+      .getAllItemsInCollectionBy('simpleIndexableItems', 'type', 'ended')
+      .resolve();
+
+    expect(actual).toEqual(
+      new Ok([
+        {
+          id: 'i2',
+          name: 'item 2',
+          type: 'ended',
+        },
+      ])
+    );
+  });
+
+  test('Removing an Item with a rangeIndexBy also removes it from the range index', async () => {
+    await store
+      .addItemToCollection('simpleItems', { name: 'item 1', age: 20 }, 's1', {
+        foreignKeys: {},
+        rangeIndexBy: ['age'],
+      })
+      .resolve();
+
+    await store
+      .addItemToCollection('simpleItems', { name: 'item 2', age: 25 }, 's2', {
+        foreignKeys: {},
+        rangeIndexBy: ['age'],
+      })
+      .resolve();
+
+    await store.removeItemInCollection('simpleItems', 's1').resolve();
+
+    const actual = await store
+      .getItemsInCollectionInRange('simpleItems', 'age')
+      .resolve();
+
+    expect(actual).toEqual(
+      new Ok([
+        {
+          id: 's2',
+          name: 'item 2',
+          age: 25,
+        },
+      ])
+    );
+  });
+
   test('Remove Entire Collection', async () => {
     await AsyncResult.all(
       store.addItemToCollection(
@@ -379,4 +448,568 @@ describe('Removal', () => {
 
     expect(actual).toEqual(new Ok([]));
   });
+
+  test('Removing with a stale expectedVersion fails with "CollectionVersionConflict" and leaves the item in place', async () => {
+    await store
+      .addItemToCollection('simpleItems', { name: 'John', age: 23 }, 's1')
+      .resolve();
+
+    await store
+      .updateItemInCollection('simpleItems', 's1', { age: 24 })
+      .resolve();
+
+    const actualStale = await store
+      .removeItemInCollection('simpleItems', 's1', { expectedVersion: 1 })
+      .resolve();
+
+    expect(actualStale.ok).toBe(false);
+    expect(actualStale.val).toBe('CollectionVersionConflict');
+
+    const actual = await store
+      .removeItemInCollection('simpleItems', 's1', { expectedVersion: 2 })
+      .resolve();
+
+    expect(actual.ok).toBe(true);
+
+    const actualLeft = await store
+      .isItemInCollection('simpleItems', 's1')
+      .resolve();
+
+    expect(actualLeft).toEqual(new Ok(false));
+  });
+});
+
+describe('Removal with onDelete policies', () => {
+  const guestInput = {
+    avatarId: '12',
+    name: 'Travolta',
+    isGuest: true,
+  } as const;
+
+  const peerInput = {
+    hasJoinedRoom: false,
+    joinedRoomId: null,
+    joinedRoomAt: null,
+  } as const;
+
+  test('Removing an Item referenced with a "restrict" policy fails and leaves everything untouched', async () => {
+    await store
+      .addItemToCollection('guests', guestInput, 'g1', { foreignKeys: {} })
+      .resolve();
+
+    await store
+      .addItemToCollection('peers', { ...peerInput, user: 'g1' }, 'p1', {
+        foreignKeys: {
+          user: {
+            type: 'oneToOne',
+            collection: 'guests',
+            onDelete: 'restrict',
+          },
+        },
+      })
+      .resolve();
+
+    const actual = await store.removeItemInCollection('guests', 'g1').resolve();
+
+    expect(actual.ok).toBe(false);
+    expect(actual.val).toEqual({
+      type: 'CollectionDeletionRestricted',
+      referencedBy: [{ collection: 'peers', field: 'user', id: 'p1' }],
+    });
+
+    const actualPeer = await store.getItemInCollection('peers', 'p1').resolve();
+
+    expect(actualPeer).toEqual(
+      new Ok({
+        ...peerInput,
+        id: 'p1',
+        user: {
+          ...guestInput,
+          id: 'g1',
+        },
+      })
+    );
+  });
+
+  test('Removing an Item referenced with a "cascade" policy removes the referencing Items as well', async () => {
+    await store
+      .addItemToCollection('guests', guestInput, 'g1', { foreignKeys: {} })
+      .resolve();
+
+    await store
+      .addItemToCollection('peers', { ...peerInput, user: 'g1' }, 'p1', {
+        foreignKeys: {
+          user: {
+            type: 'oneToOne',
+            collection: 'guests',
+            onDelete: 'cascade',
+          },
+        },
+      })
+      .resolve();
+
+    await store
+      .addItemToCollection(
+        'itemWithMultipleForeignCollections',
+        { user: 'g1', peer: { p1: null } },
+        'i1',
+        {
+          foreignKeys: {
+            peer: {
+              type: 'oneToMany',
+              collection: 'peers',
+              onDelete: 'cascade',
+            },
+            user: {
+              type: 'oneToOne',
+              collection: 'guests',
+            },
+          },
+        }
+      )
+      .resolve();
+
+    const actual = await store.removeItemInCollection('guests', 'g1').resolve();
+
+    expect(actual).toEqual(
+      new Ok({
+        index: 1,
+        item: undefined,
+        length: 0,
+      })
+    );
+
+    const actualLeftItems = await AsyncResult.all(
+      store.isItemInCollection('peers', 'p1'),
+      store.isItemInCollection('itemWithMultipleForeignCollections', 'i1')
+    ).resolve();
+
+    expect(actualLeftItems).toEqual(new Ok([false, false]));
+  });
+
+  test('Removing an Item referenced with the "setNull" and "removeFromMany" policies only detaches it', async () => {
+    await store
+      .addItemToCollection('guests', guestInput, 'g1', { foreignKeys: {} })
+      .resolve();
+
+    await store
+      .addItemToCollection('peers', { ...peerInput, user: 'g1' }, 'p1', {
+        foreignKeys: {
+          user: {
+            type: 'oneToOne',
+            collection: 'guests',
+            onDelete: 'setNull',
+          },
+        },
+      })
+      .resolve();
+
+    await store
+      .addItemToCollection('peers', { ...peerInput, user: 'g1' }, 'p2', {
+        foreignKeys: {
+          user: {
+            type: 'oneToOne',
+            collection: 'guests',
+          },
+        },
+      })
+      .resolve();
+
+    await store
+      .addItemToCollection(
+        'itemWithMultipleForeignCollections',
+        { user: 'g1', peer: { p1: null, p2: null } },
+        'i1',
+        {
+          foreignKeys: {
+            peer: {
+              type: 'oneToMany',
+              collection: 'peers',
+              onDelete: 'removeFromMany',
+            },
+            user: {
+              type: 'oneToOne',
+              collection: 'guests',
+              onDelete: 'setNull',
+            },
+          },
+        }
+      )
+      .resolve();
+
+    await store.removeItemInCollection('peers', 'p2').resolve();
+    await store.removeItemInCollection('guests', 'g1').resolve();
+
+    const actual = await store
+      .getItemInCollection('itemWithMultipleForeignCollections', 'i1')
+      .resolve();
+
+    expect(actual).toEqual(
+      new Ok({
+        id: 'i1',
+        user: null,
+        peer: {
+          p1: {
+            ...peerInput,
+            id: 'p1',
+            user: null,
+          },
+        },
+      })
+    );
+  });
+
+  test('Removing an Item by Index still applies the policies', async () => {
+    await store
+      .addItemToCollection('guests', guestInput, 'g1', {
+        foreignKeys: {},
+        indexBy: ['name'],
+      })
+      .resolve();
+
+    await store
+      .addItemToCollection('peers', { ...peerInput, user: 'g1' }, 'p1', {
+        foreignKeys: {
+          user: {
+            type: 'oneToOne',
+            collection: 'guests',
+            onDelete: 'restrict',
+          },
+        },
+      })
+      .resolve();
+
+    const actual = await store
+      .removeItemInCollectionBy('guests', 'name', guestInput.name)
+      .resolve();
+
+    expect(actual.ok).toBe(false);
+    expect(actual.val).toEqual({
+      type: 'CollectionDeletionRestricted',
+      referencedBy: [{ collection: 'peers', field: 'user', id: 'p1' }],
+    });
+  });
+
+  test('Removing an entire Collection applies the policies of each Item', async () => {
+    await store
+      .addItemToCollection('guests', guestInput, 'g1', { foreignKeys: {} })
+      .resolve();
+
+    await store
+      .addItemToCollection('peers', { ...peerInput, user: 'g1' }, 'p1', {
+        foreignKeys: {
+          user: {
+            type: 'oneToOne',
+            collection: 'guests',
+            onDelete: 'restrict',
+          },
+        },
+      })
+      .resolve();
+
+    const actualRestricted = await store.removeCollection('guests').resolve();
+
+    expect(actualRestricted.ok).toBe(false);
+    expect(actualRestricted.val).toEqual({
+      type: 'CollectionDeletionRestricted',
+      referencedBy: [{ collection: 'peers', field: 'user', id: 'p1' }],
+    });
+
+    // The referencing items in the removed collection itself don't restrict it
+    await store.removeCollection('peers').resolve();
+
+    const actual = await store.removeCollection('guests').resolve();
+
+    expect(actual).toEqual(new Ok(undefined));
+
+    const actualGuests = await store
+      .getAllItemsInCollection('guests')
+      .resolve();
+
+    expect(actualGuests).toEqual(new Ok([]));
+  });
+  test('Removing an Item waits for the locked updates of the Items referencing it', async () => {
+    await store
+      .addItemToCollection('guests', guestInput, 'g1', { foreignKeys: {} })
+      .resolve();
+
+    await store
+      .addItemToCollection('peers', { ...peerInput, user: 'g1' }, 'p1', {
+        foreignKeys: {
+          user: {
+            type: 'oneToOne',
+            collection: 'guests',
+            onDelete: 'setNull',
+          },
+        },
+      })
+      .resolve();
+
+    // Started outside of the critical section, while it holds the peer lock
+    const removal = new Promise((resolve) => setTimeout(resolve, 20)).then(() =>
+      store.removeItemInCollection('guests', 'g1').resolve()
+    );
+
+    const actualDuringUpdate = await store
+      .withLocks([{ collection: 'peers', id: 'p1' }], async () => {
+        // Gives the removal the time to go through if it didn't wait for the peer
+        await new Promise((resolve) => setTimeout(resolve, 200));
+
+        await store
+          .updateItemInCollection('peers', 'p1', { hasJoinedRoom: true })
+          .resolve();
+
+        return store.isItemInCollection('guests', 'g1').resolve();
+      })
+      .resolve();
+
+    expect(actualDuringUpdate).toEqual(new Ok(new Ok(true)));
+
+    const actualRemoval = await removal;
+
+    expect(actualRemoval.ok).toBe(true);
+
+    const actualPeer = await store.getItemInCollection('peers', 'p1').resolve();
+
+    expect(actualPeer).toEqual(
+      new Ok({ ...peerInput, id: 'p1', hasJoinedRoom: true, user: null })
+    );
+  });
+
+  test('Removing a Collection waits for the locked updates of its Items', async () => {
+    await store
+      .addItemToCollection('simpleItems', { name: 'John', age: 23 }, 's1', {
+        uniqueIndexBy: ['name'],
+      })
+      .resolve();
+
+    // Started outside of the critical section, while it holds the item lock
+    const removal = new Promise((resolve) => setTimeout(resolve, 20)).then(() =>
+      store.removeCollection('simpleItems').resolve()
+    );
+
+    const actualDuringUpdate = await store
+      .withLocks([{ collection: 'simpleItems', id: 's1' }], async () => {
+        // Gives the removal the time to go through if it didn't wait for the item
+        await new Promise((resolve) => setTimeout(resolve, 200));
+
+        await store
+          .updateItemInCollection('simpleItems', 's1', { name: 'Johnny' })
+          .resolve();
+
+        return store.isItemInCollection('simpleItems', 's1').resolve();
+      })
+      .resolve();
+
+    expect(actualDuringUpdate).toEqual(new Ok(new Ok(true)));
+
+    const actualRemoval = await removal;
+
+    expect(actualRemoval.ok).toBe(true);
+
+    // Nothing of the updated item is left behind, its index included
+    const actualByName = await store
+      .getItemInCollectionBy('simpleItems', 'name', 'Johnny')
+      .resolve();
+
+    expect(actualByName.ok).toBe(false);
+  });
+
+  test('Rebuilding the references of a Collection gets its policies applied again', async () => {
+    await store
+      .addItemToCollection('guests', guestInput, 'g1', { foreignKeys: {} })
+      .resolve();
+
+    await store
+      .addItemToCollection('peers', { ...peerInput, user: 'g1' }, 'p1', {
+        foreignKeys: {
+          user: {
+            type: 'oneToOne',
+            collection: 'guests',
+            onDelete: 'restrict',
+          },
+        },
+      })
+      .resolve();
+
+    // As stored before the references were kept
+    await store.redisClient.del(
+      toReferencedByCollectionName('test::guests', 'g1')
+    );
+
+    const actualRebuilt = await store
+      .rebuildCollectionReferences('peers')
+      .resolve();
+
+    expect(actualRebuilt).toEqual(new Ok(1));
+
+    const actual = await store.removeItemInCollection('guests', 'g1').resolve();
+
+    expect(actual.ok).toBe(false);
+    expect(actual.val).toEqual({
+      type: 'CollectionDeletionRestricted',
+      referencedBy: [{ collection: 'peers', field: 'user', id: 'p1' }],
+    });
+  });
+});
+
+describe('Bulk Removal', () => {
+  const guestInput = {
+    avatarId: '12',
+    name: 'Travolta',
+    isGuest: true,
+  } as const;
+
+  test('Removes the Items in one go with a Result for each of them', async () => {
+    await store
+      .addItemToCollection('guests', guestInput, 'g1', { foreignKeys: {} })
+      .resolve();
+
+    await store
+      .addItemToCollection('guests', guestInput, 'g2', { foreignKeys: {} })
+      .resolve();
+
+    await store
+      .addItemToCollection('guests', guestInput, 'g3', { foreignKeys: {} })
+      .resolve();
+
+    await store
+      .addItemToCollection(
+        'peers',
+        {
+          hasJoinedRoom: false,
+          joinedRoomId: null,
+          joinedRoomAt: null,
+          user: 'g2',
+        },
+        'p1',
+        {
+          foreignKeys: {
+            user: {
+              type: 'oneToOne',
+              collection: 'guests',
+              onDelete: 'restrict',
+            },
+          },
+        }
+      )
+      .resolve();
+
+    const actual = await store
+      .removeItemsInCollection('guests', ['g1', 'g2', 'inexistent', 'g3'])
+      .resolve();
+
+    expect(actual.ok && actual.val.map((result) => result.ok)).toEqual([
+      true,
+      false,
+      false,
+      true,
+    ]);
+    expect(actual.ok && actual.val.map((result) => result.val)).toEqual([
+      { index: 3, item: undefined, length: 1 },
+      {
+        type: 'CollectionDeletionRestricted',
+        referencedBy: [{ collection: 'peers', field: 'user', id: 'p1' }],
+      },
+      'CollectionFieldInexistent',
+      { index: 3, item: undefined, length: 1 },
+    ]);
+
+    const actualLeftItems = await AsyncResult.all(
+      store.isItemInCollection('guests', 'g1'),
+      store.isItemInCollection('guests', 'g2'),
+      store.isItemInCollection('guests', 'g3')
+    ).resolve();
+
+    expect(actualLeftItems).toEqual(new Ok([false, true, false]));
+  });
+
+  test('Removing the Items waits for the locked updates of the Items referencing them', async () => {
+    await store
+      .addItemToCollection('guests', guestInput, 'g1', { foreignKeys: {} })
+      .resolve();
+
+    await store
+      .addItemToCollection('guests', guestInput, 'g2', { foreignKeys: {} })
+      .resolve();
+
+    await store
+      .addItemToCollection(
+        'peers',
+        {
+          hasJoinedRoom: false,
+          joinedRoomId: null,
+          joinedRoomAt: null,
+          user: 'g2',
+        },
+        'p1',
+        {
+          foreignKeys: {
+            user: {
+              type: 'oneToOne',
+              collection: 'guests',
+              onDelete: 'setNull',
+            },
+          },
+        }
+      )
+      .resolve();
+
+    // Started outside of the critical section, while it holds the peer lock
+    const removal = new Promise((resolve) => setTimeout(resolve, 20)).then(() =>
+      store.removeItemsInCollection('guests', ['g1', 'g2']).resolve()
+    );
+
+    const actualDuringUpdate = await store
+      .withLocks([{ collection: 'peers', id: 'p1' }], async () => {
+        // Gives the removal the time to go through if it didn't wait for the peer
+        await new Promise((resolve) => setTimeout(resolve, 200));
+
+        await store
+          .updateItemInCollection('peers', 'p1', { hasJoinedRoom: true })
+          .resolve();
+
+        return AsyncResult.all(
+          store.isItemInCollection('guests', 'g1'),
+          store.isItemInCollection('guests', 'g2')
+        ).resolve();
+      })
+      .resolve();
+
+    expect(actualDuringUpdate).toEqual(new Ok(new Ok([true, true])));
+
+    const actualRemoval = await removal;
+
+    expect(actualRemoval.ok && actualRemoval.val.map((r) => r.ok)).toEqual([
+      true,
+      true,
+    ]);
+
+    const actualPeer = await store.getItemInCollection('peers', 'p1').resolve();
+
+    expect(actualPeer).toEqual(
+      new Ok({
+        id: 'p1',
+        hasJoinedRoom: true,
+        joinedRoomId: null,
+        joinedRoomAt: null,
+        user: null,
+      })
+    );
+  });
+
+  test('An id given more than once fails all but the first with "CollectionItemIdDuplicate"', async () => {
+    await store
+      .addItemToCollection('guests', guestInput, 'g1', { foreignKeys: {} })
+      .resolve();
+
+    const actual = await store
+      .removeItemsInCollection('guests', ['g1', 'g1'])
+      .resolve();
+
+    expect(actual.ok && actual.val.map((result) => result.val)).toEqual([
+      { index: 1, item: undefined, length: 0 },
+      'CollectionItemIdDuplicate',
+    ]);
+  });
 });
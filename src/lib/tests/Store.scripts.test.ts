@@ -0,0 +1,533 @@
+import { Ok } from 'ts-results';
+import { createMockStore } from '../mockStoreFactory';
+import { Store } from '../Store';
+import { GUARDED_WRITE_SCRIPT } from '../scripts';
+import { toInsertionOrderedCollectionName } from '../util';
+import { CollectionMap, QueueMap, silentLogger } from './testUtils';
+
+let store: Store<CollectionMap, QueueMap>;
+// Writes in between, the same as any other process would
+let otherStore: Store<CollectionMap, QueueMap>;
+
+beforeAll(() => {
+  store = createMockStore<CollectionMap, QueueMap>({
+    namespace: 'test',
+    logger: silentLogger,
+    atomicity: 'scripts',
+  });
+  otherStore = createMockStore<CollectionMap, QueueMap>({
+    namespace: 'test',
+    logger: silentLogger,
+  });
+});
+
+beforeEach(() => {
+  store.flush();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+// Runs the given callback right before each guarded write gets sent, until it returns false
+const onGuardedWrite = (
+  callback: (keys: string[], args: string[]) => Promise<unknown> | boolean
+) => {
+  const evalsha = store.redisClient.evalsha;
+  const spy = jest
+    .spyOn(store.redisClient, 'evalsha')
+    .mockImplementation(async (sha, numKeys, keys, args) => {
+      if (
+        sha === GUARDED_WRITE_SCRIPT.sha &&
+        (await callback(keys, args)) === false
+      ) {
+        spy.mockRestore();
+      }
+
+      return evalsha.call(store.redisClient, sha, numKeys, keys, args);
+    });
+};
+
+// Runs the given write right before the next guarded write only
+const writeBeforeNextScript = (write: () => Promise<unknown>) =>
+  onGuardedWrite(async () => {
+    await write();
+
+    return false;
+  });
+
+describe('Atomicity with Scripts', () => {
+  test('Commits the Writes through a Script given every Key it touches', async () => {
+    const scriptCalls: { keys: string[]; args: string[] }[] = [];
+
+    onGuardedWrite((keys, args) => {
+      scriptCalls.push({ keys, args });
+
+      return true;
+    });
+
+    const actualAdded = await store
+      .addItemToCollection('simpleItems', { name: 'John', age: 23 }, 's1')
+      .resolve();
+
+    expect(actualAdded.ok).toBe(true);
+
+    const actualUpdated = await store
+      .updateItemInCollection('simpleItems', 's1', { age: 24 })
+      .resolve();
+
+    expect(actualUpdated).toEqual(new Ok({ id: 's1', name: 'John', age: 24 }));
+
+    const actualRemoved = await store
+      .removeItemInCollection('simpleItems', 's1')
+      .resolve();
+
+    expect(actualRemoved.ok).toBe(true);
+
+    const actualLeft = await store
+      .isItemInCollection('simpleItems', 's1')
+      .resolve();
+
+    expect(actualLeft).toEqual(new Ok(false));
+
+    expect(scriptCalls.length).toBe(3);
+    expect(scriptCalls[0].keys).toEqual([
+      'test::simpleItems',
+      toInsertionOrderedCollectionName('test::simpleItems'),
+    ]);
+
+    // The commands only refer to their keys by position
+    scriptCalls.forEach(({ keys, args }) => {
+      const commands = JSON.parse(args[1]) as [string, number[]][];
+
+      commands.forEach(([, positions]) => {
+        positions.forEach((position) => {
+          expect(keys[position - 1]).toBeDefined();
+        });
+      });
+    });
+  });
+
+  test('Computes the Update again when the Item changed in between', async () => {
+    await store
+      .addItemToCollection('simpleItems', { name: 'John', age: 23 }, 's1')
+      .resolve();
+
+    writeBeforeNextScript(() =>
+      otherStore
+        .updateItemInCollection('simpleItems', 's1', { age: 30 })
+        .resolve()
+    );
+
+    const actual = await store
+      .updateItemInCollection('simpleItems', 's1', (prev) => ({
+        age: prev.age + 1,
+      }))
+      .resolve();
+
+    expect(actual).toEqual(new Ok({ id: 's1', name: 'John', age: 31 }));
+  });
+
+  test('Computes the Addition again when the Item got added in between', async () => {
+    writeBeforeNextScript(() =>
+      otherStore
+        .addItemToCollection('simpleItems', { name: 'Jane', age: 30 }, 's1')
+        .resolve()
+    );
+
+    const actual = await store
+      .addItemToCollection('simpleItems', { name: 'John', age: 23 }, 's1', {
+        mode: 'create',
+      })
+      .resolve();
+
+    expect(actual.ok).toBe(false);
+    expect(actual.val).toBe('CollectionItemAlreadyExists');
+
+    const actualItem = await store
+      .getItemInCollection('simpleItems', 's1')
+      .resolve();
+
+    expect(actualItem).toEqual(new Ok({ id: 's1', name: 'Jane', age: 30 }));
+  });
+
+  test('Fails with "CollectionVersionConflict" when the Removal of an expected version conflicts', async () => {
+    await store
+      .addItemToCollection('simpleItems', { name: 'John', age: 23 }, 's1')
+      .resolve();
+
+    writeBeforeNextScript(() =>
+      otherStore
+        .updateItemInCollection('simpleItems', 's1', { age: 30 })
+        .resolve()
+    );
+
+    const actual = await store
+      .removeItemInCollection('simpleItems', 's1', { expectedVersion: 1 })
+      .resolve();
+
+    expect(actual.ok).toBe(false);
+    expect(actual.val).toBe('CollectionVersionConflict');
+
+    const actualItem = await store
+      .getItemInCollection('simpleItems', 's1')
+      .resolve();
+
+    expect(actualItem).toEqual(new Ok({ id: 's1', name: 'John', age: 30 }));
+  });
+
+  test('Sends the Script again once it is not cached anymore', async () => {
+    // As replied once the script cache got flushed, i.e. after a restart
+    jest
+      .spyOn(store.redisClient, 'evalsha')
+      .mockRejectedValueOnce(
+        new Error('NOSCRIPT No matching script. Please use EVAL.')
+      );
+
+    const evalSpy = jest.spyOn(store.redisClient, 'eval');
+
+    const actual = await store
+      .addItemToCollection('simpleItems', { name: 'John', age: 23 }, 's1')
+      .resolve();
+
+    expect(actual.ok).toBe(true);
+    expect(evalSpy).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Optimistic Updates', () => {
+  beforeEach(async () => {
+    await store
+      .addItemToCollection('simpleItems', { name: 'John', age: 23 }, 's1', {
+        uniqueIndexBy: ['name'],
+      })
+      .resolve();
+  });
+
+  test('Applies the given values again when the Item changed in between', async () => {
+    writeBeforeNextScript(() =>
+      otherStore
+        .updateItemInCollection('simpleItems', 's1', { name: 'Johnny' })
+        .resolve()
+    );
+
+    const actual = await store
+      .updateItemInCollection('simpleItems', 's1', { age: 24 })
+      .resolve();
+
+    expect(actual).toEqual(new Ok({ id: 's1', name: 'Johnny', age: 24 }));
+  });
+
+  test('Fails with "CollectionVersionConflict" when the expected version changed in between', async () => {
+    writeBeforeNextScript(() =>
+      otherStore
+        .updateItemInCollection('simpleItems', 's1', { age: 30 })
+        .resolve()
+    );
+
+    const actual = await store
+      .updateItemInCollection(
+        'simpleItems',
+        's1',
+        { age: 24 },
+        { expectedVersion: 1 }
+      )
+      .resolve();
+
+    expect(actual.ok).toBe(false);
+    expect(actual.val).toBe('CollectionVersionConflict');
+  });
+
+  test('Fails with "CollectionFieldInexistent" when the Item got removed in between', async () => {
+    writeBeforeNextScript(() =>
+      otherStore.removeItemInCollection('simpleItems', 's1').resolve()
+    );
+
+    const actual = await store
+      .updateItemInCollection(
+        'simpleItems',
+        's1',
+        { age: 24 },
+        { expectedVersion: 1 }
+      )
+      .resolve();
+
+    expect(actual.ok).toBe(false);
+    expect(actual.val).toBe('CollectionFieldInexistent');
+  });
+
+  test('Fails with "CollectionUniqueIndexViolation" when the unique value got taken in between', async () => {
+    await store
+      .addItemToCollection('simpleItems', { name: 'Jane', age: 30 }, 's2', {
+        uniqueIndexBy: ['name'],
+      })
+      .resolve();
+
+    writeBeforeNextScript(() =>
+      otherStore
+        .updateItemInCollection('simpleItems', 's2', { name: 'Bob' })
+        .resolve()
+    );
+
+    const actual = await store
+      .updateItemInCollection(
+        'simpleItems',
+        's1',
+        { name: 'Bob' },
+        { expectedVersion: 1 }
+      )
+      .resolve();
+
+    expect(actual.ok).toBe(false);
+    expect(actual.val).toBe('CollectionUniqueIndexViolation');
+  });
+
+  test('Fails with "CollectionForeignItemsInexistent" when the foreign Item got removed in between', async () => {
+    const foreignKeys = {
+      user: { type: 'oneToOne', collection: 'guests' },
+    } as const;
+    const guestInput = {
+      avatarId: '1',
+      name: 'Guest',
+      isGuest: true,
+    } as const;
+
+    await store
+      .addItemToCollection('guests', guestInput, 'g1', { foreignKeys: {} })
+      .resolve();
+
+    await store
+      .addItemToCollection('guests', guestInput, 'g2', { foreignKeys: {} })
+      .resolve();
+
+    await store
+      .addItemToCollection(
+        'peers',
+        {
+          hasJoinedRoom: false,
+          joinedRoomId: null,
+          joinedRoomAt: null,
+          user: 'g1',
+        },
+        'p1',
+        { foreignKeys }
+      )
+      .resolve();
+
+    writeBeforeNextScript(() =>
+      otherStore.removeItemInCollection('guests', 'g2').resolve()
+    );
+
+    const actual = await store
+      .updateItemInCollection('peers', 'p1', { user: 'g2' } as {}, {
+        foreignKeys,
+        expectedVersion: 1,
+      })
+      .resolve();
+
+    expect(actual.ok).toBe(false);
+    expect(actual.val).toEqual({
+      type: 'CollectionForeignItemsInexistent',
+      missingForeignItems: [{ collection: 'guests', ids: ['g2'] }],
+    });
+  });
+});
+
+describe('Bulk Writes with Scripts', () => {
+  test('Commits the Bulk Writes and the Collection Removal through Scripts without taking any Lock', async () => {
+    const acquireLockSpy = jest.spyOn(store as any, 'acquireLock');
+    const acquireLocksSpy = jest.spyOn(store as any, 'acquireLocks');
+    let scriptCallsCount = 0;
+
+    onGuardedWrite(() => {
+      scriptCallsCount++;
+
+      return true;
+    });
+
+    const actualAdded = await store
+      .addItemsToCollection('simpleItems', [
+        { val: { name: 'John', age: 23 }, id: 's1' },
+        { val: { name: 'Jane', age: 30 }, id: 's2' },
+      ])
+      .resolve();
+
+    expect(actualAdded.ok && actualAdded.val.every((r) => r.ok)).toBe(true);
+
+    const actualUpdated = await store
+      .updateItemsInCollection('simpleItems', [
+        { id: 's1', item: { age: 24 } },
+        { id: 's2', item: { age: 31 } },
+      ])
+      .resolve();
+
+    expect(actualUpdated).toEqual(
+      new Ok([
+        new Ok({ id: 's1', name: 'John', age: 24 }),
+        new Ok({ id: 's2', name: 'Jane', age: 31 }),
+      ])
+    );
+
+    const actualRemoved = await store
+      .removeItemsInCollection('simpleItems', ['s1'])
+      .resolve();
+
+    expect(actualRemoved.ok && actualRemoved.val.every((r) => r.ok)).toBe(true);
+
+    const actualCollectionRemoved = await store
+      .removeCollection('simpleItems')
+      .resolve();
+
+    expect(actualCollectionRemoved.ok).toBe(true);
+    expect(scriptCallsCount).toBe(4);
+    expect(acquireLockSpy).not.toHaveBeenCalled();
+    expect(acquireLocksSpy).not.toHaveBeenCalled();
+  });
+
+  test('Computes the Bulk Update again when an Item changed in between', async () => {
+    await store
+      .addItemsToCollection('simpleItems', [
+        { val: { name: 'John', age: 23 }, id: 's1' },
+        { val: { name: 'Jane', age: 30 }, id: 's2' },
+      ])
+      .resolve();
+
+    writeBeforeNextScript(() =>
+      otherStore
+        .updateItemInCollection('simpleItems', 's2', { age: 40 })
+        .resolve()
+    );
+
+    const actual = await store
+      .updateItemsInCollection('simpleItems', [
+        { id: 's1', item: (prev) => ({ age: prev.age + 1 }) },
+        { id: 's2', item: (prev) => ({ age: prev.age + 1 }) },
+      ])
+      .resolve();
+
+    expect(actual).toEqual(
+      new Ok([
+        new Ok({ id: 's1', name: 'John', age: 24 }),
+        new Ok({ id: 's2', name: 'Jane', age: 41 }),
+      ])
+    );
+  });
+
+  test('Fails only the Item added in between of a Bulk Addition with "CollectionItemAlreadyExists"', async () => {
+    writeBeforeNextScript(() =>
+      otherStore
+        .addItemToCollection('simpleItems', { name: 'Jane', age: 30 }, 's2')
+        .resolve()
+    );
+
+    const actual = await store
+      .addItemsToCollection(
+        'simpleItems',
+        [
+          { val: { name: 'John', age: 23 }, id: 's1' },
+          { val: { name: 'Jack', age: 40 }, id: 's2' },
+        ],
+        { mode: 'create' }
+      )
+      .resolve();
+
+    expect(actual.ok && actual.val.map((r) => r.ok)).toEqual([true, false]);
+    expect(actual.ok && actual.val[1].val).toBe('CollectionItemAlreadyExists');
+
+    const actualItem = await store
+      .getItemInCollection('simpleItems', 's2')
+      .resolve();
+
+    expect(actualItem).toEqual(new Ok({ id: 's2', name: 'Jane', age: 30 }));
+  });
+
+  test('Removes the Item added in between along with the rest of the Collection', async () => {
+    await store
+      .addItemToCollection('simpleItems', { name: 'John', age: 23 }, 's1')
+      .resolve();
+
+    let scriptCallsCount = 0;
+
+    onGuardedWrite(async () => {
+      scriptCallsCount++;
+
+      if (scriptCallsCount === 1) {
+        await otherStore
+          .addItemToCollection('simpleItems', { name: 'Jane', age: 30 }, 's2')
+          .resolve();
+      }
+
+      return true;
+    });
+
+    const actual = await store.removeCollection('simpleItems').resolve();
+
+    expect(actual.ok).toBe(true);
+    // The changed length of the Collection fails the first attempt
+    expect(scriptCallsCount).toBe(2);
+
+    const actualLeft = await store
+      .isItemInCollection('simpleItems', 's2')
+      .resolve();
+
+    expect(actualLeft).toEqual(new Ok(false));
+  });
+});
+
+describe('Guarded Write Script', () => {
+  // Given with their keys as positions, the same as the store sends them
+  const toGuards = (guards: { [kind: string]: unknown[] }) =>
+    JSON.stringify({
+      items: [],
+      uniqueValues: [],
+      existentItems: [],
+      references: [],
+      lengths: [],
+      ...guards,
+    });
+
+  test('Applies none of the commands once a guard fails', async () => {
+    const actual = await store.redisClient.eval(
+      GUARDED_WRITE_SCRIPT.source,
+      2,
+      ['test::simpleItems', 'test::other'],
+      [
+        toGuards({ items: [[1, 's1', 1]] }),
+        JSON.stringify([
+          ['hset', [2], 'field', 'value'],
+          ['hset', [1], 's1', '{}'],
+        ]),
+      ]
+    );
+
+    expect(actual).toEqual(['MISSING', 1]);
+
+    const actualWritten = await store.redisClient.hgetall('test::other');
+
+    expect(actualWritten).toBe(null);
+  });
+
+  test('Compares the references regardless of the order of their members', async () => {
+    await store.redisClient.execMulti(
+      store.redisClient.multi().sadd('test::references', 'b', 'a')
+    );
+
+    const actualSame = await store.redisClient.eval(
+      GUARDED_WRITE_SCRIPT.source,
+      1,
+      ['test::references'],
+      [toGuards({ references: [[1, ['a', 'b']]] }), '[]']
+    );
+
+    expect(actualSame).toEqual(['OK']);
+
+    const actualChanged = await store.redisClient.eval(
+      GUARDED_WRITE_SCRIPT.source,
+      1,
+      ['test::references'],
+      [toGuards({ references: [[1, ['a', 'c']]] }), '[]']
+    );
+
+    expect(actualChanged).toEqual(['REFERENCES', 1]);
+  });
+});
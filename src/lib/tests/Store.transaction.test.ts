@@ -0,0 +1,492 @@
+import { createMockStore } from '../mockStoreFactory';
+import { Store } from '../Store';
+import { CollectionMap, QueueMap, silentLogger } from './testUtils';
+import { Ok } from 'ts-results';
+import { AsyncResult } from 'ts-async-results';
+
+let store: Store<CollectionMap, QueueMap>;
+
+beforeAll(() => {
+  store = createMockStore<CollectionMap, QueueMap>({
+    namespace: 'test',
+    logger: silentLogger,
+  });
+});
+
+beforeEach(() => {
+  store.flush();
+});
+
+describe('Transaction', () => {
+  const guestInput = {
+    avatarId: '12',
+    name: 'Travolta',
+    isGuest: true,
+  } as const;
+
+  const peerInput = {
+    hasJoinedRoom: false,
+    joinedRoomId: null,
+    joinedRoomAt: null,
+  } as const;
+
+  const peerForeignKeys = {
+    user: {
+      type: 'oneToOne',
+      collection: 'guests',
+    },
+  } as const;
+
+  test('Commits all the staged writes at once', async () => {
+    const actual = await store
+      .transaction(async (tx) => {
+        const guest = await tx
+          .addItemToCollection('guests', guestInput, 'g1', { foreignKeys: {} })
+          .resolve();
+
+        // The guest isn't stored yet, but it's already there for the transaction
+        const peer = await tx
+          .addItemToCollection('peers', { ...peerInput, user: 'g1' }, 'p1', {
+            foreignKeys: peerForeignKeys,
+          })
+          .resolve();
+
+        await tx.enqueue('quickPairings', { challengeId: 'c1' }).resolve();
+
+        return [guest.ok, peer.ok];
+      })
+      .resolve();
+
+    expect(actual).toEqual(new Ok([true, true]));
+
+    const actualPeer = await store.getItemInCollection('peers', 'p1').resolve();
+
+    expect(actualPeer).toEqual(
+      new Ok({
+        ...peerInput,
+        id: 'p1',
+        user: { ...guestInput, id: 'g1' },
+      })
+    );
+
+    const actualQueueSize = await store.getQueueSize('quickPairings').resolve();
+
+    expect(actualQueueSize).toEqual(new Ok(1));
+  });
+
+  test('A failing operation rolls back the ones staged before it', async () => {
+    const actual = await store
+      .transaction(async (tx) => {
+        await tx
+          .addItemToCollection('guests', guestInput, 'g1', { foreignKeys: {} })
+          .resolve();
+
+        await tx.enqueue('quickPairings', { challengeId: 'c1' }).resolve();
+
+        await tx
+          .addItemToCollection(
+            'peers',
+            { ...peerInput, user: 'inexistent' },
+            'p1',
+            { foreignKeys: peerForeignKeys }
+          )
+          .resolve();
+      })
+      .resolve();
+
+    expect(actual.ok).toBe(false);
+    expect(actual.val).toEqual({
+      type: 'CollectionForeignItemsInexistent',
+      missingForeignItems: [{ collection: 'guests', ids: ['inexistent'] }],
+    });
+
+    const actualLeftItems = await AsyncResult.all(
+      store.isItemInCollection('guests', 'g1'),
+      store.isItemInCollection('peers', 'p1')
+    ).resolve();
+
+    expect(actualLeftItems).toEqual(new Ok([false, false]));
+
+    const actualQueueSize = await store.getQueueSize('quickPairings').resolve();
+
+    expect(actualQueueSize).toEqual(new Ok(0));
+  });
+
+  test('An error thrown in the transaction rolls back everything', async () => {
+    await store
+      .addItemToCollection('simpleItems', { name: 'John', age: 23 }, 's1')
+      .resolve();
+
+    const actual = await store
+      .transaction(async (tx) => {
+        await tx
+          .updateItemInCollection('simpleItems', 's1', { age: 24 })
+          .resolve();
+
+        await tx.removeItemInCollection('simpleItems', 's1').resolve();
+
+        throw new Error('Changed my mind');
+      })
+      .resolve();
+
+    expect(actual.ok).toBe(false);
+    expect(actual.val).toBe('TransactionFailure');
+
+    const actualItem = await store
+      .getItemInCollection('simpleItems', 's1')
+      .resolve();
+
+    expect(actualItem).toEqual(new Ok({ id: 's1', name: 'John', age: 23 }));
+  });
+
+  test('The operations see the ones staged before them', async () => {
+    await store
+      .addItemToCollection('simpleItems', { name: 'John', age: 23 }, 's1', {
+        uniqueIndexBy: ['name'],
+      })
+      .resolve();
+
+    const actual = await store
+      .transaction(async (tx) => {
+        // Releases "John" and takes "Jack"
+        await tx
+          .updateItemInCollection('simpleItems', 's1', { name: 'Jack' })
+          .resolve();
+
+        const staged = await tx
+          .getRawItemInCollection('simpleItems', 's1')
+          .resolve();
+
+        const takingReleased = await tx
+          .addItemToCollection('simpleItems', { name: 'John', age: 40 }, 's2', {
+            uniqueIndexBy: ['name'],
+          })
+          .resolve();
+
+        return [staged.ok && staged.val.val, takingReleased.ok];
+      })
+      .resolve();
+
+    expect(actual).toEqual(new Ok([{ name: 'Jack', age: 23 }, true]));
+
+    const actualItems = await store
+      .getItemsInCollection('simpleItems', ['s1', 's2'])
+      .resolve();
+
+    expect(actualItems).toEqual(
+      new Ok([
+        { id: 's1', name: 'Jack', age: 23 },
+        { id: 's2', name: 'John', age: 40 },
+      ])
+    );
+
+    const actualTakenInTransaction = await store
+      .transaction(async (tx) => {
+        await tx
+          .addItemToCollection('simpleItems', { name: 'Jim', age: 1 }, 's3', {
+            uniqueIndexBy: ['name'],
+          })
+          .resolve();
+
+        await tx
+          .addItemToCollection('simpleItems', { name: 'Jim', age: 2 }, 's4', {
+            uniqueIndexBy: ['name'],
+          })
+          .resolve();
+      })
+      .resolve();
+
+    expect(actualTakenInTransaction.ok).toBe(false);
+    expect(actualTakenInTransaction.val).toBe('CollectionUniqueIndexViolation');
+  });
+
+  test('Removing an Item referenced by one staged in the same transaction is restricted', async () => {
+    await store
+      .addItemToCollection('guests', guestInput, 'g1', { foreignKeys: {} })
+      .resolve();
+
+    const actual = await store
+      .transaction(async (tx) => {
+        await tx
+          .addItemToCollection('peers', { ...peerInput, user: 'g1' }, 'p1', {
+            foreignKeys: peerForeignKeys,
+          })
+          .resolve();
+
+        await tx.removeItemInCollection('guests', 'g1').resolve();
+      })
+      .resolve();
+
+    expect(actual.ok).toBe(false);
+    expect(actual.val).toEqual({
+      type: 'CollectionDeletionRestricted',
+      referencedBy: [{ collection: 'peers', field: 'user', id: 'p1' }],
+    });
+
+    const actualLeftItems = await AsyncResult.all(
+      store.isItemInCollection('guests', 'g1'),
+      store.isItemInCollection('peers', 'p1')
+    ).resolve();
+
+    expect(actualLeftItems).toEqual(new Ok([true, false]));
+  });
+
+  test('Taking the locks of a unique update in the opposite order does not deadlock', async () => {
+    await store
+      .addItemToCollection('simpleItems', { name: 'John', age: 23 }, 's1', {
+        uniqueIndexBy: ['name'],
+      })
+      .resolve();
+
+    const startedAt = Date.now();
+
+    // Takes the item lock first, then the collection one for the unique value
+    const update = new Promise((resolve) => setTimeout(resolve, 20)).then(() =>
+      store
+        .updateItemInCollection('simpleItems', 's1', { name: 'Johnny' })
+        .resolve()
+    );
+
+    // Needs the collection lock for the addition first, then the item one
+    const actual = await store
+      .transaction(async (tx) => {
+        await tx
+          .addItemToCollection('simpleItems', { name: 'Jane', age: 30 }, 's2', {
+            uniqueIndexBy: ['name'],
+          })
+          .resolve();
+
+        await new Promise((resolve) => setTimeout(resolve, 300));
+
+        await tx
+          .updateItemInCollection('simpleItems', 's1', { age: 24 })
+          .resolve();
+      })
+      .resolve();
+
+    const actualUpdate = await update;
+
+    expect(actual.ok).toBe(true);
+    expect(actualUpdate.ok).toBe(true);
+    // Way under the lock ttl, which a deadlock would have to wait for
+    expect(Date.now() - startedAt).toBeLessThan(2000);
+
+    const actualItems = await AsyncResult.all(
+      store.getItemInCollection('simpleItems', 's1'),
+      store.getItemInCollection('simpleItems', 's2')
+    ).resolve();
+
+    expect(actualItems).toEqual(
+      new Ok([
+        { id: 's1', name: 'Johnny', age: 24 },
+        { id: 's2', name: 'Jane', age: 30 },
+      ])
+    );
+  });
+
+  test('An Item changed after it got read fails the commit with "CollectionVersionConflict"', async () => {
+    await store
+      .addItemToCollection('simpleItems', { name: 'John', age: 23 }, 's1')
+      .resolve();
+
+    const actual = await store
+      .transaction(async (tx) => {
+        await tx
+          .updateItemInCollection('simpleItems', 's1', { age: 24 })
+          .resolve();
+
+        // Written outside of the transaction, before its commit
+        await store
+          .updateItemInCollection('simpleItems', 's1', { name: 'Johnny' })
+          .resolve();
+      })
+      .resolve();
+
+    expect(actual.ok).toBe(false);
+    expect(actual.val).toBe('CollectionVersionConflict');
+
+    const actualItem = await store
+      .getItemInCollection('simpleItems', 's1')
+      .resolve();
+
+    expect(actualItem).toEqual(new Ok({ id: 's1', name: 'Johnny', age: 23 }));
+  });
+
+  test('The Items the removal policies write to get locked and checked for the commit', async () => {
+    await store
+      .addItemToCollection('guests', guestInput, 'g1', { foreignKeys: {} })
+      .resolve();
+
+    await store
+      .addItemToCollection('peers', { ...peerInput, user: 'g1' }, 'p1', {
+        foreignKeys: {
+          user: { ...peerForeignKeys.user, onDelete: 'setNull' },
+        },
+      })
+      .resolve();
+
+    // Started outside of the critical section, while it holds the peer lock
+    const transaction = new Promise((resolve) => setTimeout(resolve, 20)).then(
+      () =>
+        store
+          .transaction(async (tx) => {
+            await tx.removeItemInCollection('guests', 'g1').resolve();
+          })
+          .resolve()
+    );
+
+    await store
+      .withLocks([{ collection: 'peers', id: 'p1' }], async () => {
+        await new Promise((resolve) => setTimeout(resolve, 200));
+
+        await store
+          .updateItemInCollection('peers', 'p1', { hasJoinedRoom: true })
+          .resolve();
+      })
+      .resolve();
+
+    // The peer changed since the removal plan got computed, so nothing gets overwritten
+    const actual = await transaction;
+
+    expect(actual.ok).toBe(false);
+    expect(actual.val).toBe('CollectionVersionConflict');
+
+    const actualPeer = await store.getItemInCollection('peers', 'p1').resolve();
+
+    expect(actualPeer).toEqual(
+      new Ok({
+        ...peerInput,
+        id: 'p1',
+        hasJoinedRoom: true,
+        user: { ...guestInput, id: 'g1' },
+      })
+    );
+  });
+
+  test('A rolled back Transaction does not use up any index', async () => {
+    await store
+      .transaction(async (tx) => {
+        await tx
+          .addItemToCollection('simpleItems', { name: 'John', age: 23 })
+          .resolve();
+
+        throw new Error('Rolled back');
+      })
+      .resolve();
+
+    const actual = await store
+      .transaction(async (tx) =>
+        tx
+          .addItemToCollection('simpleItems', { name: 'Jane', age: 30 })
+          .resolve()
+      )
+      .resolve();
+
+    expect(actual.ok && actual.val.ok && actual.val.val.id).toBe('1');
+
+    const actualItem = await store
+      .getItemInCollection('simpleItems', '1')
+      .resolve();
+
+    expect(actualItem).toEqual(new Ok({ id: '1', name: 'Jane', age: 30 }));
+  });
+
+  test('The insertion indexes get reserved by the commit, after the ones taken in between', async () => {
+    const actual = await store
+      .transaction(async (tx) => {
+        await tx
+          .addItemToCollection('simpleItems', { name: 'John', age: 23 }, 's1')
+          .resolve();
+
+        // Added outside of the transaction, before its commit
+        await store
+          .addItemToCollection('simpleItems', { name: 'Jane', age: 30 }, 's2')
+          .resolve();
+      })
+      .resolve();
+
+    expect(actual.ok).toBe(true);
+
+    const actualOrdered = await store
+      .getOrderedItemsInCollection('simpleItems')
+      .map((items) => items.map((item) => item.id))
+      .resolve();
+
+    expect(actualOrdered).toEqual(new Ok(['s2', 's1']));
+  });
+
+  test('An Item added after its id got taken fails the commit with "CollectionItemAlreadyExists"', async () => {
+    const actual = await store
+      .transaction(async (tx) => {
+        await tx
+          .addItemToCollection('simpleItems', { name: 'John', age: 23 }, 's1')
+          .resolve();
+
+        await store
+          .addItemToCollection('simpleItems', { name: 'Jane', age: 30 }, 's1')
+          .resolve();
+      })
+      .resolve();
+
+    expect(actual.ok).toBe(false);
+    expect(actual.val).toBe('CollectionItemAlreadyExists');
+
+    const actualItem = await store
+      .getItemInCollection('simpleItems', 's1')
+      .resolve();
+
+    expect(actualItem).toEqual(new Ok({ id: 's1', name: 'Jane', age: 30 }));
+  });
+
+  test('An upsert keeps the indexes and the insertion order of the Item it merges into', async () => {
+    await store
+      .addItemToCollection('simpleItems', { name: 'John', age: 23 }, 's1', {
+        uniqueIndexBy: ['name'],
+      })
+      .resolve();
+
+    await store
+      .addItemToCollection('simpleItems', { name: 'Jane', age: 30 }, 's2')
+      .resolve();
+
+    const actual = await store
+      .transaction(async (tx) => {
+        await tx
+          .addItemToCollection('simpleItems', { name: 'Bob', age: 40 }, 's3')
+          .resolve();
+
+        await tx
+          .addItemToCollection('simpleItems', { age: 41 }, 's3', {
+            mode: 'upsert',
+          })
+          .resolve();
+
+        return tx
+          .addItemToCollection('simpleItems', { age: 24 }, 's1', {
+            mode: 'upsert',
+          })
+          .resolve();
+      })
+      .resolve();
+
+    expect(actual.ok && actual.val.ok).toBe(true);
+
+    const actualByName = await store
+      .getItemInCollectionBy('simpleItems', 'name', 'John')
+      .resolve();
+
+    expect(actualByName).toEqual(new Ok({ id: 's1', name: 'John', age: 24 }));
+
+    const actualOrdered = await store
+      .getOrderedItemsInCollection('simpleItems')
+      .resolve();
+
+    expect(actualOrdered).toEqual(
+      new Ok([
+        { id: 's1', name: 'John', age: 24 },
+        { id: 's2', name: 'Jane', age: 30 },
+        { id: 's3', name: 'Bob', age: 41 },
+      ])
+    );
+  });
+});
@@ -1,6 +1,7 @@
 import { createMockStore } from '../mockStoreFactory';
 import { Store } from '../Store';
-import { CollectionMap, QueueMap, silentLogger } from './testUtils';
+import { CollectionMap, Guest, QueueMap, silentLogger } from './testUtils';
+import { createValidator } from '../validators';
 import { Ok, Err } from 'ts-results';
 import { AsyncResultWrapper } from 'ts-async-results';
 
@@ -833,4 +834,748 @@ describe('Update', () => {
       })
     );
   });
+
+  test('Updating an Item with a multiIndexBy, moves it to the new index value', async () => {
+    await store
+      .addItemToCollection(
+        'simpleIndexableItems',
+        { name: 'item 1', type: 'pending' },
+        'i1',
+        { foreignKeys: {}, multiIndexBy: ['type'] }
+      )
+      .resolve();
+
+    await store
+      .addItemToCollection(
+        'simpleIndexableItems',
+        { name: 'item 2', type: 'pending' },
+        'i2',
+        { foreignKeys: {}, multiIndexBy: ['type'] }
+      )
+      .resolve();
+
+    await store
+      .updateItemInCollection(
+        'simpleIndexableItems',
+        'i1',
+        { type: 'started' },
+        { foreignKeys: {} }
+      )
+      .resolve();
+
+    const pendingItems = await store
+      .getAllItemsInCollectionBy('simpleIndexableItems', 'type', 'pending')
+      .resolve();
+
+    expect(pendingItems).toEqual(
+      new Ok([
+        {
+          id: 'i2',
+          name: 'item 2',
+          type: 'pending',
+        },
+      ])
+    );
+
+    const startedItems = await store
+      .getAllItemsInCollectionBy('simpleIndexableItems', 'type', 'started')
+      .resolve();
+
+    expect(startedItems).toEqual(
+      new Ok([
+        {
+          id: 'i1',
+          name: 'item 1',
+          type: 'started',
+        },
+      ])
+    );
+  });
+
+  test('Updating an Item with a rangeIndexBy, rescores it by the new value', async () => {
+    await store
+      .addItemToCollection('simpleItems', { name: 'item 1', age: 20 }, 's1', {
+        foreignKeys: {},
+        rangeIndexBy: ['age'],
+      })
+      .resolve();
+
+    await store
+      .addItemToCollection('simpleItems', { name: 'item 2', age: 25 }, 's2', {
+        foreignKeys: {},
+        rangeIndexBy: ['age'],
+      })
+      .resolve();
+
+    await store
+      .updateItemInCollection(
+        'simpleItems',
+        's1',
+        { age: 40 },
+        { foreignKeys: {} }
+      )
+      .resolve();
+
+    const actualInRange = await store
+      .getItemsInCollectionInRange('simpleItems', 'age', { min: 18, max: 30 })
+      .resolve();
+
+    expect(actualInRange).toEqual(
+      new Ok([
+        {
+          id: 's2',
+          name: 'item 2',
+          age: 25,
+        },
+      ])
+    );
+
+    const actualOverRange = await store
+      .getItemsInCollectionInRange('simpleItems', 'age', { min: 31 })
+      .resolve();
+
+    expect(actualOverRange).toEqual(
+      new Ok([
+        {
+          id: 's1',
+          name: 'item 1',
+          age: 40,
+        },
+      ])
+    );
+  });
+
+  test('Updating any field of a compound index re-keys the Item under the new values', async () => {
+    await store
+      .addItemToCollection(
+        'simpleIndexableItems',
+        { name: 'item 1', type: 'pending' },
+        'i1',
+        { foreignKeys: {}, indexBy: [['name', 'type']] }
+      )
+      .resolve();
+
+    await store
+      .updateItemInCollection(
+        'simpleIndexableItems',
+        'i1',
+        { type: 'started' },
+        { foreignKeys: {} }
+      )
+      .resolve();
+
+    const actualByPrevValues = await store
+      .getItemInCollectionBy('simpleIndexableItems', {
+        name: 'item 1',
+        type: 'pending',
+      })
+      .resolve();
+
+    expect(actualByPrevValues.ok).toBe(false);
+    expect(actualByPrevValues.val).toBe('CollectionFieldInexistent');
+
+    const actualByNextValues = await store
+      .getItemInCollectionBy('simpleIndexableItems', {
+        name: 'item 1',
+        type: 'started',
+      })
+      .resolve();
+
+    expect(actualByNextValues).toEqual(
+      new Ok({
+        id: 'i1',
+        name: 'item 1',
+        type: 'started',
+      })
+    );
+  });
+
+  test('Updating a nested value with the getter function re-indexes the Item by the nested path', async () => {
+    const challenge = {
+      gameSpecs: {
+        timeLimit: 'blitz5',
+      },
+      createdBy: 'u1',
+      createdAt: String(new Date()),
+      slug: 'c1-slug',
+      type: 'public',
+    } as const;
+
+    await store
+      .addItemToCollection('challenges', challenge, 'c1', {
+        foreignKeys: {},
+        indexBy: ['gameSpecs.timeLimit'],
+      })
+      .resolve();
+
+    await store
+      .updateItemInCollection(
+        'challenges',
+        'c1',
+        (prev) => ({
+          gameSpecs: {
+            ...prev.gameSpecs,
+            timeLimit: 'bullet1' as const,
+          },
+        }),
+        { foreignKeys: {} }
+      )
+      .resolve();
+
+    const actualByPrevValue = await store
+      .getItemInCollectionBy('challenges', 'gameSpecs.timeLimit', 'blitz5')
+      .resolve();
+
+    expect(actualByPrevValue.ok).toBe(false);
+    expect(actualByPrevValue.val).toBe('CollectionFieldInexistent');
+
+    const actualByNextValue = await store
+      .getItemInCollectionBy('challenges', 'gameSpecs.timeLimit', 'bullet1')
+      .resolve();
+
+    expect(actualByNextValue).toEqual(
+      new Ok({
+        ...challenge,
+        id: 'c1',
+        gameSpecs: {
+          timeLimit: 'bullet1',
+        },
+      })
+    );
+  });
+
+  test('Updating an Item to a value already taken in a uniqueIndexBy fails and leaves the item and index untouched', async () => {
+    await store
+      .addItemToCollection('simpleItems', { name: 'John', age: 23 }, 's1', {
+        foreignKeys: {},
+        uniqueIndexBy: ['name'],
+      })
+      .resolve();
+
+    await store
+      .addItemToCollection('simpleItems', { name: 'Jack', age: 40 }, 's2', {
+        foreignKeys: {},
+        uniqueIndexBy: ['name'],
+      })
+      .resolve();
+
+    const actual = await store
+      .updateItemInCollection(
+        'simpleItems',
+        's2',
+        { name: 'John', age: 41 },
+        { foreignKeys: {} }
+      )
+      .resolve();
+
+    expect(actual.ok).toBe(false);
+    expect(actual.val).toBe('CollectionUniqueIndexViolation');
+
+    const actualItems = await store
+      .getItemsInCollection('simpleItems', ['s1', 's2'])
+      .resolve();
+
+    expect(actualItems).toEqual(
+      new Ok([
+        { id: 's1', name: 'John', age: 23 },
+        { id: 's2', name: 'Jack', age: 40 },
+      ])
+    );
+
+    const itemByIndex = await store
+      .getItemInCollectionBy('simpleItems', 'name', 'John')
+      .resolve();
+
+    expect(itemByIndex).toEqual(new Ok({ id: 's1', name: 'John', age: 23 }));
+
+    // Updating it to a free value still works
+    const actualAfterValidUpdate = await store
+      .updateItemInCollection(
+        'simpleItems',
+        's2',
+        { name: 'Jim' },
+        { foreignKeys: {} }
+      )
+      .resolve();
+
+    expect(actualAfterValidUpdate).toEqual(
+      new Ok({ id: 's2', name: 'Jim', age: 40 })
+    );
+  });
+
+  test('Updating an Item to reference inexistent Foreign Items fails with the missing collection and ids', async () => {
+    await store
+      .addItemToCollection(
+        'guests',
+        { avatarId: '12', name: 'Travolta', isGuest: true },
+        'g5',
+        { foreignKeys: {} }
+      )
+      .resolve();
+
+    const input = {
+      hasJoinedRoom: false,
+      joinedRoomId: null,
+      joinedRoomAt: null,
+      user: 'g5',
+    };
+
+    const foreignKeys = {
+      user: {
+        type: 'oneToOne',
+        collection: 'guests',
+      },
+    } as const;
+
+    await store
+      .addItemToCollection('peers', input, 'p1', { foreignKeys })
+      .resolve();
+
+    const actual = await store
+      .updateItemInCollection('peers', 'p1', { user: 'g6' } as {}, {
+        foreignKeys,
+      })
+      .resolve();
+
+    expect(actual.ok).toBe(false);
+    expect(actual.val).toEqual({
+      type: 'CollectionForeignItemsInexistent',
+      missingForeignItems: [
+        {
+          collection: 'guests',
+          ids: ['g6'],
+        },
+      ],
+    });
+
+    const actualAfterUpdate = await store
+      .getItemInCollection('peers', 'p1')
+      .resolve();
+
+    expect(actualAfterUpdate).toEqual(
+      new Ok({
+        ...input,
+        id: 'p1',
+        user: {
+          avatarId: '12',
+          name: 'Travolta',
+          isGuest: true,
+          id: 'g5',
+        },
+      })
+    );
+  });
+
+  test('Updating with migrateForeignKeys adds, retypes and removes Foreign Keys', async () => {
+    const guestInput = {
+      avatarId: '12',
+      name: 'Travolta',
+      isGuest: true,
+    } as const;
+
+    await store
+      .addItemToCollection('guests', guestInput, 'g5', { foreignKeys: {} })
+      .resolve();
+
+    const input = {
+      hasJoinedRoom: false,
+      joinedRoomId: null,
+      joinedRoomAt: null,
+      user: 'g5',
+    };
+
+    // Added w/o the relation at first, so the id is just a plain value
+    await store
+      .addItemToCollection('peers', input as any, 'p1', { foreignKeys: {} })
+      .resolve();
+
+    const actualWithOneToOne = await store
+      .updateItemInCollection(
+        'peers',
+        'p1',
+        { hasJoinedRoom: true },
+        {
+          foreignKeys: {
+            user: {
+              type: 'oneToOne',
+              collection: 'guests',
+            },
+          },
+          migrateForeignKeys: true,
+        }
+      )
+      .resolve();
+
+    expect(actualWithOneToOne).toEqual(
+      new Ok({
+        ...input,
+        id: 'p1',
+        hasJoinedRoom: true,
+        user: {
+          ...guestInput,
+          id: 'g5',
+        },
+      })
+    );
+
+    const actualWithOneToMany = await store
+      .updateItemInCollection(
+        'peers',
+        'p1',
+        {},
+        {
+          foreignKeys: {
+            user: {
+              type: 'oneToMany',
+              collection: 'guests',
+            },
+          },
+          migrateForeignKeys: true,
+        }
+      )
+      .resolve();
+
+    expect(actualWithOneToMany).toEqual(
+      new Ok({
+        ...input,
+        id: 'p1',
+        hasJoinedRoom: true,
+        user: {
+          g5: {
+            ...guestInput,
+            id: 'g5',
+          },
+        },
+      })
+    );
+
+    const referencingIds = await store
+      .getReferencingItems('guests', 'g5', { from: 'peers', via: 'user' })
+      .map((items) => items.map((item) => item.id))
+      .resolve();
+
+    expect(referencingIds).toEqual(new Ok(['p1']));
+
+    const actualWithoutForeignKeys = await store
+      .updateItemInCollection(
+        'peers',
+        'p1',
+        {},
+        { foreignKeys: {}, migrateForeignKeys: true }
+      )
+      .resolve();
+
+    expect(actualWithoutForeignKeys).toEqual(
+      new Ok({
+        ...input,
+        id: 'p1',
+        hasJoinedRoom: true,
+        user: {
+          g5: null,
+        },
+      })
+    );
+
+    const referencingIdsAfterRemoval = await store
+      .getReferencingItems('guests', 'g5', { from: 'peers' })
+      .map((items) => items.map((item) => item.id))
+      .resolve();
+
+    expect(referencingIdsAfterRemoval).toEqual(new Ok([]));
+  });
+
+  test('Updating with migrateForeignKeys fails when a "oneToMany" with multiple ids cannot be narrowed to "oneToOne"', async () => {
+    await store
+      .addItemToCollection(
+        'guests',
+        { avatarId: '12', name: 'Travolta', isGuest: true },
+        'g5',
+        { foreignKeys: {} }
+      )
+      .resolve();
+
+    await store
+      .addItemToCollection(
+        'guests',
+        { avatarId: '3', name: 'Beckham', isGuest: true },
+        'g7',
+        { foreignKeys: {} }
+      )
+      .resolve();
+
+    await store
+      .addItemToCollection(
+        'peers',
+        {
+          hasJoinedRoom: false,
+          joinedRoomId: null,
+          joinedRoomAt: null,
+          user: { g5: null, g7: null },
+        },
+        'p1',
+        {
+          foreignKeys: {
+            user: {
+              type: 'oneToMany',
+              collection: 'guests',
+            },
+          },
+        }
+      )
+      .resolve();
+
+    const actual = await store
+      .updateItemInCollection(
+        'peers',
+        'p1',
+        {},
+        {
+          foreignKeys: {
+            user: {
+              type: 'oneToOne',
+              collection: 'guests',
+            },
+          },
+          migrateForeignKeys: true,
+        }
+      )
+      .resolve();
+
+    expect(actual.ok).toBe(false);
+    expect(actual.val).toBe('CollectionUpdateFailure:MismatchingForeignKeys');
+  });
+
+  test('Updating many Items in one go gives a Result for each of them', async () => {
+    await store
+      .addItemToCollection('simpleItems', { name: 'John', age: 23 }, 's1', {
+        foreignKeys: {},
+        uniqueIndexBy: ['name'],
+      })
+      .resolve();
+
+    await store
+      .addItemToCollection('simpleItems', { name: 'Jack', age: 40 }, 's2', {
+        foreignKeys: {},
+        uniqueIndexBy: ['name'],
+      })
+      .resolve();
+
+    const actual = await store
+      .updateItemsInCollection(
+        'simpleItems',
+        [
+          { id: 's1', item: (prev) => ({ age: prev.age + 1 }) },
+          { id: 'inexistent', item: { age: 1 } },
+          { id: 's2', item: { name: 'John' } },
+        ],
+        { foreignKeys: {} }
+      )
+      .resolve();
+
+    expect(actual.ok && actual.val.map((result) => result.ok)).toEqual([
+      true,
+      false,
+      false,
+    ]);
+    expect(actual.ok && actual.val.map((result) => result.val)).toEqual([
+      { id: 's1', name: 'John', age: 24 },
+      'CollectionFieldInexistent',
+      'CollectionUniqueIndexViolation',
+    ]);
+
+    const actualItems = await store
+      .getItemsInCollection('simpleItems', ['s1', 's2'])
+      .resolve();
+
+    expect(actualItems).toEqual(
+      new Ok([
+        { id: 's1', name: 'John', age: 24 },
+        { id: 's2', name: 'Jack', age: 40 },
+      ])
+    );
+  });
+
+  test('An id given more than once in a bulk update fails all but the first with "CollectionItemIdDuplicate"', async () => {
+    await store
+      .addItemToCollection('simpleItems', { name: 'John', age: 23 }, 's1', {
+        foreignKeys: {},
+      })
+      .resolve();
+
+    const actual = await store
+      .updateItemsInCollection(
+        'simpleItems',
+        [
+          { id: 's1', item: { age: 24 } },
+          { id: 's1', item: { age: 25 } },
+        ],
+        { foreignKeys: {} }
+      )
+      .resolve();
+
+    expect(actual.ok && actual.val.map((result) => result.val)).toEqual([
+      { id: 's1', name: 'John', age: 24 },
+      'CollectionItemIdDuplicate',
+    ]);
+  });
+});
+
+describe('Update with Schema', () => {
+  const schema = {
+    guests: {
+      validator: createValidator((val) =>
+        (val as Guest).name.length > 0
+          ? []
+          : [{ path: 'name', message: 'Cannot be empty' }]
+      ),
+    },
+    peers: {
+      foreignKeys: {
+        user: {
+          type: 'oneToOne',
+          collection: 'guests',
+        },
+      },
+    },
+  } as const;
+
+  let schemaStore: Store<CollectionMap, QueueMap, typeof schema>;
+
+  beforeAll(() => {
+    schemaStore = createMockStore<CollectionMap, QueueMap, typeof schema>({
+      namespace: 'testSchema',
+      logger: silentLogger,
+      schema,
+    });
+  });
+
+  beforeEach(() => {
+    schemaStore.flush();
+  });
+
+  test('Updating without opts uses the ForeignKeys declared in the Schema', async () => {
+    const guestInput = {
+      avatarId: '12',
+      name: 'Travolta',
+      isGuest: true,
+    } as const;
+    await schemaStore.addItemToCollection('guests', guestInput, 'g1').resolve();
+
+    const input = {
+      hasJoinedRoom: false,
+      joinedRoomId: null,
+      joinedRoomAt: null,
+      user: 'g1',
+    } as const;
+    await schemaStore.addItemToCollection('peers', input, 'p1').resolve();
+
+    const actual = await schemaStore
+      .updateItemInCollection('peers', 'p1', { hasJoinedRoom: true })
+      .resolve();
+
+    expect(actual).toEqual(
+      new Ok({
+        ...input,
+        hasJoinedRoom: true,
+        id: 'p1',
+        user: {
+          ...guestInput,
+          id: 'g1',
+        },
+      })
+    );
+  });
+
+  test('Updating to an invalid merged value fails with the validation issues and leaves the item untouched', async () => {
+    const guestInput = {
+      avatarId: '12',
+      name: 'Travolta',
+      isGuest: true,
+    } as const;
+    await schemaStore.addItemToCollection('guests', guestInput, 'g1').resolve();
+
+    const actual = await schemaStore
+      .updateItemInCollection('guests', 'g1', { name: '' })
+      .resolve();
+
+    expect(actual.ok).toBe(false);
+    expect(actual.val).toEqual({
+      type: 'CollectionValidationFailure',
+      issues: [{ path: 'name', message: 'Cannot be empty' }],
+    });
+
+    const storedItem = await schemaStore
+      .getItemInCollection('guests', 'g1')
+      .resolve();
+
+    expect(storedItem).toEqual(new Ok({ ...guestInput, id: 'g1' }));
+  });
+});
+
+describe('Update with Versions', () => {
+  test('Every write bumps the Item version', async () => {
+    await store
+      .addItemToCollection('simpleItems', { name: 'John', age: 23 }, 's1')
+      .resolve();
+
+    const afterAddition = await store
+      .getRawItemInCollection('simpleItems', 's1')
+      .resolve();
+
+    expect(afterAddition.ok && afterAddition.val.version).toBe(1);
+
+    await store
+      .updateItemInCollection(
+        'simpleItems',
+        's1',
+        { age: 24 },
+        { expectedVersion: 1 }
+      )
+      .resolve();
+
+    const afterUpdate = await store
+      .getRawItemInCollection('simpleItems', 's1')
+      .resolve();
+
+    expect(afterUpdate.ok && afterUpdate.val.version).toBe(2);
+
+    // Replacing the item keeps counting from its previous version
+    await store
+      .addItemToCollection('simpleItems', { name: 'Jack', age: 40 }, 's1')
+      .resolve();
+
+    const afterReplacement = await store
+      .getRawItemInCollection('simpleItems', 's1')
+      .resolve();
+
+    expect(afterReplacement.ok && afterReplacement.val.version).toBe(3);
+  });
+
+  test('Updating with a stale expectedVersion fails with "CollectionVersionConflict" and leaves the item untouched', async () => {
+    await store
+      .addItemToCollection('simpleItems', { name: 'John', age: 23 }, 's1')
+      .resolve();
+
+    await store
+      .updateItemInCollection('simpleItems', 's1', { age: 24 })
+      .resolve();
+
+    const actual = await store
+      .updateItemInCollection(
+        'simpleItems',
+        's1',
+        { age: 30 },
+        { expectedVersion: 1 }
+      )
+      .resolve();
+
+    expect(actual.ok).toBe(false);
+    expect(actual.val).toBe('CollectionVersionConflict');
+
+    const actualItem = await store
+      .getItemInCollection('simpleItems', 's1')
+      .resolve();
+
+    expect(actualItem).toEqual(new Ok({ id: 's1', name: 'John', age: 24 }));
+  });
 });
@@ -1,7 +1,87 @@
 import { promisify } from 'util';
+import { createHash } from 'crypto';
+import flatten from 'flatten';
 import { Multi, RedisClient } from 'redis';
+import { runLuaScript } from './redisMockScripting';
+
+// The same as the server's script cache (by sha), shared by all the clients
+let loadedScripts: { [sha: string]: string } = {};
 
 export const getRedisMockClient = (redis: RedisClient) => {
+  // The mock replies "OK" to a SET NX even when the key exists and nothing got set, which makes
+  //  every lock look acquired, so it goes through the SETNX it does get right instead
+  const set = redis.set.bind(redis) as (...args: unknown[]) => boolean;
+
+  (redis as any).set = (...args: any[]) => {
+    const callback = args[args.length - 1];
+    const options = args.slice(2, -1).map((arg) => String(arg).toUpperCase());
+
+    if (typeof callback !== 'function' || options.indexOf('NX') === -1) {
+      return set(...args);
+    }
+
+    const [key, value] = args;
+    const pxAt = options.indexOf('PX');
+
+    return redis.setnx(key, value, (err, reply) => {
+      if (err || !reply) {
+        callback(err, null);
+      } else if (pxAt === -1) {
+        callback(null, 'OK');
+      } else {
+        redis.pexpire(key, Number(options[pxAt + 1]), (err) =>
+          callback(err, err ? null : 'OK')
+        );
+      }
+    });
+  };
+
+  // Called as [sha or source, numkeys, ...keys, ...args, callback], the same as the client
+  const runScript = (source: string, numKeys: number, rest: unknown[]) => {
+    const callback = rest[rest.length - 1] as (
+      err: Error | null,
+      reply: unknown
+    ) => void;
+    const values = (flatten(rest.slice(0, -1)) as unknown[]).map(String);
+    const keys = values.slice(0, numKeys);
+    const args = values.slice(numKeys);
+
+    Promise.resolve()
+      .then(() => runLuaScript(redis, source, keys, args))
+      .then(
+        (reply) => callback(null, reply),
+        (err) => callback(err, null)
+      );
+
+    return true;
+  };
+
+  (redis as any).evalsha = (
+    sha: string,
+    numKeys: number,
+    ...rest: unknown[]
+  ) => {
+    if (!loadedScripts[sha]) {
+      const callback = rest[rest.length - 1] as (err: Error) => void;
+
+      callback(new Error('NOSCRIPT No matching script. Please use EVAL.'));
+
+      return false;
+    }
+
+    return runScript(loadedScripts[sha], numKeys, rest);
+  };
+
+  (redis as any).eval = (
+    source: string,
+    numKeys: number,
+    ...rest: unknown[]
+  ) => {
+    loadedScripts[createHash('sha1').update(source).digest('hex')] = source;
+
+    return runScript(source, numKeys, rest);
+  };
+
   return {
     redis,
 
@@ -12,8 +92,62 @@ export const getRedisMockClient = (redis: RedisClient) => {
       delay().then(() => promisify(redis.hmget).bind(redis, ...args)()),
     hgetall: (...args: any[]) =>
       delay().then(() => promisify(redis.hgetall).bind(redis, ...args)()),
+    hlen: (key: string) =>
+      delay().then(() => promisify(redis.hlen).bind(redis, key)()),
     hset: (...args: any[]) =>
       delay().then(() => promisify(redis.hset).bind(redis, ...args)()),
+    hexists: (key: string, field: string) =>
+      delay().then(() => promisify(redis.hexists).bind(redis, key, field)()),
+    hincrby: (key: string, field: string, increment: number) =>
+      delay().then(() =>
+        promisify(redis.hincrby).bind(redis, key, field, increment)()
+      ),
+    smembers: (...args: any[]) =>
+      delay().then(() => promisify(redis.smembers).bind(redis, ...args)()),
+    zrange: (key: string, start: number, stop: number) =>
+      delay().then(() =>
+        promisify(redis.zrange).bind(redis, key, start, stop)()
+      ),
+    zrevrange: (key: string, start: number, stop: number) =>
+      delay().then(() =>
+        promisify(redis.zrevrange).bind(redis, key, start, stop)()
+      ),
+    // The mock skips a LIMIT starting at 0, so it gets applied here instead
+    zrangebyscore: (
+      key: string,
+      min: number,
+      max: number,
+      [, offset, count]: ['LIMIT', number, number]
+    ) =>
+      delay()
+        .then(() => promisify(redis.zrangebyscore).bind(redis, key, min, max)())
+        .then((ids) =>
+          (ids as string[]).slice(
+            offset,
+            count < 0 ? undefined : offset + count
+          )
+        ),
+    zrevrangebyscore: (
+      key: string,
+      max: number,
+      min: number,
+      [, offset, count]: ['LIMIT', number, number]
+    ) =>
+      delay()
+        .then(() =>
+          promisify(redis.zrevrangebyscore).bind(redis, key, max, min)()
+        )
+        .then((ids) =>
+          (ids as string[]).slice(
+            offset,
+            count < 0 ? undefined : offset + count
+          )
+        ),
+    // The options come as tuples (i.e. ['COUNT', 10]) the same as in handy-redis
+    hscan: (...args: any[]) =>
+      delay().then(() =>
+        promisify(redis.hscan).bind(redis, ...(flatten(args) as never[]))()
+      ),
     multi: redis.multi.bind(redis),
     execMulti: <T = {}>(multi: Multi) =>
       delay().then(
@@ -36,6 +170,28 @@ export const getRedisMockClient = (redis: RedisClient) => {
           })
       ),
 
+    // Scripts
+    eval: (source: string, numKeys: number, keys: string[], args: string[]) =>
+      delay().then(() =>
+        promisify((redis as any).eval).bind(
+          redis,
+          source,
+          numKeys,
+          ...keys,
+          ...args
+        )()
+      ),
+    evalsha: (sha: string, numKeys: number, keys: string[], args: string[]) =>
+      delay().then(() =>
+        promisify((redis as any).evalsha).bind(
+          redis,
+          sha,
+          numKeys,
+          ...keys,
+          ...args
+        )()
+      ),
+
     // Queue
     rpush: promisify(redis.rpush).bind(redis),
     lpop: promisify(redis.lpop).bind(redis),
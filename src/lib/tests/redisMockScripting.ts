@@ -0,0 +1,231 @@
+import { lua, lauxlib, lualib, to_luastring } from 'fengari';
+import mockHelpers from 'redis-mock/lib/helpers';
+import { RedisClient } from 'redis';
+
+type Reply = null | number | string | Reply[];
+
+type LuaState = unknown;
+
+// The mock applies each command right away but only calls back on the next tick, which a
+//  script can't wait for, so while it runs they call back in the same step instead. That also
+//  keeps the whole script atomic, since nothing else gets to run in between
+const callSynchronously = (
+  redis: RedisClient,
+  command: string,
+  args: string[]
+): Reply => {
+  const method = (redis as any)[command.toLowerCase()];
+  const callCallback = mockHelpers.callCallback;
+  let reply: { err: Error | null; value: Reply } | undefined;
+
+  if (typeof method !== 'function') {
+    throw new Error(`ERR unknown command '${command}'`);
+  }
+
+  mockHelpers.callCallback = (
+    callback: ((err: Error | null, value: Reply) => void) | undefined,
+    err: Error | null,
+    value: Reply
+  ) => callback?.(err, value);
+
+  try {
+    method.call(redis, ...args, (err: Error | null, value: Reply) => {
+      reply = { err, value };
+    });
+  } finally {
+    mockHelpers.callCallback = callCallback;
+  }
+
+  if (!reply) {
+    throw new Error(`ERR '${command}' didn't reply within the script`);
+  }
+
+  if (reply.err) {
+    throw reply.err;
+  }
+
+  return reply.value;
+};
+
+// A decoded JSON value, with null as the cjson.null sentinel (kept in the registry)
+const pushJsonValue = (L: LuaState, value: unknown, nullRef: number) => {
+  if (value === null) {
+    lua.lua_rawgeti(L, lua.LUA_REGISTRYINDEX, nullRef);
+  } else if (typeof value === 'boolean') {
+    lua.lua_pushboolean(L, value);
+  } else if (typeof value === 'number') {
+    if (Number.isInteger(value)) {
+      lua.lua_pushinteger(L, value);
+    } else {
+      lua.lua_pushnumber(L, value);
+    }
+  } else if (typeof value === 'string') {
+    lua.lua_pushstring(L, to_luastring(value));
+  } else if (Array.isArray(value)) {
+    lua.lua_createtable(L, value.length, 0);
+    value.forEach((item, i) => {
+      pushJsonValue(L, item, nullRef);
+      lua.lua_rawseti(L, -2, i + 1);
+    });
+  } else {
+    const object = value as { [key: string]: unknown };
+
+    lua.lua_createtable(L, 0, 0);
+    Object.keys(object).forEach((key) => {
+      pushJsonValue(L, object[key], nullRef);
+      lua.lua_setfield(L, -2, to_luastring(key));
+    });
+  }
+};
+
+// The same conversion as Redis does for the replies given to a script, with nil as false
+const pushReply = (L: LuaState, reply: Reply) => {
+  if (reply === null || reply === undefined) {
+    lua.lua_pushboolean(L, false);
+  } else if (typeof reply === 'number') {
+    lua.lua_pushinteger(L, reply);
+  } else if (Array.isArray(reply)) {
+    lua.lua_createtable(L, reply.length, 0);
+    reply.forEach((item, i) => {
+      pushReply(L, item);
+      lua.lua_rawseti(L, -2, i + 1);
+    });
+  } else {
+    lua.lua_pushstring(L, to_luastring(String(reply)));
+  }
+};
+
+// The same conversion as Redis does for the value a script returns: the numbers get truncated
+//  to integers, false becomes nil and an array stops at its first nil
+const toReply = (L: LuaState, index: number): Reply => {
+  const at = lua.lua_absindex(L, index);
+
+  switch (lua.lua_type(L, at)) {
+    case lua.LUA_TNUMBER:
+      return Math.trunc(lua.lua_tonumber(L, at));
+    case lua.LUA_TSTRING:
+      return lua.lua_tojsstring(L, at);
+    case lua.LUA_TBOOLEAN:
+      return lua.lua_toboolean(L, at) ? 1 : null;
+    case lua.LUA_TTABLE: {
+      if (lua.lua_getfield(L, at, to_luastring('err')) === lua.LUA_TSTRING) {
+        throw new Error(lua.lua_tojsstring(L, -1));
+      }
+
+      lua.lua_pop(L, 1);
+
+      if (lua.lua_getfield(L, at, to_luastring('ok')) === lua.LUA_TSTRING) {
+        return lua.lua_tojsstring(L, -1);
+      }
+
+      lua.lua_pop(L, 1);
+
+      const items: Reply[] = [];
+
+      while (lua.lua_rawgeti(L, at, items.length + 1) !== lua.LUA_TNIL) {
+        items.push(toReply(L, -1));
+        lua.lua_pop(L, 1);
+      }
+
+      lua.lua_pop(L, 1);
+
+      return items;
+    }
+    default:
+      return null;
+  }
+};
+
+// The strings and numbers a script calls a command with, formatted as Redis does
+const toCommandArg = (L: LuaState, index: number) => {
+  if (lua.lua_isinteger(L, index)) {
+    return String(lua.lua_tointeger(L, index));
+  }
+
+  if (lua.lua_type(L, index) === lua.LUA_TNUMBER) {
+    return String(lua.lua_tonumber(L, index));
+  }
+
+  if (lua.lua_type(L, index) === lua.LUA_TSTRING) {
+    return lua.lua_tojsstring(L, index);
+  }
+
+  return lauxlib.luaL_error(
+    L,
+    to_luastring('Lua redis() command arguments must be strings or integers')
+  );
+};
+
+// Runs the actual Lua source of a script against the mock, through a Lua VM given the same
+//  globals Redis gives it: KEYS, ARGV, redis.call, cjson and the Lua 5.1 unpack
+export const runLuaScript = (
+  redis: RedisClient,
+  source: string,
+  keys: string[],
+  args: string[]
+): Reply => {
+  const L = lauxlib.luaL_newstate();
+
+  lualib.luaL_openlibs(L);
+
+  lua.lua_newtable(L);
+  const nullRef = lauxlib.luaL_ref(L, lua.LUA_REGISTRYINDEX);
+
+  pushJsonValue(L, keys, nullRef);
+  lua.lua_setglobal(L, to_luastring('KEYS'));
+  pushJsonValue(L, args, nullRef);
+  lua.lua_setglobal(L, to_luastring('ARGV'));
+
+  lua.lua_newtable(L);
+  lua.lua_pushjsfunction(L, (L: LuaState) => {
+    const commandArgs: string[] = [];
+
+    for (let i = 1; i <= lua.lua_gettop(L); i++) {
+      commandArgs.push(toCommandArg(L, i));
+    }
+
+    const [command, ...rest] = commandArgs;
+    let reply: Reply;
+
+    try {
+      reply = callSynchronously(redis, command, rest);
+    } catch (error) {
+      return lauxlib.luaL_error(
+        L,
+        to_luastring(String((error as Error).message || error))
+      );
+    }
+
+    pushReply(L, reply);
+
+    return 1;
+  });
+  lua.lua_setfield(L, -2, to_luastring('call'));
+  lua.lua_setglobal(L, to_luastring('redis'));
+
+  lua.lua_newtable(L);
+  lua.lua_pushjsfunction(L, (L: LuaState) => {
+    lauxlib.luaL_checkstring(L, 1);
+    pushJsonValue(L, JSON.parse(lua.lua_tojsstring(L, 1)), nullRef);
+
+    return 1;
+  });
+  lua.lua_setfield(L, -2, to_luastring('decode'));
+  lua.lua_rawgeti(L, lua.LUA_REGISTRYINDEX, nullRef);
+  lua.lua_setfield(L, -2, to_luastring('null'));
+  lua.lua_setglobal(L, to_luastring('cjson'));
+
+  if (
+    lauxlib.luaL_dostring(L, to_luastring('unpack = table.unpack')) !==
+      lua.LUA_OK ||
+    lauxlib.luaL_loadstring(L, to_luastring(source)) !== lua.LUA_OK
+  ) {
+    throw new Error(`ERR Error compiling script: ${lua.lua_tojsstring(L, -1)}`);
+  }
+
+  if (lua.lua_pcall(L, 0, 1, 0) !== lua.LUA_OK) {
+    throw new Error(`ERR Error running script: ${lua.lua_tojsstring(L, -1)}`);
+  }
+
+  return toReply(L, -1);
+};
@@ -65,6 +65,7 @@ export const noop = () => {};
 
 export const silentLogger = {
   ...console,
+  debug: noop,
   info: noop,
   log: noop,
   warn: noop,
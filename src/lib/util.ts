@@ -1,4 +1,5 @@
 import { AsyncResult } from 'ts-async-results';
+import { CollectionValidator } from './validators';
 
 export type UnidentifiableModel<T extends {}> = Omit<T, 'id'>;
 export type ModelWithoutTimestamps<T extends {}> = Omit<T, 'createdAt' | 'updatedAt'>;
@@ -20,13 +21,140 @@ export type ForeignKeys<T extends {}, CollectionsMap extends {}> = {
 type ForeignOneToOneKeys<CollectionsMap extends {}> = {
   type: 'oneToOne';
   collection: keyof CollectionsMap;
+  // What happens to this item when the referenced one gets removed
+  onDelete?: 'restrict' | 'cascade' | 'setNull';
 };
 
 type ForeignOneToManyKeys<CollectionsMap extends {}> = {
   type: 'oneToMany';
   collection: keyof CollectionsMap;
+  // What happens to this item when any of the referenced ones gets removed
+  onDelete?: 'restrict' | 'cascade' | 'removeFromMany';
 };
 
+export type CollectionItemReference = {
+  collection: string;
+  field: string;
+  id: string;
+};
+
+// The fields that can hold foreign items, as a single one or as a map of them by id
+type ForeignItemFields<T extends {}> = OnlyKeysOfType<
+  { id: string } | { [id: string]: { id: string } },
+  UnidentifiableModel<T>
+> &
+  string;
+
+// The fields with the declared foreign keys or, when none are declared, the ones that can
+//  hold foreign items
+export type IncludableForeignKeys<T extends {}, FKs = {}> = [keyof FKs] extends [
+  never
+]
+  ? ForeignItemFields<T>
+  : keyof FKs & string;
+
+export type ForeignItemsResolutionOptions<T extends {}, FKs = {}> = {
+  // Only these foreign keys get resolved on the first level, the rest are left as ids
+  include?: IncludableForeignKeys<T, FKs>[];
+  // How many levels of foreign items get resolved. 0 leaves them all as ids
+  depth?: number;
+};
+
+export type TolerantForeignItemsResolutionOptions<T extends {}, FKs = {}> = ForeignItemsResolutionOptions<
+  T,
+  FKs
+> & {
+  // Resolves what exists and reports the missing foreign items instead of failing
+  tolerateDanglingReferences: true;
+};
+
+// The referencing item (collection, field, id) and the missing item it points to
+export type CollectionDanglingReference = CollectionItemReference & {
+  foreignCollection: string;
+  foreignId: string;
+};
+
+export type CollectionItemWithDanglingReferences<T> = {
+  item: T;
+  danglingReferences: CollectionDanglingReference[];
+};
+
+export type CollectionItemsWithDanglingReferences<T> = {
+  items: T[];
+  danglingReferences: CollectionDanglingReference[];
+};
+
+export type CollectionScanOptions<T extends {}, FKs = {}> = ForeignItemsResolutionOptions<
+  T,
+  FKs
+> & {
+  // Where to continue from. Leave it out to start from the beginning
+  cursor?: string;
+  // A hint of how many items a page should have
+  count?: number;
+};
+
+export type CollectionScanReply<T> = {
+  items: T[];
+  // Null once the whole collection has been scanned
+  nextCursor: string | null;
+};
+
+export type CollectionOrderedRangeOptions<T extends {}, FKs = {}> = ForeignItemsResolutionOptions<
+  T,
+  FKs
+> & {
+  // Defaults to the oldest first
+  order?: 'oldestFirst' | 'newestFirst';
+  offset?: number;
+  // Leave it out to get all the items from the offset on
+  limit?: number;
+};
+
+export type CollectionRangeOptions<T extends {}, FKs = {}> = ForeignItemsResolutionOptions<
+  T,
+  FKs
+> & {
+  // Both inclusive and unbounded when left out
+  min?: number;
+  max?: number;
+  offset?: number;
+  limit?: number;
+  order?: 'asc' | 'desc';
+};
+
+// How the ids get generated when none is given at addition. The "ulid" ones sort by their creation time
+export type CollectionIdStrategy<T extends {}> =
+  | 'sequential'
+  | 'uuid'
+  | 'ulid'
+  | 'nanoid'
+  | ((val: UnidentifiableModel<T>) => string);
+
+type IndexablePath<T extends {}> = PathsOfType<string | number, UnidentifiableModel<T>>;
+
+export type CollectionSchema<T extends {}, CollectionMap extends CollectionMapBase> = {
+  foreignKeys?: ForeignKeys<T, CollectionMap>;
+  indexBy?: readonly (IndexablePath<T> | readonly IndexablePath<T>[])[];
+  uniqueIndexBy?: readonly (IndexablePath<T> | readonly IndexablePath<T>[])[];
+  multiIndexBy?: readonly (IndexablePath<T> | readonly IndexablePath<T>[])[];
+  rangeIndexBy?: readonly PathsOfType<number, UnidentifiableModel<T>>[];
+  idStrategy?: CollectionIdStrategy<T>;
+  // Checks the added and the updated values at runtime, for the ones not coming from typed callers
+  validator?: CollectionValidator;
+};
+
+export type StoreSchema<CollectionMap extends CollectionMapBase> = {
+  [K in keyof CollectionMap]?: CollectionSchema<CollectionMap[K], CollectionMap>;
+};
+
+// The ForeignKeys declared for the given collection, so the added values get typed by them
+export type SchemaForeignKeys<Schema extends {}, K> = K extends keyof Schema
+  ? Schema[K] extends { foreignKeys: infer FKs }
+    ? FKs
+    : {}
+  : {};
+
 export type CollectionMapBase = {
   [key: string]: { id: string } & object;
 };
@@ -44,6 +172,16 @@ export type CollectionItemMetadata<T, CollectionMap extends CollectionMapBase> =
   indexedIn?: {
     [collection: string]: string;
   };
+  // The indexedIn collections that are enforced to be unique
+  uniqueIndexedIn?: string[];
+  multiIndexedIn?: {
+    [collection: string]: string;
+  };
+  rangeIndexedIn?: {
+    [collection: string]: number;
+  };
+  // Incremented on every write, so a writer can tell whether the item changed since it was read
+  version?: number;
 };
 
 export type CollectionItemMetadataReply<
@@ -109,6 +247,19 @@ export type OnlyKeysOfType<T, O extends {}> = { [K in keyof O]: IsOfType<T, O[K]
 
 type ObjectWithOnlyKeysOfType<T, O extends {}> = Pick<O, OnlyKeysOfType<T, O>>;
 
+// The dotted paths (i.e. 'gameSpecs.timeLimit') to the fields of type T, a few levels deep
+export type PathsOfType<T, O, Depth extends unknown[] = []> = Depth['length'] extends 4
+  ? never
+  : {
+      [K in keyof O & string]:
+        | IsOfType<T, O[K], K>
+        | (NonNullable<O[K]> extends readonly unknown[]
+            ? never
+            : NonNullable<O[K]> extends object
+            ? `${K}.${PathsOfType<T, NonNullable<O[K]>, [...Depth, unknown]>}`
+            : never);
+    }[keyof O & string];
+
 export type CollectionItemUpdateableProps<T extends {}> = Partial<
   CollectionItemWithoutForeignKeys<UnidentifiableModel<T>>
 >;
@@ -125,11 +276,40 @@ export type UpdateableCollectionPropsGetter<T extends {}> =
       | AsyncResult<CollectionItemUpdateableProps<T>, unknown>);
 
 export const toCollectionId = (collection: string, id: string) => id;
+export const toCollectionItemKey = (collection: string, id: string) => `${collection}:${id}`;
 export const toQueueName = (queue: string) => `queue:${queue}`;
 
+// The compound indexes (i.e. ['createdBy', 'type']) are named after their sorted fields
+export const toIndexedFieldName = (byField: PropertyKey | PropertyKey[]) => Array.isArray(byField) ? byField.map(String).sort().join('+') : String(byField);
+export const getValueAtPath = (item: {}, path: string) =>
+  path.split('.').reduce((prev, key) => (prev === null || prev === undefined ? prev : prev[key]), item as any);
+export const getIndexedFieldValue = (item: {}, indexedFieldName: string, getFieldValue = getValueAtPath) => {
+  const fields = indexedFieldName.split('+');
+
+  // The compound values get serialized together, in the same order as their fields
+  return fields.length > 1 ? JSON.stringify(fields.map((field) => getFieldValue(item, field))) : getFieldValue(item, indexedFieldName);
+};
+
 export const toIndexedCollectionName = (collection: string, byField: string | number) => `${collection}:by:${byField}`;
 export const getByFieldNameFromIndexedCollection = (indexedCollection: string) => indexedCollection.split(':by:')[1];
 
+export const toInsertionOrderedCollectionName = (collection: string) => `${collection}:byInsertion`;
+
+export const toMultiIndexedCollectionName = (collection: string, byField: string | number) => `${collection}:allBy:${byField}`;
+export const toMultiIndexedCollectionValueSet = (multiIndexedCollection: string, value: string | number) => `${multiIndexedCollection}:${value}`;
+export const getByFieldNameFromMultiIndexedCollection = (multiIndexedCollection: string) => multiIndexedCollection.split(':allBy:')[1];
+
+export const toRangeIndexedCollectionName = (collection: string, byField: string | number) => `${collection}:rangeBy:${byField}`;
+export const getByFieldNameFromRangeIndexedCollection = (rangeIndexedCollection: string) => rangeIndexedCollection.split(':rangeBy:')[1];
+
+export const toReferencedByCollectionName = (collection: string, id: string) => `${collection}:referencedBy:${id}`;
+export const toReferenceMember = (reference: CollectionItemReference) => JSON.stringify([reference.collection, reference.field, reference.id]);
+export const fromReferenceMember = (member: string): CollectionItemReference => {
+  const [collection, field, id] = JSON.parse(member);
+
+  return { collection, field, id };
+};
+
 export const objectKeys = <O extends object>(o: O) => Object.keys(o) as (keyof O)[];
 
 export const delay = (ms: number) => new Promise((resolve) => {
@@ -0,0 +1,88 @@
+export type CollectionValidationIssue = {
+  // The dotted path (i.e. 'gameSpecs.timeLimit') to the invalid field, empty for the whole value
+  path: string;
+  message: string;
+};
+
+// Runs on the value as it gets stored, meaning without the id and with the foreign items as ids.
+//  An empty list of issues means the value is valid
+export type CollectionValidator = {
+  validate: (val: unknown) => CollectionValidationIssue[];
+};
+
+// The bits of the schema libraries the adapters rely on, so none of them has to be installed
+
+type ZodLikeSchema = {
+  safeParse: (val: unknown) =>
+    | { success: true }
+    | {
+        success: false;
+        error: { issues: { path: (string | number)[]; message: string }[] };
+      };
+};
+
+type YupLikeSchema = {
+  validateSync: (val: unknown, opts: { abortEarly: boolean }) => unknown;
+};
+
+type YupLikeValidationError = {
+  path?: string;
+  message: string;
+  inner?: { path?: string; message: string }[];
+};
+
+type AjvLikeValidateFunction = {
+  (val: unknown): boolean;
+  errors?: { instancePath: string; message?: string }[] | null;
+};
+
+export const createValidator = (
+  validate: CollectionValidator['validate']
+): CollectionValidator => ({ validate });
+
+export const fromZodSchema = (schema: ZodLikeSchema): CollectionValidator =>
+  createValidator((val) => {
+    const result = schema.safeParse(val);
+
+    if (result.success) {
+      return [];
+    }
+
+    return result.error.issues.map((issue) => ({
+      path: issue.path.join('.'),
+      message: issue.message,
+    }));
+  });
+
+export const fromYupSchema = (schema: YupLikeSchema): CollectionValidator =>
+  createValidator((val) => {
+    try {
+      schema.validateSync(val, { abortEarly: false });
+
+      return [];
+    } catch (e) {
+      const error = e as YupLikeValidationError;
+      const issues =
+        error.inner && error.inner.length > 0 ? error.inner : [error];
+
+      return issues.map((issue) => ({
+        path: issue.path || '',
+        message: issue.message,
+      }));
+    }
+  });
+
+// For JSON Schema validators compiled with ajv, whose errors point to the field as '/a/b'
+export const fromAjvValidateFunction = (
+  validateFn: AjvLikeValidateFunction
+): CollectionValidator =>
+  createValidator((val) => {
+    if (validateFn(val)) {
+      return [];
+    }
+
+    return (validateFn.errors || []).map((error) => ({
+      path: error.instancePath.split('/').filter(Boolean).join('.'),
+      message: error.message || 'is invalid',
+    }));
+  });